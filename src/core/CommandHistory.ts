@@ -0,0 +1,196 @@
+import { Command, CompositeCommand } from './commands';
+
+export interface HistoryEntry {
+  index: number;
+  label: string;
+}
+
+/**
+ * CommandHistory - Undo/redo stack for graph edits
+ *
+ * Graph and Node mutations record themselves here as reversible commands.
+ * Recording is suspended while a command is being undone or redone, so
+ * replaying history never produces new entries.
+ *
+ * Related edits can be grouped into a single step with group() (e.g. paste,
+ * delete selection, auto-layout).
+ */
+export class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private openGroups: CompositeCommand[] = [];
+  private suspendDepth = 0;
+  private listeners: Set<() => void> = new Set();
+  private batch: <T>(fn: () => T) => T = (fn) => fn();
+
+  constructor(public limit: number = 200) {}
+
+  /**
+   * Run undo, redo and grouped edits through this, e.g. so the graph delivers the
+   * events of all their steps together
+   */
+  setBatcher(batch: <T>(fn: () => T) => T): void {
+    this.batch = batch;
+  }
+
+  /**
+   * Whether new commands are currently being recorded
+   */
+  get isRecording(): boolean {
+    return this.suspendDepth === 0;
+  }
+
+  /**
+   * Record a command that has already been applied
+   */
+  record(command: Command): void {
+    if (!this.isRecording) return;
+
+    const openGroup = this.openGroups[this.openGroups.length - 1];
+    if (openGroup) {
+      openGroup.add(command);
+      return;
+    }
+
+    this.push(command);
+  }
+
+  /**
+   * Start grouping subsequent commands into a single undo step
+   */
+  beginGroup(label: string): void {
+    this.openGroups.push(new CompositeCommand(label));
+  }
+
+  /**
+   * Close the innermost group and record it (empty groups are dropped)
+   */
+  endGroup(): void {
+    const group = this.openGroups.pop();
+    if (!group || group.isEmpty()) return;
+
+    // A group holding a single command is recorded as that command
+    const command = group.size === 1 ? group.first()! : group;
+
+    const parent = this.openGroups[this.openGroups.length - 1];
+    if (parent) {
+      parent.add(command);
+    } else {
+      this.push(command);
+    }
+  }
+
+  /**
+   * Run a function with all commands it records grouped into one undo step
+   */
+  group<T>(label: string, fn: () => T): T {
+    return this.batch(() => {
+      this.beginGroup(label);
+      try {
+        return fn();
+      } finally {
+        this.endGroup();
+      }
+    });
+  }
+
+  /**
+   * Run a function without recording any commands
+   */
+  suspend<T>(fn: () => T): T {
+    this.suspendDepth++;
+    try {
+      return fn();
+    } finally {
+      this.suspendDepth--;
+    }
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  undo(): void {
+    const command = this.undoStack.pop();
+    if (!command) return;
+
+    this.batch(() => this.suspend(() => command.undo()));
+    this.redoStack.push(command);
+    this.notifyChange();
+  }
+
+  redo(): void {
+    const command = this.redoStack.pop();
+    if (!command) return;
+
+    this.batch(() => this.suspend(() => command.execute()));
+    this.undoStack.push(command);
+    this.notifyChange();
+  }
+
+  /**
+   * Get all entries, oldest first. Entries with index < getCursor() are applied.
+   */
+  getEntries(): HistoryEntry[] {
+    const applied = this.undoStack.map((command) => command.label);
+    const undone = [...this.redoStack].reverse().map((command) => command.label);
+    return [...applied, ...undone].map((label, index) => ({ index, label }));
+  }
+
+  /**
+   * Number of applied entries
+   */
+  getCursor(): number {
+    return this.undoStack.length;
+  }
+
+  /**
+   * Undo or redo until exactly `cursor` entries are applied
+   */
+  jumpTo(cursor: number): void {
+    this.batch(() => {
+      while (this.undoStack.length > cursor && this.canUndo()) {
+        this.undo();
+      }
+      while (this.undoStack.length < cursor && this.canRedo()) {
+        this.redo();
+      }
+    });
+  }
+
+  clear(): void {
+    this.undoStack.forEach((command) => command.discard?.(false));
+    this.redoStack.forEach((command) => command.discard?.(true));
+    this.undoStack = [];
+    this.redoStack = [];
+    this.openGroups = [];
+    this.notifyChange();
+  }
+
+  // Subscribe to history changes
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private push(command: Command): void {
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (!last || !last.merge || !last.merge(command)) {
+      this.undoStack.push(command);
+      if (this.undoStack.length > this.limit) {
+        this.undoStack.shift()!.discard?.(false);
+      }
+    }
+    this.redoStack.forEach((redoable) => redoable.discard?.(true));
+    this.redoStack = [];
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Branch-structured data, as in Grasshopper: a tree of lists, each addressed
+ * by a path such as {0;1}. Plain values and arrays are trees with a single
+ * branch at {0} (see DataTree.from).
+ */
+
+export type TreePath = number[];
+
+// How node inputs are read: one item at a time, one branch (list) at a time, or the whole tree
+export type AccessMode = 'item' | 'list' | 'tree';
+
+// How the items of several inputs are paired up
+export type MatchingStrategy = 'longest' | 'shortest' | 'cross';
+
+export const MATCHING_OPTIONS: Record<string, MatchingStrategy> = {
+  'Longest List': 'longest',
+  'Shortest List': 'shortest',
+  'Cross Reference': 'cross',
+};
+
+export interface TreeBranch<T> {
+  path: TreePath;
+  items: T[];
+}
+
+export class DataTree<T = unknown> {
+  private branchList: TreeBranch<T>[] = [];
+  // Branches by formatted path, built on the first lookup (most trees only ever have {0})
+  private branchIndex: Map<string, TreeBranch<T>> | null = null;
+
+  /**
+   * Wrap a port value: trees are returned as is, arrays become the branch {0}
+   * and other values a single item in it. undefined gives an empty tree.
+   */
+  static from<T = unknown>(value: unknown): DataTree<T> {
+    if (value instanceof DataTree) return value as DataTree<T>;
+
+    const tree = new DataTree<T>();
+    if (Array.isArray(value)) {
+      tree.append([0], ...(value as T[]));
+    } else if (value !== undefined) {
+      tree.append([0], value as T);
+    }
+    return tree;
+  }
+
+  static formatPath(path: TreePath): string {
+    return `{${path.join(';')}}`;
+  }
+
+  get branches(): readonly TreeBranch<T>[] {
+    return this.branchList;
+  }
+
+  get paths(): TreePath[] {
+    return this.branches.map((branch) => branch.path);
+  }
+
+  get branchCount(): number {
+    return this.branchList.length;
+  }
+
+  get itemCount(): number {
+    return this.branches.reduce((count, branch) => count + branch.items.length, 0);
+  }
+
+  getBranch(path: TreePath): T[] | undefined {
+    return this.findBranch(path)?.items;
+  }
+
+  /**
+   * Add items to the branch at path, creating it if needed
+   */
+  append(path: TreePath, ...items: T[]): void {
+    let branch = this.findBranch(path);
+    if (!branch) {
+      branch = { path: [...path], items: [] };
+      this.branchList.push(branch);
+      this.branchIndex?.set(DataTree.formatPath(path), branch);
+    }
+    branch.items.push(...items);
+  }
+
+  private findBranch(path: TreePath): TreeBranch<T> | undefined {
+    if (this.branchList.length === 0) return undefined;
+    if (!this.branchIndex) {
+      this.branchIndex = new Map(
+        this.branchList.map((branch) => [DataTree.formatPath(branch.path), branch])
+      );
+    }
+    return this.branchIndex.get(DataTree.formatPath(path));
+  }
+
+  allItems(): T[] {
+    return this.branches.flatMap((branch) => branch.items);
+  }
+
+  /**
+   * A tree with the same paths, each branch's items replaced by callback's result
+   */
+  mapBranches<U>(callback: (items: T[], path: TreePath) => U[]): DataTree<U> {
+    const mapped = new DataTree<U>();
+    for (const branch of this.branches) {
+      mapped.append(branch.path, ...callback(branch.items, branch.path));
+    }
+    return mapped;
+  }
+
+  /**
+   * Combine with another tree; items of branches with the same path are concatenated
+   */
+  merge(other: DataTree<T>): DataTree<T> {
+    const merged = new DataTree<T>();
+    for (const branch of [...this.branches, ...other.branches]) {
+      merged.append(branch.path, ...branch.items);
+    }
+    return merged;
+  }
+
+  /**
+   * Move every item into its own branch, one level deeper: {0}[a, b] becomes {0;0}[a], {0;1}[b]
+   */
+  graft(): DataTree<T> {
+    const grafted = new DataTree<T>();
+    for (const branch of this.branches) {
+      branch.items.forEach((item, index) => grafted.append([...branch.path, index], item));
+    }
+    return grafted;
+  }
+
+  /**
+   * Put all items into a single branch
+   */
+  flatten(path: TreePath = [0]): DataTree<T> {
+    const flattened = new DataTree<T>();
+    flattened.append(path, ...this.allItems());
+    return flattened;
+  }
+
+  /**
+   * Drop the path indices that all branches share: {0;0;1}, {0;0;2} become {1}, {2}
+   */
+  simplify(): DataTree<T> {
+    const simplified = new DataTree<T>();
+    const paths = this.paths;
+    if (paths.length === 0) return simplified;
+
+    const depth = Math.min(...paths.map((path) => path.length));
+    const shared = new Set<number>();
+    for (let i = 0; i < depth; i++) {
+      if (paths.every((path) => path[i] === paths[0][i])) shared.add(i);
+    }
+
+    for (const branch of this.branches) {
+      const path = branch.path.filter((_, i) => !shared.has(i));
+      simplified.append(path.length > 0 ? path : [0], ...branch.items);
+    }
+    return simplified;
+  }
+
+  /**
+   * Unwrap back to a plain value where nothing is lost: a lone {0} branch becomes
+   * its only item or its array of items. Other trees are returned as is.
+   */
+  toValue(): T | T[] | DataTree<T> | undefined {
+    if (this.branchCount === 0) return undefined;
+    const [branch] = this.branchList;
+    if (this.branchCount === 1 && branch.path.length === 1 && branch.path[0] === 0) {
+      return branch.items.length === 1 ? branch.items[0] : [...branch.items];
+    }
+    return this;
+  }
+
+  toString(): string {
+    return this.branches
+      .map((branch) => `${DataTree.formatPath(branch.path)} (${branch.items.length})`)
+      .join('\n');
+  }
+}
+
+/**
+ * Pair up the items of several lists, returning one set of values per iteration
+ * - longest: as many iterations as the longest list, shorter lists cycle (empty ones give undefined)
+ * - shortest: as many iterations as the shortest list
+ * - cross: every combination, the first list varying slowest
+ */
+export function matchItems(
+  lists: Record<string, unknown[]>,
+  strategy: MatchingStrategy
+): Record<string, unknown>[] {
+  const keys = Object.keys(lists);
+
+  if (strategy === 'cross') {
+    let combinations: Record<string, unknown>[] = [{}];
+    for (const key of keys) {
+      combinations = combinations.flatMap((values) =>
+        lists[key].map((item) => ({ ...values, [key]: item }))
+      );
+    }
+    return combinations;
+  }
+
+  // Plain loops; this runs for every evaluation of most math nodes
+  let count = strategy === 'shortest' && keys.length > 0 ? Infinity : 1;
+  for (const key of keys) {
+    const length = lists[key].length;
+    count = strategy === 'shortest' ? Math.min(count, length) : Math.max(count, length);
+  }
+
+  const matched: Record<string, unknown>[] = [];
+  for (let i = 0; i < count; i++) {
+    const values: Record<string, unknown> = {};
+    for (const key of keys) {
+      const list = lists[key];
+      values[key] = list.length === 0 ? undefined : list[i % list.length];
+    }
+    matched.push(values);
+  }
+  return matched;
+}
@@ -1,9 +1,15 @@
 import type { Port } from './Port';
+import { PortValue, isListType } from '@/types';
+import { TypeConversion, applyConversion } from './conversions';
+import { DataTree } from './DataTree';
 
 export class Edge {
   public id: string;
   public source: Port;
   public target: Port;
+  public conversion?: TypeConversion; // Set when the port types differ
+  public incompatible = false; // The source port changed to a type the target can't take
+  private toList: boolean; // Target is a list port
 
   constructor(source: Port, target: Port) {
     if (!source.canConnectTo(target)) {
@@ -14,10 +20,43 @@ export class Edge {
     this.id = `${source.id}_to_${target.id}`;
     this.source = source;
     this.target = target;
+    this.conversion = source.getConversion(target);
+    this.toList = isListType(target.type);
+  }
+
+  /**
+   * Pick the conversion again after a port changed type. The edge is kept when the
+   * ports can't be connected anymore, but passes nothing on until they can.
+   */
+  refreshConversion(): void {
+    this.incompatible = !this.source.canConnectTo(this.target);
+    this.conversion = this.incompatible ? undefined : this.source.getConversion(this.target);
+    this.toList = isListType(this.target.type);
+  }
+
+  // The source value, converted to the target's type
+  get value(): PortValue {
+    if (this.incompatible) return undefined;
+    let value = this.source.value;
+    if (this.conversion) value = applyConversion(this.conversion, value);
+
+    // List ports always receive lists (or trees), single values become one-item lists
+    if (this.toList && isSingleValue(value)) return [value];
+    return value;
   }
 
   // Transfer value from source to target
   propagate(): void {
-    this.target.value = this.source.value;
+    this.target.value = this.value;
   }
 }
+
+function isSingleValue(value: PortValue): boolean {
+  return (
+    value !== undefined &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !ArrayBuffer.isView(value) &&
+    !(value instanceof DataTree)
+  );
+}
@@ -1,45 +1,584 @@
 import { Graph } from './Graph';
 import { Node } from './Node';
-import { EvaluationContext } from './types';
+import type { Port } from './Port';
+import type { Edge } from './Edge';
+import type { Transport } from './Transport';
+import { RandomService } from './random';
+import { MemoCache, memoCache } from './MemoCache';
+import { EvaluationContext, SubgraphRunner, SubgraphNodeResult } from './types';
+
+// What the results of the graph depend on, given the lazy inputs selected (see findDemand)
+interface Demand {
+  needed: Map<Node, boolean | undefined>;
+  selected: Map<Node, Set<string> | undefined>; // For nodes with lazy inputs
+}
+
+// Subgraphs whose last evaluation took at least this long (about a frame) are offloaded
+const OFFLOAD_MIN_MS = 16;
+
+// Results of pure nodes taking at least this long are kept for reuse (see MemoCache)
+const MEMO_MIN_MS = 4;
 
 export class Evaluator {
   private graph: Graph;
 
+  // Topological order, cached until the graph structure changes
+  private sortedNodes: Node[] = [];
+  private sortedVersion = -1;
+  // Nodes left out of the order: null for nodes in a cycle, else the cycle node they depend on
+  private cycleBlockers: Map<Node, string | null> = new Map();
+
+  // Runs heavy subgraphs off the main thread (see setSubgraphRunner)
+  private subgraphRunner: SubgraphRunner | null = null;
+  private transport: Transport | null = null;
+  private memoCache: MemoCache | null = memoCache;
+  private nodeListeners: Set<(node: Node) => void> = new Set();
+  private evaluatedNodes: Node[] = []; // Not yet reported in an 'evaluated' event
+
   constructor(graph: Graph) {
     this.graph = graph;
   }
 
-  // Evaluate the entire graph
-  evaluate(context: EvaluationContext = {}): void {
-    const sorted = this.topologicalSort();
-    if (!sorted) {
-      console.error('Graph contains cycles, cannot evaluate');
-      return;
+  /**
+   * Hand dirty subgraphs of nodes the runner supports to it (e.g. a Web Worker),
+   * once their last evaluation was slow enough to stall the UI
+   */
+  setSubgraphRunner(runner: SubgraphRunner | null): void {
+    this.subgraphRunner = runner;
+  }
+
+  /**
+   * Give nodes the transport's current time, deltaTime and frame in their context
+   * (unless the context passed to evaluate() has them)
+   */
+  setTransport(transport: Transport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Reuse results of slow pure nodes from this cache (the shared one by default),
+   * or null to always evaluate
+   */
+  setMemoCache(cache: MemoCache | null): void {
+    this.memoCache = cache;
+  }
+
+  // Called after each node evaluation completes, including async and offloaded ones
+  onNodeEvaluated(listener: (node: Node) => void): () => void {
+    this.nodeListeners.add(listener);
+    return () => this.nodeListeners.delete(listener);
+  }
+
+  /**
+   * Evaluate all dirty nodes in topological order
+   *
+   * A node whose evaluate() returns a Promise is marked pending, and its dependents
+   * wait until it resolves. The returned Promise resolves once all async work
+   * started here, and the evaluation of the dependents waiting on it, is done.
+   *
+   * Nodes read only through lazy inputs that aren't selected (e.g. the other branch
+   * of an If/Else) aren't evaluated, and stay dirty until a selection needs them.
+   * Nodes whose need can't be told yet, because the selection depends on nodes later
+   * in the order, are left to another pass over the graph.
+   *
+   * Nodes that are dirty only because nodes upstream were are skipped when the outputs
+   * feeding them came out unchanged, so edits stop spreading where their effect ends.
+   * Frozen nodes keep their outputs and bypassed ones pass their inputs through. Slow
+   * pure nodes whose inputs match an earlier evaluation take its results from the
+   * memo cache instead of evaluating.
+   *
+   * The nodes that got new outputs are reported in an 'evaluated' graph event at the
+   * end of the pass, and again as async results land. Events of edits made while
+   * evaluating (e.g. edges dropped by an output changing type) follow the pass.
+   */
+  evaluate(context: Partial<EvaluationContext> = {}): Promise<void> {
+    return this.graph.transaction(() => this.evaluatePass(context));
+  }
+
+  private evaluatePass(context: Partial<EvaluationContext>): Promise<void> {
+    const sorted = this.getSortedNodes();
+
+    // Keyframed properties and inputs take their values at the current time
+    const time = context.time ?? this.transport?.time;
+    if (time !== undefined) {
+      for (const node of sorted) {
+        if (node.keyframes.size > 0) node.applyKeyframes(time);
+      }
     }
 
-    // Add graph reference to context
-    const contextWithGraph = { ...context, graph: this.graph };
+    // Nodes in cycles are left out of the order; the rest of the graph still evaluates
+    for (const [node, blocker] of this.cycleBlockers) {
+      node.markDirty();
+      node.clearDiagnostics();
+      if (blocker) {
+        node.setBlockedBy(blocker);
+      } else {
+        node.reportError('Connected in a cycle; use a Solver to feed outputs back to inputs');
+      }
+    }
+
+    const pending: Promise<void>[] = [];
+    const waiting = new Set<Node>(); // Nodes downstream of in-flight async nodes
+    const kept = new Set<Node>(); // Nodes of subgraphs too cheap to offload
+    const handled = new Set<Node>(); // Nodes already dealt with by an earlier pass
+
+    let deferred: Set<Node>; // Nodes whose need isn't known in this pass
+    let progressed: boolean;
+    do {
+      deferred = new Set();
+      progressed = false;
+      const demand = this.findDemand(sorted);
+
+      // Evaluate nodes in topological order
+      for (const [index, node] of sorted.entries()) {
+        if (!node.isDirty || handled.has(node)) continue;
+
+        if (node.isFrozen) {
+          handled.add(node);
+          node.restoreFrozenOutputs();
+          node.markClean();
+          this.evaluatedNodes.push(node);
+          continue;
+        }
+
+        const needed = demand ? demand.needed.get(node) : true;
+        if (needed === false) continue;
+
+        const inputs = this.getActiveInputs(node, demand);
+        if (needed === undefined || !inputs || this.hasUpstreamIn(inputs, deferred)) {
+          deferred.add(node);
+          continue;
+        }
+        handled.add(node);
+
+        // Already running, or depends on a node that is
+        if (node.isPending || this.hasUpstreamIn(inputs, waiting)) {
+          waiting.add(node);
+          continue;
+        }
+
+        const blocker = this.findUpstreamError(inputs);
+
+        // Dirty only because nodes upstream were, and the outputs it is fed came out the same
+        if (!blocker && !node.blockedBy && !node.hasOwnChanges && !node.hasInputChanges()) {
+          node.markClean();
+          continue;
+        }
+
+        // Don't evaluate on top of an upstream error; stays dirty until it clears
+        node.clearDiagnostics();
+        if (blocker) {
+          node.setBlockedBy(blocker);
+          continue;
+        }
+
+        // An output changed to a type this node can't take; stays dirty until it's fixed
+        const mismatch = this.findIncompatibleEdge(inputs);
+        if (mismatch) {
+          const { source, target } = mismatch;
+          node.reportError(
+            `Input "${target.name}" can't take the ${source.type} from ${source.node.label}`
+          );
+          continue;
+        }
 
-    // Evaluate nodes in topological order
-    for (const node of sorted) {
-      if (node.isDirty) {
         // Propagate input values from connected edges
-        this.propagateInputs(node);
+        this.propagateInputs(inputs);
+        progressed = true;
+
+        if (node.bypassed) {
+          node.passThroughInputs();
+          node.markClean();
+          this.notifyNodeEvaluated(node);
+          continue;
+        }
+
+        const controller = new AbortController();
+        const nodeContext: EvaluationContext = {
+          ...this.transport?.getTime(),
+          random: new RandomService(this.graph.seed),
+          ...context,
+          graph: this.graph,
+          signal: controller.signal,
+        };
+        const start = performance.now();
+
+        // Same inputs as an earlier slow evaluation
+        const memoKey = this.getMemoKey(node, nodeContext);
+        if (memoKey && this.restoreMemo(node, memoKey)) {
+          this.graph.profiler.record(node, performance.now() - start);
+          node.markClean();
+          this.notifyNodeEvaluated(node);
+          continue;
+        }
+
+        // Heavy subgraphs starting here are evaluated by the subgraph runner
+        const offloaded = kept.has(node)
+          ? null
+          : this.offload(node, sorted, index, kept, demand, context);
+        if (offloaded) {
+          offloaded.members.forEach((member) => {
+            waiting.add(member);
+            handled.add(member);
+          });
+          pending.push(offloaded.done);
+          continue;
+        }
 
         // Evaluate the node
         try {
-          node.evaluate(contextWithGraph);
-          node.markClean();
+          const result = node.evaluate(nodeContext);
+          if (result instanceof Promise) {
+            node.beginPending(controller);
+            waiting.add(node);
+            pending.push(this.settle(node, controller, result, context, start));
+          } else {
+            const duration = performance.now() - start;
+            this.graph.profiler.record(node, duration);
+            this.storeMemo(node, memoKey, nodeContext, duration);
+            node.markClean();
+            this.notifyNodeEvaluated(node);
+          }
         } catch (error) {
+          this.graph.profiler.record(node, performance.now() - start);
           console.error(`Error evaluating node ${node.id}:`, error);
+          node.reportError(error);
+          this.notifyNodeEvaluated(node);
+        }
+      }
+    } while (deferred.size > 0 && progressed);
+
+    this.emitEvaluated();
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  /**
+   * Hash of what the node reads, for nodes that can reuse results and did so before
+   * or were slow last time (hashing cheap nodes would cost more than it saves)
+   */
+  private getMemoKey(node: Node, context: EvaluationContext): string | null {
+    if (!this.memoCache || !this.canMemoize(node)) return null;
+    const lastMs = this.graph.profiler.get(node.id)?.lastMs ?? 0;
+    if (lastMs < MEMO_MIN_MS && !this.memoCache.has(node)) return null;
+    return this.memoCache.key(node, context);
+  }
+
+  // Lazy inputs may not have their values yet, so nodes with them are always evaluated
+  private canMemoize(node: Node): boolean {
+    return node.memoize && !Array.from(node.inputs.values()).some((port) => port.lazy);
+  }
+
+  private restoreMemo(node: Node, key: string): boolean {
+    const result = this.memoCache?.get(node, key);
+    if (!result) return false;
+
+    for (const [name, value] of result.outputs) {
+      const port = node.outputs.get(name);
+      if (port) {
+        port.value = value;
+        node.cacheOutput(name, value);
+      }
+    }
+    node.reportDiagnostics(result.diagnostics);
+    return true;
+  }
+
+  // Keep the results of a slow evaluation; errors aren't kept, they may be passing
+  private storeMemo(
+    node: Node,
+    key: string | null,
+    context: EvaluationContext,
+    durationMs: number
+  ): void {
+    if (!this.memoCache || !this.canMemoize(node) || node.hasError) return;
+    if (durationMs < MEMO_MIN_MS && !key) return;
+
+    const outputs = new Map(Array.from(node.outputs, ([name, port]) => [name, port.value]));
+    this.memoCache.set(node, key ?? this.memoCache.key(node, context), outputs, [
+      ...node.diagnostics,
+    ]);
+  }
+
+  // Whether any node feeding these inputs is in the set
+  private hasUpstreamIn(inputs: Port[], nodes: Set<Node>): boolean {
+    for (const inputPort of inputs) {
+      for (const edge of inputPort.connections) {
+        if (nodes.has(edge.source.node)) return true;
+      }
+    }
+    return false;
+  }
+
+  // Id of the errored node these inputs depend on (directly or through blocked nodes), if any
+  private findIncompatibleEdge(inputs: Port[]): Edge | undefined {
+    for (const inputPort of inputs) {
+      const edge = inputPort.connections.find((connection) => connection.incompatible);
+      if (edge) return edge;
+    }
+    return undefined;
+  }
+
+  private findUpstreamError(inputs: Port[]): string | null {
+    for (const inputPort of inputs) {
+      for (const edge of inputPort.connections) {
+        const source = edge.source.node;
+        if (source.hasError) return source.id;
+        if (source.blockedBy) return source.blockedBy;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Which nodes the results depend on, when the graph has lazy inputs (null otherwise).
+   * Results are the nodes nothing is connected downstream of; a node is needed if one
+   * of them reads it through inputs that are eager or selected. Undefined where that
+   * depends on a selection that can't be made yet.
+   */
+  private findDemand(sorted: Node[]): Demand | null {
+    const hasLazyInputs = sorted.some((node) =>
+      Array.from(node.inputs.values()).some((port) => port.lazy)
+    );
+    if (!hasLazyInputs) return null;
+
+    const demand: Demand = { needed: new Map(), selected: new Map() };
+
+    // Backwards, so the nodes reading a node come first
+    for (let i = sorted.length - 1; i >= 0; i--) {
+      const node = sorted[i];
+      if (Array.from(node.inputs.values()).some((port) => port.lazy)) {
+        demand.selected.set(node, this.selectInputs(node));
+      }
+
+      let needed: boolean | undefined = true;
+      let read = false;
+      for (const outputPort of node.outputs.values()) {
+        for (const edge of outputPort.connections) {
+          const target: Port = edge.target;
+          const targetNeeded = demand.needed.get(target.node);
+          const selected = target.lazy ? demand.selected.get(target.node)?.has(target.name) : true;
+
+          let reads: boolean | undefined = undefined;
+          if (targetNeeded === false || selected === false) reads = false;
+          else if (targetNeeded && selected) reads = true;
+
+          if (!read) {
+            read = true;
+            needed = false;
+          }
+          if (reads) needed = true;
+          else if (reads === undefined && needed === false) needed = undefined;
         }
       }
+      demand.needed.set(node, needed);
     }
+
+    return demand;
+  }
+
+  // Lazy inputs selected by the node, or undefined while the inputs it selects by are dirty
+  private selectInputs(node: Node): Set<string> | undefined {
+    const eager = Array.from(node.inputs.values()).filter((port) => !port.lazy);
+    for (const inputPort of eager) {
+      for (const edge of inputPort.connections) {
+        const source = edge.source.node;
+        // Blocked anyway, so nothing is needed for it
+        if (source.hasError || source.blockedBy) return new Set();
+        if (source.isDirty || source.isPending) return undefined;
+      }
+    }
+
+    this.propagateInputs(eager);
+    return new Set(node.selectInputs());
   }
 
-  // Propagate values from source nodes through edges to target node
-  private propagateInputs(node: Node): void {
-    for (const inputPort of node.inputs.values()) {
+  // The inputs the node reads: all but unselected lazy ones. Undefined while not selected yet.
+  private getActiveInputs(node: Node, demand: Demand | null): Port[] | undefined {
+    const inputs = Array.from(node.inputs.values());
+    if (!demand || !inputs.some((port) => port.lazy)) return inputs;
+
+    const selected = demand.selected.get(node);
+    return selected && inputs.filter((port) => !port.lazy || selected.has(port.name));
+  }
+
+  // Finish an async evaluation and continue with the dependents waiting on it
+  private async settle(
+    node: Node,
+    controller: AbortController,
+    result: Promise<void>,
+    context: Partial<EvaluationContext>,
+    start: number
+  ): Promise<void> {
+    try {
+      await result;
+      // Cancelled work is discarded; a newer evaluation of the node takes over
+      if (!node.endPending(controller)) return;
+    } catch (error) {
+      if (!node.endPending(controller)) return;
+      // Not retried until the node is invalidated again; the waiting dependents get blocked
+      console.error(`Error evaluating node ${node.id}:`, error);
+      node.reportError(error);
+    }
+    this.graph.profiler.record(node, performance.now() - start);
+    node.markClean();
+    this.notifyNodeEvaluated(node);
+
+    // Also reports the nodes evaluated above to the views
+    await this.evaluate(context);
+  }
+
+  /**
+   * Start the subgraph runner on the dirty subgraph rooted at this node, if it's
+   * supported and was slow last time. Its nodes stay pending until the results are in.
+   */
+  private offload(
+    root: Node,
+    sorted: Node[],
+    index: number,
+    kept: Set<Node>,
+    demand: Demand | null,
+    context: Partial<EvaluationContext>
+  ): { members: Node[]; done: Promise<void> } | null {
+    const runner = this.subgraphRunner;
+    if (!runner || !runner.canRun(root)) return null;
+
+    const members = this.collectSubgraph(root, sorted, index, runner, demand);
+    const lastMs = members.reduce(
+      (sum, member) => sum + (this.graph.profiler.get(member.id)?.lastMs ?? 0),
+      0
+    );
+    if (lastMs < OFFLOAD_MIN_MS) {
+      // Not worth a round trip; don't collect the same subgraph again from its other nodes
+      members.forEach((member) => kept.add(member));
+      return null;
+    }
+
+    const controller = new AbortController();
+    const run = runner.run(members, controller.signal, (completed) => {
+      members.forEach((member) => member.setProgress(completed / members.length));
+    });
+    if (!run) {
+      members.forEach((member) => kept.add(member));
+      return null;
+    }
+
+    for (const member of members) {
+      member.clearDiagnostics();
+      member.beginPending(controller);
+    }
+    return { members, done: this.settleSubgraph(members, controller, run, context) };
+  }
+
+  // The root plus the dirty nodes after it that are fed by the subgraph and otherwise only
+  // by up-to-date nodes, so the whole subgraph can be evaluated in one go. Nodes that
+  // aren't needed (see findDemand) are left out.
+  private collectSubgraph(
+    root: Node,
+    sorted: Node[],
+    index: number,
+    runner: SubgraphRunner,
+    demand: Demand | null
+  ): Node[] {
+    const members = new Set<Node>([root]);
+
+    for (let i = index + 1; i < sorted.length; i++) {
+      const node = sorted[i];
+      if (!node.isDirty || node.isPending || !runner.canRun(node)) continue;
+      // Frozen and bypassed nodes aren't evaluated, so they are left to this evaluator
+      if (node.isFrozen || node.bypassed) continue;
+      if (demand && demand.needed.get(node) !== true) continue;
+
+      let fed = false;
+      let ready = true;
+      for (const inputPort of node.inputs.values()) {
+        for (const edge of inputPort.connections) {
+          const source = edge.source.node;
+          if (members.has(source)) {
+            fed = true;
+          } else if (source.isDirty || source.isPending || source.hasError || source.blockedBy) {
+            ready = false;
+          }
+        }
+      }
+      if (fed && ready) members.add(node);
+    }
+
+    return Array.from(members);
+  }
+
+  // Apply the results of an offloaded subgraph and continue with its dependents
+  private async settleSubgraph(
+    members: Node[],
+    controller: AbortController,
+    run: Promise<Map<string, SubgraphNodeResult>>,
+    context: Partial<EvaluationContext>
+  ): Promise<void> {
+    let results: Map<string, SubgraphNodeResult> | null = null;
+    let failure: unknown = null;
+    try {
+      results = await run;
+    } catch (error) {
+      failure = error;
+    }
+
+    // Members invalidated in the meantime cancelled the run for all of them;
+    // the others are still dirty and get evaluated again
+    const released = members.filter((member) => member.endPending(controller));
+    if (controller.signal.aborted) {
+      if (released.length > 0) await this.evaluate(context);
+      return;
+    }
+
+    for (const member of members) {
+      const result = results?.get(member.id);
+      if (!result) {
+        // Not retried until the subgraph is invalidated again, as for async nodes
+        console.error(`Error evaluating node ${member.id}:`, failure);
+        member.reportError(failure ?? new Error('No result from subgraph runner'));
+        member.markClean();
+        continue;
+      }
+
+      this.propagateInputs(Array.from(member.inputs.values()));
+      if (result.blockedBy) {
+        member.setBlockedBy(result.blockedBy);
+        continue;
+      }
+
+      for (const [name, value] of Object.entries(result.outputs)) {
+        const port = member.outputs.get(name);
+        if (port) {
+          port.value = value;
+          member.cacheOutput(name, value);
+        }
+      }
+      member.reportDiagnostics(result.diagnostics);
+      this.graph.profiler.record(member, result.durationMs);
+      // Errored members are marked clean too, so they don't get offloaded over and over
+      member.markClean();
+      this.notifyNodeEvaluated(member);
+    }
+
+    // Also reports the nodes evaluated above to the views
+    await this.evaluate(context);
+  }
+
+  private notifyNodeEvaluated(node: Node): void {
+    this.evaluatedNodes.push(node);
+    this.nodeListeners.forEach((listener) => listener(node));
+  }
+
+  // Let views pick up the new outputs
+  private emitEvaluated(): void {
+    if (this.evaluatedNodes.length === 0) return;
+    const nodes = this.evaluatedNodes;
+    this.evaluatedNodes = [];
+    this.graph.emit({ type: 'evaluated', nodes });
+  }
+
+  // Propagate values from source nodes through edges to the inputs
+  private propagateInputs(inputs: Port[]): void {
+    for (const inputPort of inputs) {
       // Handle multiple connections (array inputs)
       if (inputPort.connections.length > 1) {
         // Propagate all edges to populate getAllValues()
@@ -56,8 +595,17 @@ export class Evaluator {
     }
   }
 
-  // Topological sort using Kahn's algorithm
-  private topologicalSort(): Node[] | null {
+  private getSortedNodes(): Node[] {
+    if (this.sortedVersion !== this.graph.structureVersion) {
+      this.sortedNodes = this.topologicalSort();
+      this.sortedVersion = this.graph.structureVersion;
+    }
+    return this.sortedNodes;
+  }
+
+  // Topological sort using Kahn's algorithm. Nodes in or downstream of cycles are left out
+  // (see findCycleBlockers).
+  private topologicalSort(): Node[] {
     const nodes = Array.from(this.graph.nodes.values());
     const inDegree = new Map<string, number>();
     const adjList = new Map<string, string[]>();
@@ -87,8 +635,9 @@ export class Evaluator {
 
     const sorted: Node[] = [];
 
-    while (queue.length > 0) {
-      const node = queue.shift()!;
+    // Walk the queue by index; shift() is O(n) and adds up on large graphs
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
       sorted.push(node);
 
       // Reduce in-degree for neighbors
@@ -106,36 +655,68 @@ export class Evaluator {
       }
     }
 
-    // Check if all nodes were sorted (no cycles)
-    if (sorted.length !== nodes.length) {
-      return null; // Cycle detected
+    // Nodes not sorted are in cycles, or depend on one
+    const remaining = nodes.filter((node) => inDegree.get(node.id)! > 0);
+    this.cycleBlockers = this.findCycleBlockers(remaining);
+    if (remaining.length > 0) {
+      console.warn(`Graph contains cycles; skipping ${remaining.length} node(s)`);
     }
 
     return sorted;
   }
 
-  // Mark a node and all downstream nodes as dirty
-  markDownstreamDirty(nodeId: string): void {
-    const visited = new Set<string>();
-    const queue: string[] = [nodeId];
-
-    while (queue.length > 0) {
-      const currentId = queue.shift()!;
-      if (visited.has(currentId)) continue;
-      visited.add(currentId);
-
-      const node = this.graph.getNode(currentId);
-      if (node) {
-        node.markDirty();
-
-        // Find all nodes connected to this node's outputs
-        for (const outputPort of node.outputs.values()) {
-          const edges = this.graph.getEdgesFromPort(outputPort);
-          for (const edge of edges) {
-            queue.push(edge.target.node.id);
-          }
+  // Tell the nodes in cycles from those only downstream of one, which get blocked by it
+  private findCycleBlockers(remaining: Node[]): Map<Node, string | null> {
+    const blockers = new Map<Node, string | null>();
+    if (remaining.length === 0) return blockers;
+
+    const left = new Set(remaining);
+    const targets = (node: Node) =>
+      Array.from(node.outputs.values()).flatMap((port) =>
+        port.connections.map((edge) => edge.target.node as Node)
+      );
+
+    // Peel off the nodes feeding no other left-over node, until only cycles are left
+    const outDegree = new Map<Node, number>();
+    const queue: Node[] = [];
+    for (const node of remaining) {
+      const degree = targets(node).filter((target) => left.has(target)).length;
+      outDegree.set(node, degree);
+      if (degree === 0) queue.push(node);
+    }
+    const downstream = new Set<Node>();
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      downstream.add(node);
+      for (const port of node.inputs.values()) {
+        for (const edge of port.connections) {
+          const source: Node = edge.source.node;
+          if (!left.has(source) || downstream.has(source)) continue;
+          const degree = outDegree.get(source)! - 1;
+          outDegree.set(source, degree);
+          if (degree === 0) queue.push(source);
+        }
+      }
+    }
+
+    // Walk from the cycles to the nodes downstream of them
+    const walk = remaining.filter((node) => !downstream.has(node));
+    walk.forEach((node) => blockers.set(node, null));
+    for (let head = 0; head < walk.length; head++) {
+      const node = walk[head];
+      for (const target of targets(node)) {
+        if (left.has(target) && !blockers.has(target)) {
+          blockers.set(target, blockers.get(node) ?? node.id);
+          walk.push(target);
         }
       }
     }
+
+    return blockers;
+  }
+
+  // Mark a node and all downstream nodes as dirty (see Node.markDownstreamDirty)
+  markDownstreamDirty(nodeId: string): void {
+    this.graph.getNode(nodeId)?.markDownstreamDirty();
   }
 }
@@ -1,10 +1,61 @@
 import { Node } from './Node';
 import { Edge } from './Edge';
 import { Port } from './Port';
+import { CommandHistory } from './CommandHistory';
+import { Profiler } from './Profiler';
+import { memoCache } from './MemoCache';
+import {
+  AddNodeCommand,
+  RemoveNodeCommand,
+  ConnectCommand,
+  DisconnectCommand,
+  AddParameterCommand,
+  RemoveParameterCommand,
+  SetParameterCommand,
+  SetSeedCommand,
+} from './commands';
+import { GraphParameter, ParameterValue } from './parameters';
 import * as THREE from 'three';
-import CameraControls from 'camera-controls';
 
-CameraControls.install({ THREE });
+/**
+ * What changed in a graph. Views subscribe to the kinds they need (see Graph.on),
+ * so e.g. moving nodes around doesn't rebuild the scene.
+ */
+export type GraphEvent =
+  | { type: 'nodeAdded'; node: Node }
+  | { type: 'nodeRemoved'; node: Node }
+  | { type: 'edgeAdded'; edge: Edge }
+  | { type: 'edgeRemoved'; edge: Edge }
+  // Name is left out for edits made through a node's own controls
+  | { type: 'propertyChanged'; node: Node; name?: string }
+  // Nodes moved or resized in the editor; doesn't affect evaluation
+  | { type: 'positionChanged'; nodes: Node[] }
+  | { type: 'parameterChanged'; name: string }
+  | { type: 'seedChanged'; seed: number }
+  // Nodes with new outputs, after an evaluation pass or async results landing
+  | { type: 'evaluated'; nodes: Node[] }
+  // Anything else, from triggerChange()
+  | { type: 'changed' };
+
+export type GraphEventType = GraphEvent['type'];
+export type GraphEventOf<K extends GraphEventType> = Extract<GraphEvent, { type: K }>;
+
+// Events that can change what the graph computes, and so call for an evaluation
+export const GRAPH_EDIT_EVENTS: GraphEventType[] = [
+  'nodeAdded',
+  'nodeRemoved',
+  'edgeAdded',
+  'edgeRemoved',
+  'propertyChanged',
+  'parameterChanged',
+  'seedChanged',
+  'changed',
+];
+
+interface GraphEventListener {
+  types: ReadonlySet<GraphEventType>;
+  listener: (events: GraphEvent[]) => void;
+}
 
 export class Graph {
   public nodes: Map<string, Node> = new Map();
@@ -12,7 +63,18 @@ export class Graph {
   public scene: THREE.Scene; // Always available for preview/rendering
   public camera: THREE.PerspectiveCamera; // Always available for preview/rendering
   public defaultBackground: THREE.Color = new THREE.Color(0x1a1a1a);
-  private _listeners: Set<(graph: Graph) => void> = new Set();
+  public history: CommandHistory = new CommandHistory(); // Undo/redo for all graph edits
+  public profiler: Profiler = new Profiler(); // Per-node evaluation timings
+  private _listeners: Set<GraphEventListener> = new Set();
+  private _transactionDepth = 0;
+  private _queuedEvents: GraphEvent[] = []; // Held back until the outermost transaction ends
+  private _parameters: Map<string, GraphParameter> = new Map(); // In the order they were added
+  private _seed = 0;
+
+  // Edge lookups by port and by node, kept in sync with `edges`
+  private _edgesByPort: Map<Port, Edge[]> = new Map();
+  private _edgesByNode: Map<string, Edge[]> = new Map();
+  private _structureVersion = 0;
 
   constructor() {
     // Create a default scene that's always available
@@ -21,14 +83,27 @@ export class Graph {
     this.camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
     this.camera.position.set(10, 10, 10);
     this.camera.lookAt(0, 0, 0);
+
+    // Undoing, redoing and grouped edits deliver their events together
+    this.history.setBatcher((fn) => this.transaction(fn));
+  }
+
+  /**
+   * Incremented whenever nodes or edges are added or removed, so data derived
+   * from the structure (e.g. the evaluation order) can be cached
+   */
+  get structureVersion(): number {
+    return this._structureVersion;
   }
 
   // Add a node to the graph
   addNode(node: Node): void {
     this.nodes.set(node.id, node);
+    this._structureVersion++;
     node.graph = this; // Set graph reference on node
     node.init();
-    this.notifyChange();
+    this.history.record(new AddNodeCommand(this, node));
+    this.emit({ type: 'nodeAdded', node });
   }
 
   // Remove a node and all connected edges
@@ -36,31 +111,45 @@ export class Graph {
     const node = this.nodes.get(nodeId);
     if (!node) return;
 
-    // Remove all edges connected to this node
-    const edgesToRemove: string[] = [];
-    for (const [edgeId, edge] of this.edges) {
-      if (edge.source.node.id === nodeId || edge.target.node.id === nodeId) {
-        edgesToRemove.push(edgeId);
-      }
-    }
-    edgesToRemove.forEach((id) => this.removeEdge(id));
+    this.transaction(() => {
+      // Remove all edges connected to this node
+      const edgesToRemove = this.getNodeEdges(nodeId);
+      // Edges are restored by the RemoveNodeCommand, so don't record them separately
+      this.history.suspend(() => edgesToRemove.forEach((edge) => this.removeEdge(edge.id)));
+      this.history.record(
+        new RemoveNodeCommand(
+          this,
+          node,
+          edgesToRemove.map((edge) => ({ source: edge.source, target: edge.target }))
+        )
+      );
 
-    // Clear graph reference
-    node.graph = undefined;
+      // Clear graph reference
+      node.graph = undefined;
 
-    // Dispose and remove node
-    node.dispose();
-    this.nodes.delete(nodeId);
-    this.notifyChange();
+      // Remove the node, dropping any in-flight async work and cached results. It's kept
+      // undisposed while the removal can be undone (see RemoveNodeCommand.discard).
+      node.cancelPending();
+      memoCache.forget(node);
+      this.nodes.delete(nodeId);
+      this._edgesByNode.delete(nodeId);
+      this._structureVersion++;
+      this.emit({ type: 'nodeRemoved', node });
+    });
   }
 
   // Connect two ports
   connect(sourcePort: Port, targetPort: Port, keepExisting: boolean = false): Edge | null {
+    // Replacing an existing connection is a single undo step
+    return this.history.group('Connect', () =>
+      this.connectPorts(sourcePort, targetPort, keepExisting)
+    );
+  }
+
+  private connectPorts(sourcePort: Port, targetPort: Port, keepExisting: boolean): Edge | null {
     // Check if connection already exists
-    for (const edge of this.edges.values()) {
-      if (edge.source === sourcePort && edge.target === targetPort) {
-        return null; // Connection already exists
-      }
+    if (this.getEdgesFromPort(sourcePort).some((edge) => edge.target === targetPort)) {
+      return null;
     }
 
     // Remove any existing connection to the target port (inputs can only have one connection)
@@ -75,6 +164,7 @@ export class Graph {
     try {
       const edge = new Edge(sourcePort, targetPort);
       this.edges.set(edge.id, edge);
+      this.indexEdge(edge);
 
       // Track connections on ports
       sourcePort.connections.push(edge);
@@ -90,7 +180,8 @@ export class Graph {
       )
         (targetPort.node as any).refreshControls();
 
-      this.notifyChange();
+      this.history.record(new ConnectCommand(this, sourcePort, targetPort));
+      this.emit({ type: 'edgeAdded', edge });
 
       return edge;
     } catch (error) {
@@ -112,6 +203,10 @@ export class Graph {
       if (targetIndex > -1) {
         edge.target.connections.splice(targetIndex, 1);
       }
+      // Inputs left unconnected go back to their default, not the last value received
+      if (edge.target.connections.length === 0) {
+        edge.target.reset();
+      }
 
       edge.target.node.markDirty();
 
@@ -124,29 +219,138 @@ export class Graph {
       }
 
       this.edges.delete(edgeId);
-      this.notifyChange();
+      this.unindexEdge(edge);
+      this.history.record(new DisconnectCommand(this, edge.source, edge.target));
+      this.emit({ type: 'edgeRemoved', edge });
     }
   }
 
+  /**
+   * Add an edge whose ports are already connected (e.g. taken over from a loaded graph)
+   */
+  addEdge(edge: Edge): void {
+    this.edges.set(edge.id, edge);
+    this.indexEdge(edge);
+    this.emit({ type: 'edgeAdded', edge });
+  }
+
   // Get edge connected to a port
   getEdgeToPort(port: Port): Edge | undefined {
-    for (const edge of this.edges.values()) {
-      if (edge.target === port) {
-        return edge;
-      }
-    }
-    return undefined;
+    return this._edgesByPort.get(port)?.find((edge) => edge.target === port);
   }
 
   // Get all edges from a port
   getEdgesFromPort(port: Port): Edge[] {
-    const result: Edge[] = [];
-    for (const edge of this.edges.values()) {
-      if (edge.source === port) {
-        result.push(edge);
+    return (this._edgesByPort.get(port) ?? []).filter((edge) => edge.source === port);
+  }
+
+  // Get all edges into or out of a node
+  getNodeEdges(nodeId: string): Edge[] {
+    return [...(this._edgesByNode.get(nodeId) ?? [])];
+  }
+
+  private indexEdge(edge: Edge): void {
+    addToIndex(this._edgesByPort, edge.source, edge);
+    addToIndex(this._edgesByPort, edge.target, edge);
+    addToIndex(this._edgesByNode, edge.source.node.id, edge);
+    addToIndex(this._edgesByNode, edge.target.node.id, edge);
+    this._structureVersion++;
+  }
+
+  private unindexEdge(edge: Edge): void {
+    removeFromIndex(this._edgesByPort, edge.source, edge);
+    removeFromIndex(this._edgesByPort, edge.target, edge);
+    removeFromIndex(this._edgesByNode, edge.source.node.id, edge);
+    removeFromIndex(this._edgesByNode, edge.target.node.id, edge);
+    this._structureVersion++;
+  }
+
+  // Graph parameters, in the order they were added
+  get parameters(): GraphParameter[] {
+    return Array.from(this._parameters.values());
+  }
+
+  getParameter(name: string): GraphParameter | undefined {
+    return this._parameters.get(name);
+  }
+
+  // Add a parameter, or replace the one with the same name
+  addParameter(parameter: GraphParameter): void {
+    const replaced = this._parameters.get(parameter.name);
+    this._parameters.set(parameter.name, parameter);
+    this.history.record(new AddParameterCommand(this, parameter, replaced));
+    this.markParameterReadersDirty(parameter.name);
+    this.emit({ type: 'parameterChanged', name: parameter.name });
+  }
+
+  removeParameter(name: string): void {
+    const parameter = this._parameters.get(name);
+    if (!parameter) return;
+
+    this._parameters.delete(name);
+    this.history.record(new RemoveParameterCommand(this, parameter));
+    this.markParameterReadersDirty(name);
+    this.emit({ type: 'parameterChanged', name });
+  }
+
+  setParameterValue(name: string, value: ParameterValue): void {
+    const parameter = this._parameters.get(name);
+    if (!parameter) return;
+
+    const oldValue = parameter.value;
+    parameter.value = value;
+    this.history.record(new SetParameterCommand(this, name, oldValue, value));
+    this.markParameterReadersDirty(name);
+    this.emit({ type: 'parameterChanged', name });
+  }
+
+  // Frozen nodes keep their outputs, so they are left clean here and below
+  private markParameterReadersDirty(name: string): void {
+    for (const node of this.nodes.values()) {
+      if (node.readsParameter(name) && !node.isFrozen) {
+        node.markDownstreamDirty();
+      }
+    }
+  }
+
+  /**
+   * Master seed of the random nodes: changing it gives a new variation of the whole
+   * design, while the same seed always gives the same one (see RandomService)
+   */
+  get seed(): number {
+    return this._seed;
+  }
+
+  setSeed(seed: number): void {
+    seed = Math.floor(seed) || 0;
+    if (seed === this._seed) return;
+
+    const oldSeed = this._seed;
+    this._seed = seed;
+    this.history.record(new SetSeedCommand(this, oldSeed, seed));
+    this.markSeedReadersDirty();
+    this.emit({ type: 'seedChanged', seed });
+  }
+
+  // Mark the nodes that draw random numbers dirty, after the master seed changed
+  markSeedReadersDirty(): void {
+    for (const node of this.nodes.values()) {
+      if (node.readsSeed() && !node.isFrozen) {
+        node.markDownstreamDirty();
+      }
+    }
+  }
+
+  /**
+   * Mark the nodes that read the transport's time dirty, after it moved on or was
+   * scrubbed. Groups mark the ones inside them when they evaluate.
+   */
+  markTimeReadersDirty(): void {
+    for (const node of this.nodes.values()) {
+      if (node.readsTime() && !node.isFrozen) {
+        node.markDownstreamDirty();
       }
     }
-    return result;
   }
 
   // Get node by ID
@@ -154,27 +358,102 @@ export class Graph {
     return this.nodes.get(id);
   }
 
-  // Subscribe to graph changes
+  /**
+   * Subscribe to events of the given types. Events emitted within a transaction are
+   * delivered together once it ends, others right away.
+   */
+  on<K extends GraphEventType>(
+    types: K[],
+    listener: (events: GraphEventOf<K>[]) => void
+  ): () => void {
+    const entry: GraphEventListener = {
+      types: new Set(types),
+      listener: listener as (events: GraphEvent[]) => void,
+    };
+    this._listeners.add(entry);
+    return () => this._listeners.delete(entry);
+  }
+
+  // Subscribe to edits that can change what the graph computes (see GRAPH_EDIT_EVENTS)
   onChange(listener: (graph: Graph) => void): () => void {
-    this._listeners.add(listener);
-    return () => this._listeners.delete(listener);
+    return this.on(GRAPH_EDIT_EVENTS, () => listener(this));
+  }
+
+  /**
+   * Emit an event, e.g. after changing a node outside of the graph's own methods
+   */
+  emit(event: GraphEvent): void {
+    if (this._transactionDepth > 0) {
+      this._queuedEvents.push(event);
+    } else {
+      this.deliver([event]);
+    }
+  }
+
+  /**
+   * Run a function with the events it emits delivered together at the end, so a
+   * multi-step edit (e.g. paste, or loading a graph) updates the views once
+   */
+  transaction<T>(fn: () => T): T {
+    this._transactionDepth++;
+    try {
+      return fn();
+    } finally {
+      if (--this._transactionDepth === 0) {
+        const events = this._queuedEvents;
+        this._queuedEvents = [];
+        if (events.length > 0) this.deliver(events);
+      }
+    }
   }
 
-  private notifyChange(): void {
-    this._listeners.forEach((listener) => listener(this));
+  private deliver(events: GraphEvent[]): void {
+    for (const { types, listener } of this._listeners) {
+      const matching = events.filter((event) => types.has(event.type));
+      if (matching.length > 0) listener(matching);
+    }
   }
 
   // Public method to manually trigger change notification
   // (useful when node internal state changes without graph structure changes)
   triggerChange(): void {
-    this.notifyChange();
+    this.emit({ type: 'changed' });
   }
 
   // Clear the entire graph
   clear(): void {
-    this.edges.clear();
-    this.nodes.forEach((node) => node.dispose());
-    this.nodes.clear();
-    this.notifyChange();
+    this.transaction(() => {
+      this.edges.forEach((edge) => this.emit({ type: 'edgeRemoved', edge }));
+      this.edges.clear();
+      this._edgesByPort.clear();
+      this._edgesByNode.clear();
+      this._structureVersion++;
+      this.nodes.forEach((node) => {
+        node.cancelPending();
+        node.dispose();
+        memoCache.forget(node);
+        this.emit({ type: 'nodeRemoved', node });
+      });
+      this.nodes.clear();
+      this._parameters.forEach((_, name) => this.emit({ type: 'parameterChanged', name }));
+      this._parameters.clear();
+      if (this._seed !== 0) this.emit({ type: 'seedChanged', seed: 0 });
+      this._seed = 0;
+      this.history.clear();
+    });
   }
 }
+
+function addToIndex<K>(index: Map<K, Edge[]>, key: K, edge: Edge): void {
+  const edges = index.get(key);
+  if (edges) edges.push(edge);
+  else index.set(key, [edge]);
+}
+
+function removeFromIndex<K>(index: Map<K, Edge[]>, key: K, edge: Edge): void {
+  const edges = index.get(key);
+  if (!edges) return;
+  const i = edges.indexOf(edge);
+  if (i > -1) edges.splice(i, 1);
+  if (edges.length === 0) index.delete(key);
+}
@@ -0,0 +1,386 @@
+import * as THREE from 'three';
+import { PortValue } from '@/types';
+import type { Node } from './Node';
+import { DataTree } from './DataTree';
+import type { EvaluationContext, NodeDiagnostic } from './types';
+
+export interface MemoLimits {
+  maxEntries: number;
+  maxBytes: number; // Estimated size of the cached outputs
+}
+
+// Outputs of one evaluation of a node, for the input values the key was hashed from
+interface MemoEntry {
+  node: Node;
+  outputs: Map<string, PortValue>;
+  diagnostics: NodeDiagnostic[];
+  bytes: number;
+}
+
+export interface MemoResult {
+  outputs: Map<string, PortValue>;
+  diagnostics: readonly NodeDiagnostic[];
+}
+
+const DEFAULT_LIMITS: MemoLimits = { maxEntries: 1000, maxBytes: 256 * 1024 * 1024 };
+
+/**
+ * Results of slow, pure nodes (see Node.memoize) by a hash of what they read: their
+ * input values, properties and state. The Evaluator restores a node's outputs from
+ * here instead of evaluating it again when the hash matches an earlier evaluation,
+ * e.g. after an edit upstream was undone, or a slider came back to a value.
+ *
+ * Values are hashed by content (numbers, vectors, arrays, data trees, geometry
+ * attributes), other objects by identity. Least recently used results are dropped
+ * beyond the entry and size limits.
+ */
+export class MemoCache {
+  private entries: Map<string, MemoEntry> = new Map(); // Least recently used first
+  private counts: Map<Node, number> = new Map();
+  private _bytes = 0;
+  private limits: MemoLimits;
+  private _listeners: Set<(cache: MemoCache) => void> = new Set();
+
+  constructor(limits: Partial<MemoLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Estimated size of the cached outputs
+  get bytes(): number {
+    return this._bytes;
+  }
+
+  setLimits(limits: Partial<MemoLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+    this.evict();
+    this.notifyChange();
+  }
+
+  // Whether any results of the node are cached
+  has(node: Node): boolean {
+    return this.counts.has(node);
+  }
+
+  /**
+   * Hash of everything the node's evaluation reads: type, properties, state, input
+   * values, and the time and seed from the context if it reads them
+   */
+  key(node: Node, context: Partial<EvaluationContext>): string {
+    const hasher = new Hasher();
+    hasher.string(`${node.type}@${node.version}`);
+    for (const [name, property] of node.properties) {
+      hasher.string(name);
+      hasher.value(property.value);
+    }
+    hasher.value(node.serializeState());
+    for (const [name, port] of node.inputs) {
+      hasher.string(name);
+      hasher.value(port.hasMultipleConnections() ? port.getAllValues() : port.value);
+    }
+    if (node.readsTime()) {
+      hasher.value([context.time, context.deltaTime, context.frame]);
+    }
+    if (node.readsSeed()) {
+      hasher.value(context.random?.seed);
+    }
+    return hasher.digest();
+  }
+
+  get(node: Node, key: string): MemoResult | undefined {
+    const id = entryId(node, key);
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+
+    // Most recently used goes last
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  set(
+    node: Node,
+    key: string,
+    outputs: Map<string, PortValue>,
+    diagnostics: NodeDiagnostic[]
+  ): void {
+    const id = entryId(node, key);
+    this.remove(id);
+
+    let bytes = 0;
+    for (const value of outputs.values()) bytes += estimateBytes(value);
+    this.entries.set(id, { node, outputs, diagnostics, bytes });
+    this.counts.set(node, (this.counts.get(node) ?? 0) + 1);
+    this._bytes += bytes;
+
+    this.evict();
+    this.notifyChange();
+  }
+
+  // Drop the cached results of a node, e.g. once it's removed from its graph
+  forget(node: Node): void {
+    if (!this.counts.has(node)) return;
+    for (const [id, entry] of this.entries) {
+      if (entry.node === node) this.remove(id);
+    }
+    this.notifyChange();
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.counts.clear();
+    this._bytes = 0;
+    this.notifyChange();
+  }
+
+  // Subscribe to results being added or dropped
+  onChange(listener: (cache: MemoCache) => void): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  private evict(): void {
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= this.limits.maxEntries && this._bytes <= this.limits.maxBytes) {
+        break;
+      }
+      this.remove(id);
+    }
+  }
+
+  private remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    this.entries.delete(id);
+    this._bytes -= entry.bytes;
+    const count = (this.counts.get(entry.node) ?? 1) - 1;
+    if (count > 0) this.counts.set(entry.node, count);
+    else this.counts.delete(entry.node);
+  }
+
+  private notifyChange(): void {
+    this._listeners.forEach((listener) => listener(this));
+  }
+}
+
+// Shared by all evaluators, so the limits hold for the whole app
+export const memoCache = new MemoCache();
+
+// Nodes of different graphs (e.g. inside groups) may share ids, so entries go by identity
+const nodeIds = new WeakMap<Node, number>();
+let nextNodeId = 1;
+
+function entryId(node: Node, key: string): string {
+  let id = nodeIds.get(node);
+  if (id === undefined) {
+    id = nextNodeId++;
+    nodeIds.set(node, id);
+  }
+  return `${id}:${key}`;
+}
+
+// Objects hashed by identity get a number for the lifetime of the object
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+// Attribute data is only hashed again once it changed (see BufferAttribute.version)
+const attributeHashes = new WeakMap<THREE.BufferAttribute, { version: number; hash: string }>();
+
+/**
+ * Two 32-bit hashes of the values fed in (cyrb53-style mixing), so collisions
+ * between different inputs are vanishingly rare
+ */
+class Hasher {
+  private h1 = 0xdeadbeef;
+  private h2 = 0x41c6ce57;
+  private view = new DataView(new ArrayBuffer(8));
+
+  int(n: number): void {
+    this.h1 = Math.imul(this.h1 ^ n, 2654435761);
+    this.h2 = Math.imul(this.h2 ^ n, 1597334677);
+  }
+
+  number(n: number): void {
+    this.view.setFloat64(0, n);
+    this.int(this.view.getInt32(0));
+    this.int(this.view.getInt32(4));
+  }
+
+  string(text: string): void {
+    this.int(text.length);
+    for (let i = 0; i < text.length; i++) this.int(text.charCodeAt(i));
+  }
+
+  bytes(view: ArrayBufferView): void {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    this.int(bytes.length);
+    // Whole words where the data is aligned, bytes for the rest
+    const words = view.byteOffset % 4 === 0 ? Math.floor(bytes.length / 4) : 0;
+    const aligned = new Int32Array(view.buffer, view.byteOffset, words);
+    for (let i = 0; i < words; i++) this.int(aligned[i]);
+    for (let i = words * 4; i < bytes.length; i++) this.int(bytes[i]);
+  }
+
+  value(value: unknown, seen: Set<object> = new Set()): void {
+    if (value === undefined || value === null) {
+      this.string(String(value));
+      return;
+    }
+    switch (typeof value) {
+      case 'number':
+        this.string('n');
+        this.number(value);
+        return;
+      case 'string':
+        this.string('s');
+        this.string(value);
+        return;
+      case 'boolean':
+        this.string(value ? 'true' : 'false');
+        return;
+      case 'object':
+        break;
+      default:
+        this.identity(value as object);
+        return;
+    }
+
+    const object = value as object;
+    // Shared references are hashed once, and cycles end there
+    if (seen.has(object)) {
+      this.identity(object);
+      return;
+    }
+    seen.add(object);
+
+    if (Array.isArray(object)) {
+      this.string('[]');
+      this.int(object.length);
+      object.forEach((item) => this.value(item, seen));
+    } else if (object instanceof DataTree) {
+      this.string('tree');
+      for (const branch of object.branches) {
+        this.value(branch.path, seen);
+        this.value(branch.items, seen);
+      }
+    } else if (ArrayBuffer.isView(object)) {
+      this.string(object.constructor.name);
+      this.bytes(object);
+    } else if (object instanceof THREE.BufferAttribute) {
+      this.string(this.attributeHash(object));
+    } else if (object instanceof THREE.BufferGeometry) {
+      this.geometry(object, seen);
+    } else if (isMathValue(object)) {
+      this.string(object.constructor.name);
+      object.toArray().forEach((n: number) => this.number(n));
+    } else if (isPlainObject(object)) {
+      this.string('{}');
+      for (const key of Object.keys(object).sort()) {
+        this.string(key);
+        this.value((object as Record<string, unknown>)[key], seen);
+      }
+    } else {
+      this.identity(object);
+    }
+  }
+
+  digest(): string {
+    let h1 = this.h1;
+    let h2 = this.h2;
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (h2 >>> 0).toString(36) + (h1 >>> 0).toString(36);
+  }
+
+  private identity(object: object): void {
+    let id = objectIds.get(object);
+    if (id === undefined) {
+      id = nextObjectId++;
+      objectIds.set(object, id);
+    }
+    this.string('#');
+    this.int(id);
+  }
+
+  private geometry(geometry: THREE.BufferGeometry, seen: Set<object>): void {
+    this.string('geometry');
+    if (geometry.index) this.string(this.attributeHash(geometry.index));
+    for (const name of Object.keys(geometry.attributes).sort()) {
+      this.string(name);
+      const attribute = geometry.attributes[name];
+      if (attribute instanceof THREE.BufferAttribute) {
+        this.string(this.attributeHash(attribute));
+      } else {
+        this.identity(attribute);
+      }
+    }
+    this.value(geometry.groups, seen);
+    this.value([geometry.drawRange.start, geometry.drawRange.count], seen);
+    this.value(geometry.morphAttributes, seen);
+    this.value(geometry.userData, seen);
+  }
+
+  private attributeHash(attribute: THREE.BufferAttribute): string {
+    const cached = attributeHashes.get(attribute);
+    if (cached && cached.version === attribute.version) return cached.hash;
+
+    const hasher = new Hasher();
+    hasher.int(attribute.itemSize);
+    hasher.string(attribute.normalized ? 'normalized' : '');
+    hasher.string(attribute.array.constructor.name);
+    hasher.bytes(attribute.array);
+    const hash = hasher.digest();
+    attributeHashes.set(attribute, { version: attribute.version, hash });
+    return hash;
+  }
+}
+
+// Vectors, colors, quaternions, matrices and Euler angles
+function isMathValue(value: object): value is { toArray(): number[] } {
+  return (
+    value instanceof THREE.Vector2 ||
+    value instanceof THREE.Vector3 ||
+    value instanceof THREE.Vector4 ||
+    value instanceof THREE.Color ||
+    value instanceof THREE.Quaternion ||
+    value instanceof THREE.Matrix3 ||
+    value instanceof THREE.Matrix4 ||
+    value instanceof THREE.Euler
+  );
+}
+
+function isPlainObject(value: object): boolean {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Rough size in memory of a value, for the cache's size limit
+ */
+function estimateBytes(value: unknown, seen: Set<object> = new Set()): number {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'string' ? value.length * 2 : 8;
+  }
+  if (seen.has(value)) return 0;
+  seen.add(value);
+
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (Array.isArray(value)) {
+    return value.reduce((sum: number, item) => sum + 8 + estimateBytes(item, seen), 0);
+  }
+  if (value instanceof DataTree) return estimateBytes(value.allItems(), seen);
+  if (value instanceof THREE.BufferAttribute) return value.array.byteLength;
+  if (value instanceof THREE.BufferGeometry) {
+    let bytes = value.index ? value.index.array.byteLength : 0;
+    for (const attribute of Object.values(value.attributes)) {
+      bytes += (attribute as THREE.BufferAttribute).array.byteLength;
+    }
+    return bytes;
+  }
+  if (isMathValue(value)) return 8 * value.toArray().length;
+  return 64;
+}
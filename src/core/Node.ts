@@ -1,7 +1,32 @@
 import { Port } from './Port';
-import { PortSchema, EvaluationContext, PropertyConfig, NodeProperty, NodeLayoutConfig } from './types';
-import { PortValue } from '@/types';
+import {
+  PortSchema,
+  EvaluationContext,
+  PropertyConfig,
+  NodeProperty,
+  NodeLayoutConfig,
+  NodeDiagnostic,
+  DiagnosticSeverity,
+} from './types';
+import { PortDataType, PortValue } from '@/types';
 import type { Graph } from './Graph';
+import type { Edge } from './Edge';
+import {
+  DataTree,
+  TreePath,
+  AccessMode,
+  MatchingStrategy,
+  MATCHING_OPTIONS,
+  matchItems,
+} from './DataTree';
+import {
+  SetPropertyCommand,
+  SetKeyframesCommand,
+  SetFrozenCommand,
+  SetBypassedCommand,
+} from './commands';
+import { KeyframeTarget, KeyframeTrack, keyframeTrackKey, sampleTrack } from './keyframes';
+import { Random, RandomService } from './random';
 
 export abstract class Node<TInputs extends string = string, TOutputs extends string = string> {
   public id: string;
@@ -16,11 +41,33 @@ export abstract class Node<TInputs extends string = string, TOutputs extends str
   public minWidth?: number; // Minimum width based on natural content size
   public minHeight?: number; // Minimum height based on natural content size
   public graph?: Graph; // Reference to parent graph (set by Graph.addNode)
+  public version = 1; // Version of the node type's saved data (set by NodeRegistry.createNode)
+  // Outputs depend only on what the node reads, so results can be reused (see MemoCache)
+  public memoize = false; // Set by NodeRegistry.createNode
+  // Properties and inputs animated over the transport's time (see keyframes.ts)
+  public keyframes: Map<string, KeyframeTrack> = new Map();
 
   // Dirty flag for incremental evaluation
   private _isDirty = true;
+  // Dirty for a change of its own, not only because nodes upstream are (see markUpstreamDirty)
+  private _hasOwnChanges = true;
+  // Versions of the outputs feeding the inputs when the node was last clean, by edge
+  private _inputVersions: Map<string, number> = new Map();
   private _outputCache: Map<string, PortValue> = new Map();
 
+  // Outputs locked by freezing (see setFrozen); null until the node evaluated once frozen
+  private _frozen = false;
+  private _frozenOutputs: Map<string, PortValue> | null = null;
+  private _bypassed = false;
+
+  // In-flight async evaluation (see Evaluator)
+  private _pendingEvaluation: AbortController | null = null;
+  private _progress: number | null = null;
+
+  // Problems reported by the last evaluation (see Evaluator)
+  private _diagnostics: NodeDiagnostic[] = [];
+  private _blockedBy: string | null = null;
+
   constructor(id: string, type: string, label: string) {
     this.id = id;
     this.type = type;
@@ -28,7 +75,15 @@ export abstract class Node<TInputs extends string = string, TOutputs extends str
   }
 
   protected addInput(schema: PortSchema): Port {
-    const port = new Port(schema.name, schema.type, this, true, schema.defaultValue);
+    const port = new Port(
+      schema.name,
+      schema.type,
+      this,
+      true,
+      schema.defaultValue,
+      schema.access,
+      schema.lazy
+    );
     this.inputs.set(schema.name, port);
     return port;
   }
@@ -53,6 +108,23 @@ export abstract class Node<TInputs extends string = string, TOutputs extends str
     this.properties.set(config.name, property);
   }
 
+  /**
+   * Let the user pick how input items are paired up (see processArrays and solveTree)
+   */
+  protected addMatchingProperty(value: MatchingStrategy = 'longest'): void {
+    this.addProperty({
+      name: 'matching',
+      type: 'list',
+      value,
+      label: 'Matching',
+      options: MATCHING_OPTIONS,
+    });
+  }
+
+  protected get matching(): MatchingStrategy {
+    return this.getProperty('matching') ?? 'longest';
+  }
+
   getProperty(name: string): any {
     const property = this.properties.get(name);
     return property ? property.value : undefined;
@@ -61,13 +133,67 @@ export abstract class Node<TInputs extends string = string, TOutputs extends str
   setProperty(name: string, value: any): void {
     const property = this.properties.get(name);
     if (property) {
+      const oldValue = property.value;
       property.value = value;
+      this.onPropertyChange(name, value);
       this.markDirty();
+      if (oldValue !== value) {
+        // Downstream first, the graph is evaluated as soon as the event is delivered
+        this.markDownstreamDirty();
+        this.graph?.history.record(new SetPropertyCommand(this, name, oldValue, value));
+        this.graph?.emit({ type: 'propertyChanged', node: this, name });
+      }
+    }
+  }
+
+  /**
+   * Called when a property is set, before the graph is told about it (e.g. to parse
+   * an expression it holds)
+   */
+  protected onPropertyChange(_name: string, _value: unknown): void {}
+
+  getKeyframeTrack(target: KeyframeTarget, name: string): KeyframeTrack | undefined {
+    return this.keyframes.get(keyframeTrackKey(target, name));
+  }
+
+  /**
+   * Replace the keyframes of a property or input (null or an empty track removes them)
+   */
+  setKeyframeTrack(target: KeyframeTarget, name: string, track: KeyframeTrack | null): void {
+    const key = keyframeTrackKey(target, name);
+    const oldTrack = this.keyframes.get(key) ?? null;
+    const newTrack = track && track.keys.length > 0 ? track : null;
+    if (newTrack) {
+      this.keyframes.set(key, newTrack);
+    } else {
+      this.keyframes.delete(key);
+    }
+    this.markDirty();
+    if (oldTrack !== newTrack) {
+      this.graph?.history.record(new SetKeyframesCommand(this, target, name, oldTrack, newTrack));
+    }
+  }
+
+  /**
+   * Set the keyframed properties and inputs to their values at the time
+   * (called by the Evaluator before evaluating)
+   */
+  applyKeyframes(time: number): void {
+    for (const track of this.keyframes.values()) {
+      const value = sampleTrack(track, time);
+      if (track.target === 'property') {
+        const property = this.properties.get(track.name);
+        if (property) property.value = value;
+      } else {
+        const port = this.inputs.get(track.name);
+        if (port) port.value = value;
+      }
     }
   }
 
-  // Abstract method that subclasses must implement
-  abstract evaluate(context: EvaluationContext): void;
+  // Abstract method that subclasses must implement.
+  // May return a Promise for async work; dependents are evaluated once it resolves.
+  abstract evaluate(context: EvaluationContext): void | Promise<void>;
 
   // Lifecycle hooks
   init(): void {
@@ -78,6 +204,16 @@ export abstract class Node<TInputs extends string = string, TOutputs extends str
     // Override if needed (cleanup GPU resources, etc.)
   }
 
+  // Extra state that isn't captured by properties or inputs (e.g. dynamic ports).
+  // Restored on load before edges are connected.
+  serializeState(): Record<string, unknown> | undefined {
+    return undefined;
+  }
+
+  restoreState(_state: Record<string, unknown>): void {
+    // Override if needed
+  }
+
   // Layout customization - override to provide custom styling/positioning
   getLayoutConfig(): NodeLayoutConfig | undefined {
     // Override in subclasses to customize layout
@@ -89,17 +225,309 @@ export abstract class Node<TInputs extends string = string, TOutputs extends str
     return this._isDirty;
   }
 
+  // Whether the node changed itself since its last evaluation (see markUpstreamDirty)
+  get hasOwnChanges(): boolean {
+    return this._hasOwnChanges;
+  }
+
   markDirty(): void {
     this._isDirty = true;
+    this._hasOwnChanges = true;
+    // Any in-flight async evaluation is now stale
+    this.cancelPending();
+  }
+
+  /**
+   * Mark the node dirty because nodes upstream are. It is only evaluated again if an
+   * output feeding it comes out changed (see hasInputChanges).
+   */
+  markUpstreamDirty(): void {
+    this._isDirty = true;
+    this.cancelPending();
+  }
+
+  /**
+   * Whether an output feeding the node changed since it was last clean, or it was
+   * connected differently
+   */
+  hasInputChanges(): boolean {
+    let edges = 0;
+    for (const port of this.inputs.values()) {
+      for (const edge of port.connections as Edge[]) {
+        edges++;
+        if (this._inputVersions.get(edge.id) !== edge.source.version) return true;
+      }
+    }
+    return edges !== this._inputVersions.size;
   }
 
   markClean(): void {
     this._isDirty = false;
+    this._hasOwnChanges = false;
+
+    // Objects passed on from an input that changed may have been updated in place
+    // upstream, so they count as changed even though they're the same object
+    const changedInputs = new Set<PortValue>();
+    for (const port of this.inputs.values()) {
+      for (const edge of port.connections as Edge[]) {
+        if (this._inputVersions.get(edge.id) !== edge.source.version) {
+          changedInputs.add(edge.source.value);
+        }
+      }
+    }
+
+    // Nodes after it are only evaluated again for outputs that changed
+    for (const port of this.outputs.values()) {
+      if (typeof port.value === 'object' && port.value !== null && changedInputs.has(port.value)) {
+        port.touch();
+      }
+      port.commit();
+    }
+    this._inputVersions.clear();
+    for (const port of this.inputs.values()) {
+      for (const edge of port.connections as Edge[]) {
+        this._inputVersions.set(edge.id, edge.source.version);
+      }
+    }
+
+    // A node frozen before it had results locks the first ones
+    if (this._frozen && !this._frozenOutputs) {
+      this._frozenOutputs = this.captureOutputs();
+    }
+  }
+
+  get frozen(): boolean {
+    return this._frozen;
+  }
+
+  // Frozen with outputs to keep, so the node isn't evaluated (see Evaluator)
+  get isFrozen(): boolean {
+    return this._frozenOutputs !== null;
+  }
+
+  get frozenOutputs(): ReadonlyMap<string, PortValue> | null {
+    return this._frozenOutputs;
+  }
+
+  /**
+   * Lock the outputs at their current values, so the node isn't evaluated again and
+   * changes upstream stop at it, or unlock them. Outputs can be given instead, e.g.
+   * saved ones; a node that is dirty and given none keeps the results of its next
+   * evaluation.
+   */
+  setFrozen(frozen: boolean, outputs?: Map<string, PortValue> | null): void {
+    if (frozen === this._frozen && outputs === undefined) return;
+
+    const oldFrozen = this._frozen;
+    const oldOutputs = this._frozenOutputs;
+    this._frozen = frozen;
+    if (!frozen) {
+      this._frozenOutputs = null;
+      this.markDownstreamDirty();
+    } else if (outputs) {
+      this._frozenOutputs = new Map(outputs);
+      this.markDownstreamDirty();
+    } else {
+      this._frozenOutputs = outputs === undefined && !this._isDirty ? this.captureOutputs() : null;
+    }
+    this.graph?.history.record(
+      new SetFrozenCommand(this, oldFrozen, oldOutputs, frozen, this._frozenOutputs)
+    );
+  }
+
+  /**
+   * Put the locked outputs back on the ports, for the Evaluator to skip the node
+   */
+  restoreFrozenOutputs(): void {
+    for (const [name, value] of this._frozenOutputs ?? []) {
+      const port = this.outputs.get(name);
+      if (port) {
+        port.value = value;
+        this.cacheOutput(name, value);
+      }
+    }
+  }
+
+  // Passes its inputs through instead of evaluating (see setBypassed)
+  get bypassed(): boolean {
+    return this._bypassed;
+  }
+
+  /**
+   * Disable the node without removing it or its connections: instead of evaluating,
+   * it passes each output the value of its first input of a matching type, e.g. a
+   * bypassed Merge Vertices passes its geometry through unchanged
+   */
+  setBypassed(bypassed: boolean): void {
+    if (bypassed === this._bypassed) return;
+
+    this._bypassed = bypassed;
+    this.graph?.history.record(new SetBypassedCommand(this, bypassed));
+    this.markDownstreamDirty();
+  }
+
+  /**
+   * Set the outputs of a bypassed node from its inputs (see setBypassed). Outputs
+   * without an input of a matching type are left empty.
+   */
+  passThroughInputs(): void {
+    const inputs = Array.from(this.inputs.values());
+    for (const [name, output] of this.outputs) {
+      const input = inputs.find((port) => port.matchesType(output));
+      const value = input?.hasMultipleConnections() ? input.getAllValues() : input?.value;
+      output.value = value;
+      this.cacheOutput(name, value);
+    }
+  }
+
+  private captureOutputs(): Map<string, PortValue> {
+    return new Map(Array.from(this.outputs, ([name, port]) => [name, port.value]));
+  }
+
+  // Async evaluation state
+  get isPending(): boolean {
+    return this._pendingEvaluation !== null;
+  }
+
+  beginPending(controller: AbortController): void {
+    this.cancelPending();
+    this._pendingEvaluation = controller;
+  }
+
+  /**
+   * Stop tracking an async evaluation
+   * Returns false if it was cancelled in the meantime (its result is stale)
+   */
+  endPending(controller: AbortController): boolean {
+    if (this._pendingEvaluation !== controller) return false;
+    this._pendingEvaluation = null;
+    this._progress = null;
+    return true;
+  }
+
+  /**
+   * Abort the in-flight async evaluation, if any
+   */
+  cancelPending(): void {
+    if (this._pendingEvaluation) {
+      this._pendingEvaluation.abort();
+      this._pendingEvaluation = null;
+      this._progress = null;
+    }
+  }
+
+  /**
+   * Completed fraction (0-1) of the pending evaluation, or null if unknown
+   */
+  get progress(): number | null {
+    return this._progress;
+  }
+
+  setProgress(progress: number | null): void {
+    this._progress = progress === null ? null : Math.min(1, Math.max(0, progress));
+  }
+
+  // Diagnostics
+  get diagnostics(): readonly NodeDiagnostic[] {
+    return this._diagnostics;
+  }
+
+  get hasError(): boolean {
+    return this._diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+  }
+
+  /**
+   * Id of the upstream node whose error keeps this node from evaluating
+   */
+  get blockedBy(): string | null {
+    return this._blockedBy;
+  }
+
+  setBlockedBy(nodeId: string | null): void {
+    this._blockedBy = nodeId;
+  }
+
+  clearDiagnostics(): void {
+    this._diagnostics = [];
+    this._blockedBy = null;
+  }
+
+  /**
+   * Record an error (e.g. thrown by evaluate). Dependents are blocked until it clears.
+   */
+  reportError(error: unknown): void {
+    this.addDiagnostic('error', error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Record diagnostics produced elsewhere, e.g. by a worker evaluation
+   */
+  reportDiagnostics(diagnostics: readonly NodeDiagnostic[]): void {
+    for (const diagnostic of diagnostics) {
+      this.addDiagnostic(diagnostic.severity, diagnostic.message);
+    }
+  }
+
+  // Report a recoverable problem, e.g. a missing input
+  protected warn(message: string): void {
+    this.addDiagnostic('warning', message);
+  }
+
+  protected addDiagnostic(severity: DiagnosticSeverity, message: string): void {
+    this._diagnostics.push({ severity, message });
+  }
+
+  /**
+   * Whether the node reads the graph parameter, so it is re-evaluated when the
+   * parameter changes (see Graph.setParameterValue)
+   */
+  readsParameter(_name: string): boolean {
+    return false;
+  }
+
+  /**
+   * Whether the node reads the transport's time from the context, so it is
+   * re-evaluated as the timeline plays or is scrubbed (see Graph.markTimeReadersDirty).
+   * Nodes with keyframes do.
+   */
+  readsTime(): boolean {
+    return this.keyframes.size > 0;
+  }
+
+  /**
+   * Whether the node draws random numbers (see random()), so it is re-evaluated
+   * when the graph's master seed changes (see Graph.setSeed)
+   */
+  readsSeed(): boolean {
+    return false;
+  }
+
+  /**
+   * The node's random stream for this evaluation, from the master seed in the
+   * context, the node's id and a seed of its own. Starts over on every call, so
+   * evaluations with the same seeds give the same results.
+   */
+  protected random(context: EvaluationContext, seed = 0): Random {
+    const service = context.random ?? new RandomService(this.graph?.seed ?? 0);
+    return service.forNode(this.id, seed);
+  }
+
+  /**
+   * Names of the lazy inputs this evaluation reads. Called with the other inputs
+   * already up to date, so control-flow nodes can pick a branch from them; the
+   * nodes feeding only unselected inputs aren't evaluated (see Evaluator).
+   */
+  selectInputs(): string[] {
+    return Array.from(this.inputs.values())
+      .filter((port) => port.lazy)
+      .map((port) => port.name);
   }
 
   /**
    * Mark this node and all downstream nodes as dirty
    * Used when internal state changes (e.g., file loaded, property changed)
+   * Frozen nodes downstream keep their outputs, so the nodes after them stay clean.
+   * The downstream nodes are only evaluated again if their inputs come out changed.
    */
   markDownstreamDirty(): void {
     if (!this.graph) return;
@@ -113,15 +541,20 @@ export abstract class Node<TInputs extends string = string, TOutputs extends str
       visited.add(currentId);
 
       const node = this.graph.getNode(currentId);
-      if (node) {
+      if (!node || (node !== this && node.isFrozen)) continue;
+
+      // The nodes after it are only evaluated again if what they are fed changes
+      if (node === this) {
         node.markDirty();
+      } else {
+        node.markUpstreamDirty();
+      }
 
-        // Find all nodes connected to this node's outputs
-        for (const outputPort of node.outputs.values()) {
-          const edges = this.graph.getEdgesFromPort(outputPort);
-          for (const edge of edges) {
-            queue.push(edge.target.node.id);
-          }
+      // Find all nodes connected to this node's outputs
+      for (const outputPort of node.outputs.values()) {
+        const edges = this.graph.getEdgesFromPort(outputPort);
+        for (const edge of edges) {
+          queue.push(edge.target.node.id);
         }
       }
     }
@@ -163,33 +596,97 @@ export abstract class Node<TInputs extends string = string, TOutputs extends str
     return values as T[];
   }
 
-  // Helper to process arrays element-wise
+  // Helper to process arrays element-wise, pairing items up by the node's matching strategy
   protected processArrays<T>(
     inputs: { [key: string]: any[] },
     callback: (values: { [key: string]: any }, index: number) => T
   ): T[] {
-    // Find the maximum length across all input arrays
-    const lengths = Object.values(inputs).map((arr) => arr.length);
-    const maxLength = Math.max(...lengths, 1);
-
-    const results: T[] = [];
+    return matchItems(inputs, this.matching).map((values, i) => callback(values, i));
+  }
 
-    for (let i = 0; i < maxLength; i++) {
-      const values: { [key: string]: any } = {};
+  /**
+   * Run the callback over the data trees of the given inputs, Grasshopper style.
+   *
+   * Branches are paired up by index (shorter trees repeat their last branch) and
+   * the output branch takes the path of the input with the most branches. Within
+   * a pair of branches, item inputs give one item per call and list inputs the
+   * whole branch, paired up by the matching strategy. Tree inputs get the whole
+   * tree on every call.
+   */
+  protected solveTree<T>(
+    names: TInputs[],
+    callback: (values: { [key: string]: any }, path: TreePath) => T
+  ): DataTree<T> {
+    const plain = this.solvePlain(names, callback);
+    if (plain) return plain;
+
+    const inputs: { name: string; access: AccessMode; tree: DataTree; branches: unknown[][] }[] =
+      [];
+    for (const name of names) {
+      const port = this.inputs.get(name);
+      if (!port) continue;
+      const tree = port.getTree();
+      const branches = tree.branches.map((branch) => branch.items);
+      inputs.push({ name, access: port.access, tree, branches });
+    }
 
-      // Get value at index i for each input, cycling if necessary
-      for (const [key, arr] of Object.entries(inputs)) {
-        if (arr.length === 0) {
-          values[key] = undefined;
+    // The input with the most branches decides the output paths
+    let master: DataTree | null = null;
+    for (const input of inputs) {
+      if (input.access !== 'tree' && (!master || input.tree.branchCount > master.branchCount)) {
+        master = input.tree;
+      }
+    }
+    const masterPaths = master?.paths ?? [];
+    const branchCount = Math.max(masterPaths.length, 1);
+
+    const result = new DataTree<T>();
+    for (let b = 0; b < branchCount; b++) {
+      const path = masterPaths[b] ?? [0];
+      const lists: { [key: string]: unknown[] } = {};
+
+      for (const { name, access, tree, branches } of inputs) {
+        const items = branches[Math.min(b, branches.length - 1)] ?? [];
+        if (access === 'tree') {
+          lists[name] = [tree];
+        } else if (access === 'list') {
+          lists[name] = [items];
         } else {
-          values[key] = arr[i % arr.length];
+          lists[name] = items;
         }
       }
 
-      results.push(callback(values, i));
+      result.append(
+        path,
+        ...matchItems(lists, this.matching).map((values) => callback(values, path))
+      );
+    }
+
+    return result;
+  }
+
+  // solveTree for the common case of plain values and arrays on single connections,
+  // which are one branch at {0}; saves building a tree per input
+  private solvePlain<T>(
+    names: TInputs[],
+    callback: (values: { [key: string]: unknown }, path: TreePath) => T
+  ): DataTree<T> | null {
+    const lists: { [key: string]: unknown[] } = {};
+    for (const name of names) {
+      const port = this.inputs.get(name);
+      if (!port) continue;
+      if (port.access === 'tree' || port.connections.length > 1) return null;
+
+      let value = port.value;
+      if (value === undefined && port.connections.length === 1) value = port.defaultValue;
+      if (value instanceof DataTree) return null;
+
+      const items = Array.isArray(value) ? value : value === undefined ? [] : [value];
+      lists[name] = port.access === 'list' ? [items] : items;
     }
 
-    return results;
+    const path = [0];
+    return DataTree.from(matchItems(lists, this.matching).map((values) => callback(values, path)));
   }
 
   // Helper to set output value
@@ -201,6 +698,29 @@ export abstract class Node<TInputs extends string = string, TOutputs extends str
     }
   }
 
+  /**
+   * Count an output as changed even though it is the same object, after updating the
+   * object in place, so the nodes it feeds are evaluated again (see Port.commit)
+   */
+  protected markOutputChanged(name: TOutputs): void {
+    this.outputs.get(name)?.touch();
+  }
+
+  /**
+   * Change the type of an output (e.g. one following the value it's set to) and pick
+   * the conversions of its edges again. Edges the new type can't feed are kept, and
+   * their targets report an error until the type fits again or they're disconnected.
+   */
+  protected setOutputType(name: TOutputs, type: PortDataType): void {
+    const port = this.outputs.get(name);
+    if (!port || port.type === type) return;
+
+    port.type = type;
+    for (const edge of port.connections as Edge[]) {
+      edge.refreshConversion();
+    }
+  }
+
   /**
    * Get an output port, throwing if it doesn't exist
    * Type-safe: only accepts output port names that exist on this node
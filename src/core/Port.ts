@@ -1,28 +1,42 @@
-import { PortType, PortValue } from '@/types';
+import * as THREE from 'three';
+import { PortType, PortDataType, PortValue, elementType, isListType } from '@/types';
 import type { Node } from './Node';
+import { DataTree, AccessMode } from './DataTree';
+import { conversions, TypeConversion } from './conversions';
 
 export class Port {
   public id: string;
   public name: string;
-  public type: PortType;
+  public type: PortDataType;
   public node: Node;
   public isInput: boolean;
+  public access: AccessMode;
+  public lazy: boolean; // See Node.selectInputs
   public connections: any[] = []; // Track connected edges
   private _value: PortValue = undefined;
   private _defaultValue: PortValue;
 
+  // Outputs: raised each time a committed value differs from the one before (see commit)
+  private _version = 0;
+  private _committed: unknown = undefined;
+  private _touched = false;
+
   constructor(
     name: string,
-    type: PortType,
+    type: PortDataType,
     node: Node,
     isInput: boolean,
-    defaultValue?: PortValue
+    defaultValue?: PortValue,
+    access: AccessMode = 'item',
+    lazy: boolean = false
   ) {
     this.id = `${node.id}_${name}_${isInput ? 'in' : 'out'}`;
     this.name = name;
     this.type = type;
     this.node = node;
     this.isInput = isInput;
+    this.access = access;
+    this.lazy = lazy;
     this._defaultValue = defaultValue;
     this._value = defaultValue;
   }
@@ -43,6 +57,34 @@ export class Port {
     this._value = this._defaultValue;
   }
 
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Count the value as changed at the next commit even if it compares equal, for
+   * output objects updated in place
+   */
+  touch(): void {
+    this._touched = true;
+  }
+
+  /**
+   * Compare the value with the one at the last commit and raise the version if it
+   * changed, so nodes fed by it know to evaluate again. Numbers, vectors, colors and
+   * short lists of them are compared by value, other objects (geometries, meshes, data
+   * trees) by identity. Returns whether it changed.
+   */
+  commit(): boolean {
+    const changed = this._touched || !valueEquals(this._value, this._committed);
+    if (changed) {
+      this._version++;
+      this._committed = snapshot(this._value);
+    }
+    this._touched = false;
+    return changed;
+  }
+
   // Check if port has multiple connections
   hasMultipleConnections(): boolean {
     return this.connections.length > 1;
@@ -56,25 +98,74 @@ export class Port {
 
     const values: PortValue[] = [];
     for (const edge of this.connections) {
-      const sourceValue = edge.source.value;
-      if (sourceValue !== undefined) {
+      const sourceValue = edge.value;
+      if (sourceValue instanceof DataTree) {
+        values.push(...sourceValue.allItems());
+      } else if (Array.isArray(sourceValue) && isListType(this.type)) {
+        // The lists of all connections, concatenated
+        values.push(...sourceValue);
+      } else if (sourceValue !== undefined) {
         values.push(sourceValue);
       }
     }
 
-    return values.length > 0 ? values : [this._defaultValue];
+    if (values.length > 0) return values;
+    // Unconnected inputs have their own value (e.g. loaded or keyframed)
+    const fallback = this.connections.length === 0 ? this._value : this._defaultValue;
+    return isListType(this.type) && Array.isArray(fallback) ? [...fallback] : [fallback];
   }
 
-  // Check if types are compatible for connections
+  /**
+   * The value as a data tree. Trees from several connections are merged,
+   * so items arriving at the same path end up in the same branch.
+   */
+  getTree(): DataTree {
+    if (!this.isInput || this.connections.length === 0) {
+      return DataTree.from(this._value);
+    }
+    if (this.connections.length === 1) {
+      const value = this.connections[0].value;
+      return DataTree.from(value === undefined ? this._defaultValue : value);
+    }
+
+    let tree = new DataTree();
+    for (const edge of this.connections) {
+      tree = tree.merge(DataTree.from(edge.value));
+    }
+    return tree.branchCount > 0 ? tree : DataTree.from(this._defaultValue);
+  }
+
+  // Check if types are compatible for connections, directly or through a conversion
   canConnectTo(other: Port): boolean {
     if (this.isInput === other.isInput) return false;
-    if (this.type === PortType.Any || other.type === PortType.Any) return true;
+    return this.matchesType(other) || this.getConversion(other) !== undefined;
+  }
+
+  /**
+   * The conversion applied to values flowing between this port and other, when
+   * their types don't match directly (see conversions)
+   */
+  getConversion(other: Port): TypeConversion | undefined {
+    if (this.isInput === other.isInput || this.matchesType(other)) return undefined;
+    const [source, target] = this.isInput ? [other, this] : [this, other];
+    return conversions.find(elementType(source.type), elementType(target.type));
+  }
+
+  /**
+   * Whether values pass between the ports without a conversion. Lists are compared by
+   * their item types: a list can feed a single-value input (the node runs once per
+   * item) and a single value can feed a list input.
+   */
+  matchesType(other: Port): boolean {
+    const type = elementType(this.type);
+    const otherType = elementType(other.type);
+    if (type === PortType.Any || otherType === PortType.Any) return true;
 
     // Check if types are exactly the same
-    if (this.type === other.type) return true;
+    if (type === otherType) return true;
 
     // Check Three.js type hierarchy compatibility
-    return this.isTypeCompatible(this.type, other.type);
+    return this.isTypeCompatible(type, otherType);
   }
 
   // Check if two types are compatible based on Three.js hierarchy
@@ -95,3 +186,55 @@ export class Port {
     return false;
   }
 }
+
+// Lists longer than this are compared by identity, as copying them for each commit
+// would cost more than evaluating the nodes after them
+const MAX_COMPARED_ITEMS = 1024;
+
+type MathValue =
+  | THREE.Vector2
+  | THREE.Vector3
+  | THREE.Vector4
+  | THREE.Color
+  | THREE.Quaternion
+  | THREE.Euler
+  | THREE.Matrix3
+  | THREE.Matrix4;
+
+function isMathValue(value: unknown): value is MathValue {
+  return (
+    value instanceof THREE.Vector2 ||
+    value instanceof THREE.Vector3 ||
+    value instanceof THREE.Vector4 ||
+    value instanceof THREE.Color ||
+    value instanceof THREE.Quaternion ||
+    value instanceof THREE.Euler ||
+    value instanceof THREE.Matrix3 ||
+    value instanceof THREE.Matrix4
+  );
+}
+
+// Copy of the parts of a value compared by value (nodes may update vectors in place)
+function snapshot(value: unknown): unknown {
+  if (isMathValue(value)) return value.clone();
+  if (Array.isArray(value) && value.length <= MAX_COMPARED_ITEMS) return value.map(snapshot);
+  return value;
+}
+
+function valueEquals(value: unknown, committed: unknown): boolean {
+  if (Object.is(value, committed)) return true;
+  if (isMathValue(value) && isMathValue(committed)) {
+    return (
+      value.constructor === committed.constructor &&
+      (value as { equals(other: MathValue): boolean }).equals(committed)
+    );
+  }
+  if (Array.isArray(value) && Array.isArray(committed)) {
+    return (
+      value.length === committed.length &&
+      value.length <= MAX_COMPARED_ITEMS &&
+      value.every((item, i) => valueEquals(item, committed[i]))
+    );
+  }
+  return false;
+}
@@ -0,0 +1,77 @@
+import type { Node } from './Node';
+
+/**
+ * Timing for one node, accumulated across evaluations
+ */
+export interface NodeProfile {
+  nodeId: string;
+  type: string;
+  label: string;
+  calls: number;
+  lastMs: number;
+  totalMs: number;
+  maxMs: number;
+  lastEvaluatedAt: number; // Timestamp (Date.now()) of the last evaluation
+}
+
+export interface ProfileExport {
+  version: string;
+  exportedAt: number;
+  nodes: NodeProfile[];
+}
+
+const PROFILE_VERSION = '1.0.0';
+
+/**
+ * Per-node evaluation timings, recorded by the Evaluator.
+ *
+ * Async nodes are timed until their evaluation settles, so their cost
+ * includes any time spent waiting (e.g. on a file load).
+ */
+export class Profiler {
+  private profiles: Map<string, NodeProfile> = new Map();
+
+  record(node: Node, durationMs: number): void {
+    let profile = this.profiles.get(node.id);
+    if (!profile) {
+      profile = {
+        nodeId: node.id,
+        type: node.type,
+        label: node.label,
+        calls: 0,
+        lastMs: 0,
+        totalMs: 0,
+        maxMs: 0,
+        lastEvaluatedAt: 0,
+      };
+      this.profiles.set(node.id, profile);
+    }
+
+    profile.label = node.label;
+    profile.calls++;
+    profile.lastMs = durationMs;
+    profile.totalMs += durationMs;
+    profile.maxMs = Math.max(profile.maxMs, durationMs);
+    profile.lastEvaluatedAt = Date.now();
+  }
+
+  get(nodeId: string): NodeProfile | undefined {
+    return this.profiles.get(nodeId);
+  }
+
+  getAll(): NodeProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  reset(): void {
+    this.profiles.clear();
+  }
+
+  toJSON(): ProfileExport {
+    return {
+      version: PROFILE_VERSION,
+      exportedAt: Date.now(),
+      nodes: this.getAll().map((profile) => ({ ...profile })),
+    };
+  }
+}
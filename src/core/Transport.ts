@@ -0,0 +1,224 @@
+export type TransportMode = 'realtime' | 'fixed';
+
+// The clock values handed to nodes in the EvaluationContext
+export interface TransportTime {
+  time: number; // Seconds
+  deltaTime: number; // Seconds since the previous frame (0 after a seek)
+  frame: number; // Time in frames at the transport's fps
+}
+
+/**
+ * The one clock of the app, played, paused and scrubbed from the timeline.
+ *
+ * In realtime mode, time follows the wall clock and every animation frame is
+ * evaluated. In fixed mode, time moves exactly one frame (1 / fps) per step, at
+ * most one step per animation frame, so simulations give the same results however
+ * fast the graph evaluates (playback slows down instead of skipping frames).
+ *
+ * Playback wraps from the end of the range back to its start while looping, and
+ * pauses at the end otherwise.
+ */
+export class Transport {
+  private _time = 0;
+  private _deltaTime = 0;
+  private _frame = 0;
+  private _playing = false;
+  private _mode: TransportMode = 'realtime';
+  private _fps = 30;
+  private _loop = true;
+  private _start = 0;
+  private _end = 10;
+
+  private animationId: number | null = null;
+  private lastTimestamp: number | null = null;
+  private accumulated = 0; // Wall time not yet stepped through, in fixed mode
+  private _listeners: Set<(transport: Transport) => void> = new Set();
+  private _timeListeners: Set<(transport: Transport) => void> = new Set();
+
+  get time(): number {
+    return this._time;
+  }
+
+  get deltaTime(): number {
+    return this._deltaTime;
+  }
+
+  get frame(): number {
+    return this._frame;
+  }
+
+  get playing(): boolean {
+    return this._playing;
+  }
+
+  get mode(): TransportMode {
+    return this._mode;
+  }
+
+  get fps(): number {
+    return this._fps;
+  }
+
+  get loop(): boolean {
+    return this._loop;
+  }
+
+  get start(): number {
+    return this._start;
+  }
+
+  get end(): number {
+    return this._end;
+  }
+
+  getTime(): TransportTime {
+    return { time: this._time, deltaTime: this._deltaTime, frame: this._frame };
+  }
+
+  play(): void {
+    if (this._playing) return;
+    // Playing again after stopping at the end starts over
+    if (!this._loop && this._time >= this._end) {
+      this.seek(this._start);
+    }
+
+    this._playing = true;
+    this.lastTimestamp = null;
+    this.accumulated = 0;
+    this.animationId = requestAnimationFrame(this.tick);
+    this.notifyChange();
+  }
+
+  pause(): void {
+    if (!this._playing) return;
+    this._playing = false;
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+    this.notifyChange();
+  }
+
+  toggle(): void {
+    if (this._playing) this.pause();
+    else this.play();
+  }
+
+  // Pause and go back to the start of the range
+  stop(): void {
+    this.pause();
+    this.seek(this._start);
+  }
+
+  /**
+   * Jump to a time within the range (snapped to a frame in fixed mode). Nodes see
+   * a deltaTime of 0, since no time was stepped through.
+   */
+  seek(time: number): void {
+    this._deltaTime = 0;
+    this.setTime(Math.min(this._end, Math.max(this._start, time)));
+    this.notifyTimeChange();
+  }
+
+  setMode(mode: TransportMode): void {
+    this._mode = mode;
+    this.accumulated = 0;
+    this.setTime(this._time);
+    this.notifyChange();
+  }
+
+  setFps(fps: number): void {
+    if (!(fps > 0)) return;
+    this._fps = fps;
+    this.setTime(this._time);
+    this.notifyChange();
+  }
+
+  setLoop(loop: boolean): void {
+    this._loop = loop;
+    this.notifyChange();
+  }
+
+  // Set the playback range, in seconds; the time is moved into it
+  setRange(start: number, end: number): void {
+    if (!(end > start)) return;
+    this._start = start;
+    this._end = end;
+    if (this._time < start || this._time > end) {
+      this.seek(this._time);
+    } else {
+      this.notifyChange();
+    }
+  }
+
+  // Subscribe to any change: time, playing state or settings
+  onChange(listener: (transport: Transport) => void): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  // Subscribe to time changes only (playback and seeks)
+  onTimeChange(listener: (transport: Transport) => void): () => void {
+    this._timeListeners.add(listener);
+    return () => this._timeListeners.delete(listener);
+  }
+
+  dispose(): void {
+    this.pause();
+    this._listeners.clear();
+    this._timeListeners.clear();
+  }
+
+  private tick = (timestamp: number): void => {
+    this.animationId = requestAnimationFrame(this.tick);
+    const elapsed = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+
+    if (this._mode === 'fixed') {
+      const step = 1 / this._fps;
+      this.accumulated += elapsed;
+      if (this.accumulated < step) return;
+      // Frames that didn't fit in are dropped rather than caught up on
+      this.accumulated = Math.min(this.accumulated - step, step);
+      this.advance(step);
+    } else if (elapsed > 0) {
+      this.advance(elapsed);
+    }
+  };
+
+  private advance(deltaTime: number): void {
+    let time = this._mode === 'fixed' ? (this._frame + 1) / this._fps : this._time + deltaTime;
+    if (time > this._end) {
+      if (this._loop) {
+        time = this._start;
+      } else {
+        time = this._end;
+        this.pause();
+      }
+    }
+
+    this._deltaTime = deltaTime;
+    this.setTime(time);
+    this.notifyTimeChange();
+  }
+
+  // Fixed mode keeps time on whole frames, so it doesn't drift from frame / fps
+  private setTime(time: number): void {
+    if (this._mode === 'fixed') {
+      this._frame = Math.round(time * this._fps);
+      this._time = this._frame / this._fps;
+    } else {
+      this._time = time;
+      this._frame = Math.floor(time * this._fps + 1e-9);
+    }
+  }
+
+  private notifyTimeChange(): void {
+    this._timeListeners.forEach((listener) => listener(this));
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this._listeners.forEach((listener) => listener(this));
+  }
+}
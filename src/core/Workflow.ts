@@ -1,19 +1,23 @@
 import '../style.css';
 import '@phosphor-icons/web/regular';
 import { Graph } from '@/core/Graph';
+import { Transport } from '@/core/Transport';
 import { createDefaultRegistry, NodeRegistry } from '@/three';
-import { GraphEditor, LiveViewport, ViewModeManager, PreviewManager } from '@/ui';
+import { GraphEditor, LiveViewport, ViewModeManager, PreviewManager, TimelineBar } from '@/ui';
 import { isTouchDevice } from '@/utils/deviceDetection';
 import { CustomNodeManager } from '@/three/CustomNodeManager';
+import { GroupNodeManager } from '@/three/GroupNodeManager';
 
 export default class Workflow {
   public graph: Graph;
   public registry: NodeRegistry;
+  public transport: Transport;
   public container: HTMLElement = document.body;
   graphEditor: GraphEditor;
   liveViewport: LiveViewport;
   previewManager: PreviewManager;
   viewModeManager: ViewModeManager;
+  timelineBar: TimelineBar;
   constructor(container: HTMLElement) {
     if (isTouchDevice()) document.body.id = 'touch-device';
 
@@ -21,6 +25,7 @@ export default class Workflow {
     // Create the node registry
     this.registry = createDefaultRegistry();
     this.loadCustomNodes();
+    this.loadGroupNodes();
 
     // Create the graph
     this.graph = new Graph();
@@ -43,6 +48,16 @@ export default class Workflow {
     const previewControls = toolbar.querySelector('.preview-controls') as HTMLElement;
     this.previewManager.initializeUI(previewControls);
 
+    // One clock for every time-dependent node, driven from the timeline in the toolbar
+    this.transport = new Transport();
+    this.graphEditor.setTransport(this.transport);
+    this.transport.onTimeChange(() => {
+      this.graph.markTimeReadersDirty();
+      this.graph.triggerChange();
+    });
+    this.timelineBar = new TimelineBar(this.transport);
+    this.timelineBar.initializeUI(toolbar.querySelector('.timeline-controls') as HTMLElement);
+
     // Create view mode manager (it will create its own toggle button)
     this.viewModeManager = new ViewModeManager(
       this.graphEditor,
@@ -65,4 +80,12 @@ export default class Workflow {
     if (loadResult.success) console.log(loadResult.message);
     else if (loadResult.error) console.warn('Custom nodes load warning:', loadResult.error);
   }
+
+  loadGroupNodes() {
+    // Load saved group node types from localStorage
+    const groupNodeManager = new GroupNodeManager(this.registry);
+    const loadResult = groupNodeManager.loadFromStorage();
+    if (loadResult.success) console.log(loadResult.message);
+    else if (loadResult.error) console.warn('Group nodes load warning:', loadResult.error);
+  }
 }
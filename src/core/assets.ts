@@ -0,0 +1,200 @@
+import { SerializedGraph } from './types';
+
+/**
+ * A file picked in the editor (model, data file, texture), stored under the
+ * SHA-256 hash of its content so saved graphs can refer to it by hash
+ */
+export interface StoredAsset {
+  hash: string;
+  name: string;
+  type: string; // MIME type
+  data: Blob;
+}
+
+// An asset inlined into a saved graph (see embedAssets)
+export interface SerializedAsset {
+  name: string;
+  type: string;
+  data: string; // base64
+}
+
+const DATABASE_NAME = 'three-nodes-assets';
+const STORE_NAME = 'assets';
+
+/**
+ * Content-addressed file store backed by IndexedDB. Where IndexedDB isn't
+ * available (e.g. headless runs), assets are only kept in memory.
+ */
+export class AssetStore {
+  private cache: Map<string, StoredAsset> = new Map();
+  private database: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Store a file, returning its hash. Storing the same content again is a no-op.
+   */
+  async add(file: Blob, name: string = file instanceof File ? file.name : ''): Promise<string> {
+    const hash = await hashContent(file);
+    if (!this.cache.has(hash)) {
+      const asset: StoredAsset = { hash, name, type: file.type, data: file };
+      this.cache.set(hash, asset);
+      await this.persist(asset);
+    }
+    return hash;
+  }
+
+  async get(hash: string): Promise<StoredAsset | undefined> {
+    const cached = this.cache.get(hash);
+    if (cached) return cached;
+
+    const database = await this.open();
+    if (!database) return undefined;
+    const asset = await request<StoredAsset | undefined>(
+      database.transaction(STORE_NAME).objectStore(STORE_NAME).get(hash)
+    );
+    if (asset) {
+      this.cache.set(hash, asset);
+    }
+    return asset;
+  }
+
+  /**
+   * The stored asset as a File, ready for the loaders
+   */
+  async getFile(hash: string): Promise<File | undefined> {
+    const asset = await this.get(hash);
+    return asset && new File([asset.data], asset.name, { type: asset.type });
+  }
+
+  async remove(hash: string): Promise<void> {
+    this.cache.delete(hash);
+    const database = await this.open();
+    if (database) {
+      await request(
+        database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(hash)
+      );
+    }
+  }
+
+  /**
+   * Encode stored assets for inlining into a saved graph; missing hashes are skipped
+   */
+  async export(hashes: Iterable<string>): Promise<Record<string, SerializedAsset>> {
+    const exported: Record<string, SerializedAsset> = {};
+    for (const hash of hashes) {
+      const asset = await this.get(hash);
+      if (asset) {
+        exported[hash] = {
+          name: asset.name,
+          type: asset.type,
+          data: toBase64(await asset.data.arrayBuffer()),
+        };
+      }
+    }
+    return exported;
+  }
+
+  /**
+   * Add inlined assets. They're available right away and written to IndexedDB
+   * in the background. Hashes are trusted, as they come from the saving store.
+   */
+  import(assets: Record<string, SerializedAsset>): void {
+    for (const [hash, serialized] of Object.entries(assets)) {
+      if (this.cache.has(hash)) continue;
+      const data = new Blob([fromBase64(serialized.data)], { type: serialized.type });
+      const asset: StoredAsset = { hash, name: serialized.name, type: serialized.type, data };
+      this.cache.set(hash, asset);
+      this.persist(asset).catch((error) => console.error('Failed to store asset:', error));
+    }
+  }
+
+  private async persist(asset: StoredAsset): Promise<void> {
+    const database = await this.open();
+    if (database) {
+      await request(
+        database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(asset)
+      );
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database =
+        typeof indexedDB === 'undefined'
+          ? Promise.resolve(null)
+          : new Promise((resolve) => {
+              const opening = indexedDB.open(DATABASE_NAME, 1);
+              opening.onupgradeneeded = () => {
+                opening.result.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+              };
+              opening.onsuccess = () => resolve(opening.result);
+              opening.onerror = () => {
+                // e.g. private browsing; assets then only last for the session
+                console.warn('Asset store unavailable, keeping assets in memory:', opening.error);
+                resolve(null);
+              };
+            });
+    }
+    return this.database;
+  }
+}
+
+export const assetStore = new AssetStore();
+
+/**
+ * Hashes of the assets a saved graph (and its subgraphs) refers to
+ */
+export function referencedAssets(data: SerializedGraph): Set<string> {
+  const hashes = new Set<string>();
+  const collect = (graph: SerializedGraph) => {
+    graph.assets?.forEach((hash) => hashes.add(hash));
+    for (const node of graph.nodes) {
+      if (node.subgraph) collect(node.subgraph);
+    }
+  };
+  collect(data);
+  return hashes;
+}
+
+/**
+ * Inline the assets a saved graph (and its subgraphs) refers to, e.g. for
+ * exporting it to a file that loads on other machines
+ */
+export async function embedAssets(
+  data: SerializedGraph,
+  store: AssetStore = assetStore
+): Promise<SerializedGraph> {
+  const hashes = referencedAssets(data);
+  if (hashes.size === 0) return data;
+  return { ...data, assetData: await store.export(hashes) };
+}
+
+async function hashContent(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function request<T>(operation: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    operation.onsuccess = () => resolve(operation.result as T);
+    operation.onerror = () => reject(operation.error);
+  });
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked, as spreading large arrays into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,211 @@
+import * as THREE from 'three';
+import { Point2D } from '@/types';
+import { DataTree } from './DataTree';
+
+/**
+ * Converts values of one kind to JSON and back. Encoded values are saved as
+ * { $type: tag, value: data }. Nested values (e.g. list items) go through the
+ * encode/decode functions passed in, which throw for values without a codec.
+ */
+export interface ValueCodec<T = unknown> {
+  tag: string;
+  test: (value: unknown) => value is T;
+  encode: (value: T, encode: (item: unknown) => unknown) => unknown;
+  decode: (data: unknown, decode: (item: unknown) => unknown) => T;
+}
+
+interface TaggedValue {
+  $type: string;
+  value: unknown;
+}
+
+// Thrown while encoding a value that has no codec (e.g. a mesh in a list)
+class UnsupportedValueError extends Error {}
+
+/**
+ * Codecs for port and property values, looked up in registration order
+ */
+export class ValueCodecRegistry {
+  private codecs: Map<string, ValueCodec> = new Map();
+
+  register<T>(codec: ValueCodec<T>): void {
+    this.codecs.set(codec.tag, codec as ValueCodec);
+  }
+
+  /**
+   * The value as JSON data, or undefined if it (or anything in it) has no codec,
+   * e.g. meshes, materials and other live Three.js objects
+   */
+  encode(value: unknown): unknown {
+    try {
+      return this.encodeValue(value);
+    } catch (error) {
+      if (error instanceof UnsupportedValueError) return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Inverse of encode. Untagged data (e.g. older saves) is returned as is.
+   */
+  decode(data: unknown): unknown {
+    if (data === null || typeof data !== 'object') return data;
+    if (Array.isArray(data)) return data.map((item) => this.decode(item));
+
+    if (isTagged(data)) {
+      if (data.$type === 'Object') return this.decodeEntries(data.value as object);
+      const codec = this.codecs.get(data.$type);
+      if (codec) return codec.decode(data.value, (item) => this.decode(item));
+      console.warn(`No codec for saved value of type ${data.$type}`);
+      return undefined;
+    }
+    return this.decodeEntries(data);
+  }
+
+  private encodeValue(value: unknown): unknown {
+    if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') {
+      throw new UnsupportedValueError();
+    }
+    if (value === null || typeof value !== 'object') return value;
+
+    for (const codec of this.codecs.values()) {
+      if (codec.test(value)) {
+        return { $type: codec.tag, value: codec.encode(value, (item) => this.encodeValue(item)) };
+      }
+    }
+
+    if (Array.isArray(value)) return value.map((item) => this.encodeValue(item));
+
+    // Plain data (e.g. parsed JSON); objects that look tagged are wrapped so they stay plain
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      throw new UnsupportedValueError();
+    }
+    const encoded = Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, this.encodeValue(item)])
+    );
+    return '$type' in value ? { $type: 'Object', value: encoded } : encoded;
+  }
+
+  private decodeEntries(data: object): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).map(([key, item]) => [key, this.decode(item)]));
+  }
+}
+
+function isTagged(data: object): data is TaggedValue {
+  return '$type' in data && typeof data.$type === 'string' && 'value' in data;
+}
+
+function isPoint2D(value: unknown): value is Point2D {
+  if (value === null || typeof value !== 'object') return false;
+  if (Object.getPrototypeOf(value) !== Object.prototype) return false;
+  const keys = Object.keys(value);
+  return (
+    keys.length === 2 &&
+    typeof (value as Point2D).x === 'number' &&
+    typeof (value as Point2D).y === 'number'
+  );
+}
+
+export const valueCodecs = new ValueCodecRegistry();
+
+valueCodecs.register<THREE.Vector2>({
+  tag: 'Vector2',
+  test: (value) => value instanceof THREE.Vector2,
+  encode: (value) => value.toArray(),
+  decode: (data) => new THREE.Vector2().fromArray(data as number[]),
+});
+
+valueCodecs.register<THREE.Vector3>({
+  tag: 'Vector3',
+  test: (value) => value instanceof THREE.Vector3,
+  encode: (value) => value.toArray(),
+  decode: (data) => new THREE.Vector3().fromArray(data as number[]),
+});
+
+valueCodecs.register<THREE.Color>({
+  tag: 'Color',
+  test: (value) => value instanceof THREE.Color,
+  encode: (value) => value.toArray(),
+  decode: (data) => new THREE.Color().fromArray(data as number[]),
+});
+
+valueCodecs.register<THREE.Matrix4>({
+  tag: 'Matrix4',
+  test: (value) => value instanceof THREE.Matrix4,
+  encode: (value) => value.toArray(),
+  decode: (data) => new THREE.Matrix4().fromArray(data as number[]),
+});
+
+valueCodecs.register<THREE.Euler>({
+  tag: 'Euler',
+  test: (value) => value instanceof THREE.Euler,
+  encode: (value) => [value.x, value.y, value.z, value.order],
+  decode: (data) => {
+    const [x, y, z, order] = data as [number, number, number, THREE.EulerOrder];
+    return new THREE.Euler(x, y, z, order);
+  },
+});
+
+valueCodecs.register<THREE.Quaternion>({
+  tag: 'Quaternion',
+  test: (value) => value instanceof THREE.Quaternion,
+  encode: (value) => value.toArray(),
+  decode: (data) => new THREE.Quaternion().fromArray(data as number[]),
+});
+
+valueCodecs.register<THREE.Plane>({
+  tag: 'Plane',
+  test: (value) => value instanceof THREE.Plane,
+  encode: (value) => [...value.normal.toArray(), value.constant],
+  decode: (data) => {
+    const [x, y, z, constant] = data as number[];
+    return new THREE.Plane(new THREE.Vector3(x, y, z), constant);
+  },
+});
+
+valueCodecs.register<THREE.Ray>({
+  tag: 'Ray',
+  test: (value) => value instanceof THREE.Ray,
+  encode: (value) => [...value.origin.toArray(), ...value.direction.toArray()],
+  decode: (data) => {
+    const values = data as number[];
+    return new THREE.Ray(
+      new THREE.Vector3().fromArray(values, 0),
+      new THREE.Vector3().fromArray(values, 3)
+    );
+  },
+});
+
+// Geometry data only (attributes, index, groups); subclasses such as BoxGeometry are
+// saved as plain geometry, as toJSON would only save their parameters
+valueCodecs.register<THREE.BufferGeometry>({
+  tag: 'BufferGeometry',
+  test: (value) => value instanceof THREE.BufferGeometry,
+  encode: (value) => new THREE.BufferGeometry().copy(value).toJSON(),
+  decode: (data) => new THREE.BufferGeometryLoader().parse(data),
+});
+
+valueCodecs.register<Point2D>({
+  tag: 'Point2D',
+  test: isPoint2D,
+  encode: (value) => [value.x, value.y],
+  decode: (data) => {
+    const [x, y] = data as number[];
+    return { x, y };
+  },
+});
+
+valueCodecs.register<DataTree>({
+  tag: 'DataTree',
+  test: (value) => value instanceof DataTree,
+  encode: (value, encode) =>
+    value.branches.map((branch) => ({ path: branch.path, items: encode(branch.items) })),
+  decode: (data, decode) => {
+    const tree = new DataTree();
+    for (const branch of data as { path: number[]; items: unknown[] }[]) {
+      tree.append(branch.path, ...(decode(branch.items) as unknown[]));
+    }
+    return tree;
+  },
+});
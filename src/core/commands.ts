@@ -0,0 +1,572 @@
+import type { Graph } from './Graph';
+import type { Node } from './Node';
+import type { Port } from './Port';
+import type { GraphParameter, ParameterValue } from './parameters';
+import type { KeyframeTarget, KeyframeTrack } from './keyframes';
+import type { PortValue } from '@/types';
+
+/**
+ * A reversible edit. Commands are recorded after the edit has been applied,
+ * so execute() is only called when redoing.
+ */
+export interface Command {
+  readonly label: string;
+  execute(): void;
+  undo(): void;
+  // Fold a following command into this one (e.g. consecutive slider drags)
+  merge?(next: Command): boolean;
+  // Called once the history drops the command, from the redo stack if `undone`, to
+  // release what only it could bring back (e.g. a deleted node)
+  discard?(undone: boolean): void;
+}
+
+export type NodePositions = Map<string, { x: number; y: number }>;
+
+// Repeated edits of the same kind within this window are merged into one step
+const MERGE_WINDOW = 1000; // ms
+
+// Copy mutable values so later edits don't rewrite recorded history
+function snapshotValue<T>(value: T): T {
+  if (value && typeof value === 'object') {
+    const cloneable = value as { clone?: () => T };
+    if (typeof cloneable.clone === 'function') {
+      return cloneable.clone();
+    }
+    try {
+      return structuredClone(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+export class CompositeCommand implements Command {
+  private commands: Command[] = [];
+
+  constructor(public readonly label: string) {}
+
+  add(command: Command): void {
+    this.commands.push(command);
+  }
+
+  isEmpty(): boolean {
+    return this.commands.length === 0;
+  }
+
+  get size(): number {
+    return this.commands.length;
+  }
+
+  first(): Command | undefined {
+    return this.commands[0];
+  }
+
+  execute(): void {
+    for (const command of this.commands) {
+      command.execute();
+    }
+  }
+
+  undo(): void {
+    for (let i = this.commands.length - 1; i >= 0; i--) {
+      this.commands[i].undo();
+    }
+  }
+
+  discard(undone: boolean): void {
+    for (const command of this.commands) {
+      command.discard?.(undone);
+    }
+  }
+}
+
+export class AddNodeCommand implements Command {
+  readonly label: string;
+
+  constructor(
+    private graph: Graph,
+    private node: Node
+  ) {
+    this.label = `Add ${node.label}`;
+  }
+
+  execute(): void {
+    this.node.markDirty();
+    this.graph.addNode(this.node);
+  }
+
+  undo(): void {
+    this.graph.removeNode(this.node.id);
+  }
+
+  // Undone, so the node was removed and can't be redone anymore
+  discard(undone: boolean): void {
+    if (undone) disposeRemovedNode(this.node);
+  }
+}
+
+export class RemoveNodeCommand implements Command {
+  readonly label: string;
+
+  /**
+   * @param edges - Connections the node had at the time it was removed
+   */
+  constructor(
+    private graph: Graph,
+    private node: Node,
+    private edges: Array<{ source: Port; target: Port }>
+  ) {
+    this.label = `Delete ${node.label}`;
+  }
+
+  execute(): void {
+    this.graph.removeNode(this.node.id);
+  }
+
+  undo(): void {
+    this.node.markDirty();
+    this.graph.addNode(this.node);
+    for (const { source, target } of this.edges) {
+      this.graph.connect(source, target, true);
+    }
+  }
+
+  // The deletion can't be undone anymore
+  discard(undone: boolean): void {
+    if (!undone) disposeRemovedNode(this.node);
+  }
+}
+
+export class ConnectCommand implements Command {
+  readonly label: string;
+
+  constructor(
+    private graph: Graph,
+    private source: Port,
+    private target: Port
+  ) {
+    this.label = `Connect ${source.node.label} → ${target.node.label}`;
+  }
+
+  execute(): void {
+    this.graph.connect(this.source, this.target, true);
+  }
+
+  undo(): void {
+    const edge = this.target.connections.find((e) => e.source === this.source);
+    if (edge) {
+      this.graph.removeEdge(edge.id);
+    }
+  }
+}
+
+export class DisconnectCommand implements Command {
+  readonly label: string;
+
+  constructor(
+    private graph: Graph,
+    private source: Port,
+    private target: Port
+  ) {
+    this.label = `Disconnect ${source.node.label} → ${target.node.label}`;
+  }
+
+  execute(): void {
+    const edge = this.target.connections.find((e) => e.source === this.source);
+    if (edge) {
+      this.graph.removeEdge(edge.id);
+    }
+  }
+
+  undo(): void {
+    this.graph.connect(this.source, this.target, true);
+  }
+}
+
+export class SetPropertyCommand implements Command {
+  readonly label: string;
+  private timestamp = Date.now();
+  private oldValue: unknown;
+  private newValue: unknown;
+
+  constructor(
+    private node: Node,
+    private name: string,
+    oldValue: unknown,
+    newValue: unknown
+  ) {
+    this.label = `Set ${node.label}.${name}`;
+    this.oldValue = snapshotValue(oldValue);
+    this.newValue = snapshotValue(newValue);
+  }
+
+  execute(): void {
+    this.apply(this.newValue);
+  }
+
+  undo(): void {
+    this.apply(this.oldValue);
+  }
+
+  merge(next: Command): boolean {
+    if (
+      !(next instanceof SetPropertyCommand) ||
+      next.node !== this.node ||
+      next.name !== this.name ||
+      next.timestamp - this.timestamp > MERGE_WINDOW
+    ) {
+      return false;
+    }
+    this.newValue = next.newValue;
+    this.timestamp = next.timestamp;
+    return true;
+  }
+
+  private apply(value: unknown): void {
+    this.node.setProperty(this.name, snapshotValue(value));
+  }
+}
+
+/**
+ * Edit of a value a node keeps outside its properties (e.g. the position of a
+ * node's slider), applied through the node's setter
+ */
+export class SetValueCommand<T> implements Command {
+  readonly label: string;
+  private timestamp = Date.now();
+  private oldValue: T;
+  private newValue: T;
+
+  constructor(
+    private node: Node,
+    private name: string,
+    oldValue: T,
+    newValue: T,
+    private setValue: (value: T) => void
+  ) {
+    this.label = `Set ${node.label}.${name}`;
+    this.oldValue = snapshotValue(oldValue);
+    this.newValue = snapshotValue(newValue);
+  }
+
+  execute(): void {
+    this.apply(this.newValue);
+  }
+
+  undo(): void {
+    this.apply(this.oldValue);
+  }
+
+  merge(next: Command): boolean {
+    if (
+      !(next instanceof SetValueCommand) ||
+      next.node !== this.node ||
+      next.name !== this.name ||
+      next.timestamp - this.timestamp > MERGE_WINDOW
+    ) {
+      return false;
+    }
+    this.newValue = next.newValue;
+    this.timestamp = next.timestamp;
+    return true;
+  }
+
+  private apply(value: T): void {
+    this.setValue(snapshotValue(value));
+    this.node.markDownstreamDirty();
+    this.node.graph?.emit({ type: 'propertyChanged', node: this.node, name: this.name });
+  }
+}
+
+// Tracks are immutable (see keyframes.ts), so they are kept without copying
+export class SetKeyframesCommand implements Command {
+  readonly label: string;
+  private timestamp = Date.now();
+
+  constructor(
+    private node: Node,
+    private target: KeyframeTarget,
+    private name: string,
+    private oldTrack: KeyframeTrack | null,
+    private newTrack: KeyframeTrack | null
+  ) {
+    this.label = `Keyframe ${node.label}.${name}`;
+  }
+
+  execute(): void {
+    this.apply(this.newTrack);
+  }
+
+  undo(): void {
+    this.apply(this.oldTrack);
+  }
+
+  merge(next: Command): boolean {
+    if (
+      !(next instanceof SetKeyframesCommand) ||
+      next.node !== this.node ||
+      next.target !== this.target ||
+      next.name !== this.name ||
+      next.timestamp - this.timestamp > MERGE_WINDOW
+    ) {
+      return false;
+    }
+    this.newTrack = next.newTrack;
+    this.timestamp = next.timestamp;
+    return true;
+  }
+
+  private apply(track: KeyframeTrack | null): void {
+    this.node.setKeyframeTrack(this.target, this.name, track);
+    this.node.markDownstreamDirty();
+    this.node.graph?.triggerChange();
+  }
+}
+
+/**
+ * Freezing or unfreezing a node, with the outputs it kept, so undoing an unfreeze
+ * locks the same results again
+ */
+export class SetFrozenCommand implements Command {
+  readonly label: string;
+
+  constructor(
+    private node: Node,
+    private oldFrozen: boolean,
+    private oldOutputs: Map<string, PortValue> | null,
+    private newFrozen: boolean,
+    private newOutputs: Map<string, PortValue> | null
+  ) {
+    this.label = `${newFrozen ? 'Freeze' : 'Unfreeze'} ${node.label}`;
+  }
+
+  execute(): void {
+    this.node.setFrozen(this.newFrozen, this.newOutputs);
+    this.node.graph?.triggerChange();
+  }
+
+  undo(): void {
+    this.node.setFrozen(this.oldFrozen, this.oldOutputs);
+    this.node.graph?.triggerChange();
+  }
+}
+
+export class SetBypassedCommand implements Command {
+  readonly label: string;
+
+  constructor(
+    private node: Node,
+    private bypassed: boolean
+  ) {
+    this.label = `${bypassed ? 'Bypass' : 'Unbypass'} ${node.label}`;
+  }
+
+  execute(): void {
+    this.node.setBypassed(this.bypassed);
+    this.node.graph?.triggerChange();
+  }
+
+  undo(): void {
+    this.node.setBypassed(!this.bypassed);
+    this.node.graph?.triggerChange();
+  }
+}
+
+export class SetParameterCommand implements Command {
+  readonly label: string;
+  private timestamp = Date.now();
+  private oldValue: ParameterValue;
+  private newValue: ParameterValue;
+
+  constructor(
+    private graph: Graph,
+    private name: string,
+    oldValue: ParameterValue,
+    newValue: ParameterValue
+  ) {
+    this.label = `Set parameter ${name}`;
+    this.oldValue = snapshotValue(oldValue);
+    this.newValue = snapshotValue(newValue);
+  }
+
+  execute(): void {
+    this.graph.setParameterValue(this.name, snapshotValue(this.newValue));
+  }
+
+  undo(): void {
+    this.graph.setParameterValue(this.name, snapshotValue(this.oldValue));
+  }
+
+  merge(next: Command): boolean {
+    if (
+      !(next instanceof SetParameterCommand) ||
+      next.graph !== this.graph ||
+      next.name !== this.name ||
+      next.timestamp - this.timestamp > MERGE_WINDOW
+    ) {
+      return false;
+    }
+    this.newValue = next.newValue;
+    this.timestamp = next.timestamp;
+    return true;
+  }
+}
+
+export class AddParameterCommand implements Command {
+  readonly label: string;
+
+  /**
+   * @param replaced - Parameter of the same name that was replaced, if any
+   */
+  constructor(
+    private graph: Graph,
+    private parameter: GraphParameter,
+    private replaced?: GraphParameter
+  ) {
+    this.label = `Add parameter ${parameter.name}`;
+  }
+
+  execute(): void {
+    this.graph.addParameter(this.parameter);
+  }
+
+  undo(): void {
+    if (this.replaced) {
+      this.graph.addParameter(this.replaced);
+    } else {
+      this.graph.removeParameter(this.parameter.name);
+    }
+  }
+}
+
+export class RemoveParameterCommand implements Command {
+  readonly label: string;
+
+  constructor(
+    private graph: Graph,
+    private parameter: GraphParameter
+  ) {
+    this.label = `Remove parameter ${parameter.name}`;
+  }
+
+  execute(): void {
+    this.graph.removeParameter(this.parameter.name);
+  }
+
+  undo(): void {
+    this.graph.addParameter(this.parameter);
+  }
+}
+
+export class SetSeedCommand implements Command {
+  readonly label = 'Set seed';
+  private timestamp = Date.now();
+
+  constructor(
+    private graph: Graph,
+    private oldSeed: number,
+    private newSeed: number
+  ) {}
+
+  execute(): void {
+    this.graph.setSeed(this.newSeed);
+  }
+
+  undo(): void {
+    this.graph.setSeed(this.oldSeed);
+  }
+
+  merge(next: Command): boolean {
+    if (
+      !(next instanceof SetSeedCommand) ||
+      next.graph !== this.graph ||
+      next.timestamp - this.timestamp > MERGE_WINDOW
+    ) {
+      return false;
+    }
+    this.newSeed = next.newSeed;
+    this.timestamp = next.timestamp;
+    return true;
+  }
+}
+
+export class MoveNodesCommand implements Command {
+  private timestamp = Date.now();
+
+  constructor(
+    private graph: Graph,
+    private from: NodePositions,
+    private to: NodePositions,
+    public readonly label: string = 'Move nodes'
+  ) {}
+
+  /**
+   * Whether any node actually changed position
+   */
+  hasChanges(): boolean {
+    for (const [id, to] of this.to) {
+      const from = this.from.get(id);
+      if (!from || from.x !== to.x || from.y !== to.y) return true;
+    }
+    return false;
+  }
+
+  execute(): void {
+    this.apply(this.to);
+  }
+
+  undo(): void {
+    this.apply(this.from);
+  }
+
+  // Merges repeated moves with the same label (e.g. tweaking auto-layout spacing)
+  merge(next: Command): boolean {
+    if (
+      !(next instanceof MoveNodesCommand) ||
+      next.label !== this.label ||
+      next.timestamp - this.timestamp > MERGE_WINDOW
+    ) {
+      return false;
+    }
+    for (const [id, position] of next.to) {
+      if (!this.from.has(id)) {
+        this.from.set(id, next.from.get(id) ?? position);
+      }
+      this.to.set(id, position);
+    }
+    this.timestamp = next.timestamp;
+    return true;
+  }
+
+  private apply(positions: NodePositions): void {
+    const moved: Node[] = [];
+    for (const [id, position] of positions) {
+      const node = this.graph.getNode(id);
+      if (node) {
+        node.position = { ...position };
+        moved.push(node);
+      }
+    }
+    this.graph.emit({ type: 'positionChanged', nodes: moved });
+  }
+}
+
+/**
+ * Dispose a node removed from its graph for good. Removing a node doesn't dispose it,
+ * since undoing puts the same node back.
+ */
+export function disposeRemovedNode(node: Node): void {
+  if (!node.graph) node.dispose();
+}
+
+/**
+ * Snapshot current positions of the given nodes
+ */
+export function captureNodePositions(nodes: Iterable<Node>): NodePositions {
+  const positions: NodePositions = new Map();
+  for (const node of nodes) {
+    positions.set(node.id, { ...node.position });
+  }
+  return positions;
+}
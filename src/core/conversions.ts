@@ -0,0 +1,119 @@
+import * as THREE from 'three';
+import { PortType, PortValue } from '@/types';
+import { DataTree } from './DataTree';
+
+/**
+ * A cast from one port type to another, applied by edges whose ports don't share a type
+ */
+export interface TypeConversion {
+  from: PortType;
+  to: PortType;
+  label: string;
+  // Called once per item; with `list`, once per list (branch) of items instead
+  convert: (value: unknown) => unknown;
+  list?: boolean;
+  // Lossy or ambiguous casts: the editor offers to insert this node type instead
+  lossy?: boolean;
+  converterNode?: string;
+}
+
+/**
+ * Implicit casts between port types, looked up when ports are connected
+ */
+export class ConversionTable {
+  private conversions: Map<string, TypeConversion> = new Map();
+
+  register(conversion: TypeConversion): void {
+    this.conversions.set(this.key(conversion.from, conversion.to), conversion);
+  }
+
+  find(from: PortType, to: PortType): TypeConversion | undefined {
+    return this.conversions.get(this.key(from, to));
+  }
+
+  getAll(): TypeConversion[] {
+    return Array.from(this.conversions.values());
+  }
+
+  private key(from: PortType, to: PortType): string {
+    return `${from}->${to}`;
+  }
+}
+
+/**
+ * Convert a port value, item by item for lists and branch by branch for trees
+ */
+export function applyConversion(conversion: TypeConversion, value: PortValue): PortValue {
+  if (value === undefined || value === null) return value;
+
+  const convertItems = (items: unknown[]): unknown[] =>
+    conversion.list ? [conversion.convert(items)] : items.map(conversion.convert);
+
+  if (value instanceof DataTree) {
+    return value.mapBranches(convertItems);
+  }
+  if (Array.isArray(value)) {
+    return conversion.list ? conversion.convert(value) : value.map(conversion.convert);
+  }
+  return conversion.list ? conversion.convert([value]) : conversion.convert(value);
+}
+
+function findGeometry(object: THREE.Object3D): THREE.BufferGeometry | undefined {
+  let geometry: THREE.BufferGeometry | undefined;
+  object.traverse((child) => {
+    if (!geometry && child instanceof THREE.Mesh) {
+      geometry = child.geometry;
+    }
+  });
+  return geometry;
+}
+
+export const conversions = new ConversionTable();
+
+conversions.register({
+  from: PortType.Number,
+  to: PortType.Vector3,
+  label: 'Number to Vector3 (x = y = z)',
+  convert: (value) => (typeof value === 'number' ? new THREE.Vector3(value, value, value) : value),
+});
+
+conversions.register({
+  from: PortType.Color,
+  to: PortType.Vector3,
+  label: 'Color to Vector3 (r, g, b)',
+  convert: (value) =>
+    value instanceof THREE.Color ? new THREE.Vector3(value.r, value.g, value.b) : value,
+});
+
+conversions.register({
+  from: PortType.Euler,
+  to: PortType.Quaternion,
+  label: 'Euler to Quaternion',
+  convert: (value) =>
+    value instanceof THREE.Euler ? new THREE.Quaternion().setFromEuler(value) : value,
+});
+
+conversions.register({
+  from: PortType.Vector3,
+  to: PortType.BufferAttribute,
+  label: 'Vector3 list to Float32 attribute (item size 3)',
+  list: true,
+  convert: (value) => {
+    const vectors = (value as unknown[]).filter(
+      (item): item is THREE.Vector3 => item instanceof THREE.Vector3
+    );
+    const array = new Float32Array(vectors.length * 3);
+    vectors.forEach((vector, i) => vector.toArray(array, i * 3));
+    return new THREE.Float32BufferAttribute(array, 3);
+  },
+});
+
+// Groups and scenes can hold several meshes, so this takes the first one found
+conversions.register({
+  from: PortType.Object3D,
+  to: PortType.Geometry,
+  label: 'Object3D to its geometry',
+  convert: (value) => (value instanceof THREE.Object3D ? findGeometry(value) : value),
+  lossy: true,
+  converterNode: 'ObjectGeometryNode',
+});
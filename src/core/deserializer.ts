@@ -1,49 +1,115 @@
 import { Graph } from './Graph';
 import { SerializedGraph } from './types';
+import { PortValue } from '@/types';
 import { NodeRegistry } from '@/three/NodeRegistry';
+import { PlaceholderNode } from '@/three/nodes/placeholder/PlaceholderNode';
+import { migrateGraph } from './migrations';
+import { valueCodecs } from './codecs';
+import { assetStore } from './assets';
+import { ParameterValue } from './parameters';
+import { deserializeKeyframeTrack } from './keyframes';
 
-export function deserializeGraph(data: SerializedGraph, registry: NodeRegistry): Graph {
+export function deserializeGraph(saved: SerializedGraph, registry: NodeRegistry): Graph {
   const graph = new Graph();
+  const data = migrateGraph(saved, registry);
 
-  // Version check and migration would go here
-  if (data.version !== '1.0.0') {
-    console.warn(`Graph version ${data.version} may need migration`);
+  // Inlined files go to the asset store, where nodes load them from when evaluated
+  if (data.assetData) {
+    assetStore.import(data.assetData);
   }
 
+  // Graph parameters, read by Parameter nodes
+  for (const parameter of data.parameters ?? []) {
+    graph.addParameter({
+      ...parameter,
+      value: valueCodecs.decode(parameter.value) as ParameterValue,
+    });
+  }
+
+  graph.setSeed(data.seed ?? 0);
+
   // Create nodes
   for (const nodeData of data.nodes) {
-    const node = registry.createNode(nodeData.type, nodeData.id);
-    if (node) {
-      node.label = nodeData.label;
-      node.position = nodeData.position;
-
-      // Restore custom dimensions if set
-      if (nodeData.customWidth !== undefined) {
-        node.customWidth = nodeData.customWidth;
+    let node = registry.createNode(nodeData.type, nodeData.id);
+
+    // Group instances carry their own subgraph, so they still load if their saved type is gone
+    if (!node && nodeData.subgraph) {
+      node = registry.createNode('GroupNode', nodeData.id);
+      if (node) {
+        node.type = nodeData.type;
       }
-      if (nodeData.customHeight !== undefined) {
-        node.customHeight = nodeData.customHeight;
+    }
+
+    // Unknown types keep their data and connections, and show an error
+    if (!node) {
+      console.warn(`Unknown node type: ${nodeData.type}`);
+      node = new PlaceholderNode(nodeData, data.edges);
+    }
+
+    node.label = nodeData.label;
+    node.position = nodeData.position;
+
+    // Restore custom dimensions if set
+    if (nodeData.customWidth !== undefined) {
+      node.customWidth = nodeData.customWidth;
+    }
+    if (nodeData.customHeight !== undefined) {
+      node.customHeight = nodeData.customHeight;
+    }
+
+    // Restore node-specific state (may create ports that edges below refer to)
+    if (nodeData.state) {
+      node.restoreState(nodeData.state);
+    }
+
+    // Restore nested graph of group nodes
+    if (nodeData.subgraph && 'setSubgraph' in node && typeof node.setSubgraph === 'function') {
+      node.setSubgraph(deserializeGraph(nodeData.subgraph, registry));
+    }
+
+    // Restore properties if they exist
+    if (nodeData.properties) {
+      for (const [name, value] of Object.entries(nodeData.properties)) {
+        node.setProperty(name, valueCodecs.decode(value));
       }
+    }
 
-      // Restore properties if they exist
-      if (nodeData.properties) {
-        for (const [name, value] of Object.entries(nodeData.properties)) {
-          node.setProperty(name, value);
-        }
+    // Set input values
+    for (const [name, value] of Object.entries(nodeData.inputs)) {
+      const port = node.inputs.get(name);
+      if (port && value !== undefined) {
+        port.value = valueCodecs.decode(value) as PortValue;
       }
+    }
+
+    // Keyframes are applied to the properties and inputs when evaluated
+    for (const data of nodeData.keyframes ?? []) {
+      const track = deserializeKeyframeTrack(data);
+      node.setKeyframeTrack(track.target, track.name, track);
+    }
 
-      // Set input default values
-      for (const [name, value] of Object.entries(nodeData.inputs)) {
-        const port = node.inputs.get(name);
-        if (port && value !== undefined) {
-          port.value = value;
-        }
+    if (nodeData.bypassed) {
+      node.setBypassed(true);
+    }
+
+    // Saved results stand in until the node is evaluated again
+    const outputs = new Map<string, PortValue>();
+    for (const [name, value] of Object.entries(nodeData.outputs ?? {})) {
+      const port = node.outputs.get(name);
+      if (port) {
+        port.value = valueCodecs.decode(value) as PortValue;
+        outputs.set(name, port.value);
       }
+    }
 
-      graph.addNode(node);
-    } else {
-      console.warn(`Unknown node type: ${nodeData.type}`);
+    // Frozen nodes keep them, unless some couldn't be saved; then they lock the
+    // results of their first evaluation
+    if (nodeData.frozen) {
+      const complete = Array.from(node.outputs.keys()).every((name) => outputs.has(name));
+      node.setFrozen(true, complete ? outputs : null);
     }
+
+    graph.addNode(node);
   }
 
   // Create edges
@@ -57,10 +123,18 @@ export function deserializeGraph(data: SerializedGraph, registry: NodeRegistry):
 
       if (sourcePort && targetPort) {
         graph.connect(sourcePort, targetPort);
+      } else {
+        console.warn(
+          `Dropped connection ${edgeData.sourceNodeId}.${edgeData.sourcePortName} -> ` +
+            `${edgeData.targetNodeId}.${edgeData.targetPortName}: port not found`
+        );
       }
     }
   }
 
+  // Loading is not an undoable edit
+  graph.history.clear();
+
   return graph;
 }
 
@@ -0,0 +1,516 @@
+import * as THREE from 'three';
+
+export type ExpressionValue = number | boolean | THREE.Vector3;
+
+// Parsed formula; evaluated by walking the tree, never through eval or new Function
+type Term =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; operator: string; operand: Term }
+  | { kind: 'binary'; operator: string; left: Term; right: Term }
+  | { kind: 'conditional'; condition: Term; then: Term; otherwise: Term }
+  | { kind: 'member'; object: Term; name: string }
+  | { kind: 'call'; name: string; args: Term[] };
+
+interface Token {
+  type: 'number' | 'name' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+const CONSTANTS: Record<string, ExpressionValue> = {
+  pi: Math.PI,
+  tau: Math.PI * 2,
+  e: Math.E,
+  true: true,
+  false: false,
+};
+
+const MathUtils = THREE.MathUtils;
+
+// Applied per component when given vectors
+const SCALAR_FUNCTIONS: Record<string, (...args: number[]) => number | boolean> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  sign: Math.sign,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  trunc: Math.trunc,
+  fract: (x) => x - Math.floor(x),
+  exp: Math.exp,
+  log: Math.log,
+  log2: Math.log2,
+  log10: Math.log10,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+  hypot: Math.hypot,
+  // THREE.MathUtils, except the random ones, as results must only depend on the inputs
+  clamp: MathUtils.clamp,
+  lerp: MathUtils.lerp,
+  inverseLerp: MathUtils.inverseLerp,
+  mapLinear: MathUtils.mapLinear,
+  damp: MathUtils.damp,
+  pingpong: MathUtils.pingpong,
+  smoothstep: MathUtils.smoothstep,
+  smootherstep: MathUtils.smootherstep,
+  degToRad: MathUtils.degToRad,
+  radToDeg: MathUtils.radToDeg,
+  euclideanModulo: MathUtils.euclideanModulo,
+  isPowerOfTwo: MathUtils.isPowerOfTwo,
+  ceilPowerOfTwo: MathUtils.ceilPowerOfTwo,
+  floorPowerOfTwo: MathUtils.floorPowerOfTwo,
+};
+
+const VECTOR_FUNCTIONS: Record<string, (...args: ExpressionValue[]) => ExpressionValue> = {
+  vec3: (x = 0, y = x, z = y) => new THREE.Vector3(toNumber(x), toNumber(y), toNumber(z)),
+  length: (v) => toVector(v).length(),
+  normalize: (v) => toVector(v).clone().normalize(),
+  dot: (a, b) => toVector(a).dot(toVector(b)),
+  cross: (a, b) => new THREE.Vector3().crossVectors(toVector(a), toVector(b)),
+  distance: (a, b) => toVector(a).distanceTo(toVector(b)),
+};
+
+// Members readable with a dot (p.x, c.r); others, like constructor, are off limits
+const MEMBERS = new Set(['x', 'y', 'z', 'w', 'r', 'g', 'b']);
+
+// Binding strength of binary operators; ^ and ** are right-associative
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3,
+  '!=': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  '%': 6,
+  '^': 8,
+  '**': 8,
+};
+const UNARY_PRECEDENCE = 7;
+
+const OPERATORS = ['**', '<=', '>=', '==', '!=', '&&', '||', ...'+-*/%^()<>!?:,.'];
+
+/**
+ * A math formula such as `a * sin(t * 2) + b`, parsed once and evaluated for
+ * given variable values. Supports numbers, booleans and vectors (vec3(), p.x),
+ * arithmetic, comparisons, `? :`, Math and THREE.MathUtils functions.
+ * Syntax errors throw when parsing, type errors when evaluating.
+ */
+export class Expression {
+  readonly source: string;
+  readonly variables: string[]; // Free variables, in order of appearance
+  private root: Term;
+
+  constructor(source: string) {
+    this.source = source;
+    this.root = new Parser(source).parse();
+
+    const variables = new Set<string>();
+    collectVariables(this.root, variables);
+    this.variables = Array.from(variables);
+  }
+
+  evaluate(scope: Record<string, unknown>): ExpressionValue {
+    const result = evaluateTerm(this.root, scope);
+    // Don't hand out the input vectors themselves
+    return result instanceof THREE.Vector3 ? result.clone() : result;
+  }
+}
+
+// Recursive descent parser, with precedence climbing for binary operators
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Term {
+    const term = this.parseBinary(0);
+    if (this.peek().type !== 'end') {
+      this.fail(this.peek());
+    }
+    return term;
+  }
+
+  private parseBinary(minPrecedence: number): Term {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'operator' && token.text === '?' && minPrecedence === 0) {
+        this.next();
+        const then = this.parseBinary(0);
+        this.expect(':');
+        const otherwise = this.parseBinary(0);
+        left = { kind: 'conditional', condition: left, then, otherwise };
+        continue;
+      }
+
+      const precedence = token.type === 'operator' ? PRECEDENCE[token.text] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      this.next();
+
+      const rightAssociative = token.text === '^' || token.text === '**';
+      const right = this.parseBinary(rightAssociative ? precedence : precedence + 1);
+      left = { kind: 'binary', operator: token.text, left, right };
+    }
+  }
+
+  private parseUnary(): Term {
+    const token = this.peek();
+    if (
+      token.type === 'operator' &&
+      (token.text === '-' || token.text === '+' || token.text === '!')
+    ) {
+      this.next();
+      return { kind: 'unary', operator: token.text, operand: this.parseBinary(UNARY_PRECEDENCE) };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Term {
+    let term = this.parsePrimary();
+    while (this.peek().text === '.' && this.peek().type === 'operator') {
+      this.next();
+      const name = this.next();
+      if (name.type !== 'name' || !MEMBERS.has(name.text)) {
+        throw new Error(`Unknown member ".${name.text}" at ${name.position + 1}`);
+      }
+      term = { kind: 'member', object: term, name: name.text };
+    }
+    return term;
+  }
+
+  private parsePrimary(): Term {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { kind: 'number', value: Number(token.text) };
+    }
+
+    if (token.type === 'name') {
+      if (this.peek().text === '(') {
+        if (!has(SCALAR_FUNCTIONS, token.text) && !has(VECTOR_FUNCTIONS, token.text)) {
+          throw new Error(`Unknown function "${token.text}" at ${token.position + 1}`);
+        }
+        this.next();
+        const args: Term[] = [];
+        if (this.peek().text !== ')') {
+          do {
+            args.push(this.parseBinary(0));
+          } while (this.accept(','));
+        }
+        this.expect(')');
+        return { kind: 'call', name: token.text, args };
+      }
+      return { kind: 'variable', name: token.text };
+    }
+
+    if (token.text === '(') {
+      const term = this.parseBinary(0);
+      this.expect(')');
+      return term;
+    }
+
+    return this.fail(token);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private accept(text: string): boolean {
+    if (this.peek().type === 'operator' && this.peek().text === text) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) this.fail(this.peek(), `"${text}"`);
+  }
+
+  private fail(token: Token, expected?: string): never {
+    const found = token.type === 'end' ? 'end of expression' : `"${token.text}"`;
+    const hint = expected ? `, expected ${expected}` : '';
+    throw new Error(`Unexpected ${found} at ${token.position + 1}${hint}`);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(rest);
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    const operator = OPERATORS.find((candidate) => rest.startsWith(candidate));
+
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position });
+    } else if (name) {
+      tokens.push({ type: 'name', text: name[0], position });
+    } else if (operator) {
+      tokens.push({ type: 'operator', text: operator, position });
+    } else {
+      throw new Error(`Unexpected "${source[position]}" at ${position + 1}`);
+    }
+    position += tokens[tokens.length - 1].text.length;
+  }
+
+  tokens.push({ type: 'end', text: '', position });
+  return tokens;
+}
+
+function collectVariables(term: Term, variables: Set<string>): void {
+  switch (term.kind) {
+    case 'variable':
+      if (!has(CONSTANTS, term.name)) variables.add(term.name);
+      break;
+    case 'unary':
+      collectVariables(term.operand, variables);
+      break;
+    case 'binary':
+      collectVariables(term.left, variables);
+      collectVariables(term.right, variables);
+      break;
+    case 'conditional':
+      collectVariables(term.condition, variables);
+      collectVariables(term.then, variables);
+      collectVariables(term.otherwise, variables);
+      break;
+    case 'member':
+      collectVariables(term.object, variables);
+      break;
+    case 'call':
+      term.args.forEach((arg) => collectVariables(arg, variables));
+      break;
+  }
+}
+
+function evaluateTerm(term: Term, scope: Record<string, unknown>): ExpressionValue {
+  switch (term.kind) {
+    case 'number':
+      return term.value;
+
+    case 'variable': {
+      if (has(CONSTANTS, term.name)) return CONSTANTS[term.name];
+      return toExpressionValue(scope[term.name], term.name);
+    }
+
+    case 'unary': {
+      const operand = evaluateTerm(term.operand, scope);
+      if (term.operator === '!') return !toBoolean(operand);
+      if (term.operator === '-') {
+        return operand instanceof THREE.Vector3 ? operand.clone().negate() : -toNumber(operand);
+      }
+      return operand;
+    }
+
+    case 'binary': {
+      // Short-circuit like JavaScript
+      if (term.operator === '&&') {
+        return (
+          toBoolean(evaluateTerm(term.left, scope)) && toBoolean(evaluateTerm(term.right, scope))
+        );
+      }
+      if (term.operator === '||') {
+        return (
+          toBoolean(evaluateTerm(term.left, scope)) || toBoolean(evaluateTerm(term.right, scope))
+        );
+      }
+      return applyOperator(
+        term.operator,
+        evaluateTerm(term.left, scope),
+        evaluateTerm(term.right, scope)
+      );
+    }
+
+    case 'conditional':
+      return toBoolean(evaluateTerm(term.condition, scope))
+        ? evaluateTerm(term.then, scope)
+        : evaluateTerm(term.otherwise, scope);
+
+    case 'member': {
+      // Vectors are converted to Vector3, so read members from the raw input (e.g. Color.r)
+      const object =
+        term.object.kind === 'variable' && !has(CONSTANTS, term.object.name)
+          ? scope[term.object.name]
+          : evaluateTerm(term.object, scope);
+      const value =
+        typeof object === 'object' && object !== null
+          ? (object as Record<string, unknown>)[term.name]
+          : undefined;
+      if (typeof value !== 'number') {
+        throw new Error(`${describe(object)} has no member "${term.name}"`);
+      }
+      return value;
+    }
+
+    case 'call': {
+      const args = term.args.map((arg) => evaluateTerm(arg, scope));
+      if (has(VECTOR_FUNCTIONS, term.name)) {
+        return VECTOR_FUNCTIONS[term.name](...args);
+      }
+
+      const scalarFunction = SCALAR_FUNCTIONS[term.name];
+      if (!args.some((arg) => arg instanceof THREE.Vector3)) {
+        return scalarFunction(...args.map(toNumber));
+      }
+      const component = (axis: 'x' | 'y' | 'z') =>
+        toNumber(
+          scalarFunction(
+            ...args.map((arg) => (arg instanceof THREE.Vector3 ? arg[axis] : toNumber(arg)))
+          )
+        );
+      return new THREE.Vector3(component('x'), component('y'), component('z'));
+    }
+  }
+}
+
+function applyOperator(
+  operator: string,
+  left: ExpressionValue,
+  right: ExpressionValue
+): ExpressionValue {
+  const leftVector = left instanceof THREE.Vector3;
+  const rightVector = right instanceof THREE.Vector3;
+
+  if (operator === '==' || operator === '!=') {
+    const equal =
+      leftVector && rightVector
+        ? (left as THREE.Vector3).equals(right as THREE.Vector3)
+        : !leftVector && !rightVector && toNumber(left) === toNumber(right);
+    return operator === '==' ? equal : !equal;
+  }
+
+  if (!leftVector && !rightVector) {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    switch (operator) {
+      case '+':
+        return a + b;
+      case '-':
+        return a - b;
+      case '*':
+        return a * b;
+      case '/':
+        return a / b;
+      case '%':
+        return a % b;
+      case '^':
+      case '**':
+        return a ** b;
+      case '<':
+        return a < b;
+      case '<=':
+        return a <= b;
+      case '>':
+        return a > b;
+      case '>=':
+        return a >= b;
+    }
+  }
+
+  // Vectors combine per component, numbers apply to every component
+  const a = leftVector ? (left as THREE.Vector3) : null;
+  const b = rightVector ? (right as THREE.Vector3) : null;
+  const component = (axis: 'x' | 'y' | 'z') => {
+    const x = a ? a[axis] : toNumber(left);
+    const y = b ? b[axis] : toNumber(right);
+    switch (operator) {
+      case '+':
+        return x + y;
+      case '-':
+        return x - y;
+      case '*':
+        return x * y;
+      case '/':
+        return x / y;
+      case '%':
+        return x % y;
+      case '^':
+      case '**':
+        return x ** y;
+    }
+    throw new Error(`Can't compare ${describe(left)} and ${describe(right)} with ${operator}`);
+  };
+  return new THREE.Vector3(component('x'), component('y'), component('z'));
+}
+
+// Input values the expression works with: numbers, booleans and vectors
+function toExpressionValue(value: unknown, name: string): ExpressionValue {
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof THREE.Vector3) return value;
+  if (value instanceof THREE.Vector2) return new THREE.Vector3(value.x, value.y, 0);
+  if (value instanceof THREE.Color) return new THREE.Vector3(value.r, value.g, value.b);
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  throw new Error(`Variable "${name}" is ${value === undefined ? 'not set' : describe(value)}`);
+}
+
+function toNumber(value: ExpressionValue): number {
+  if (value instanceof THREE.Vector3) {
+    throw new Error('Expected a number, got a vector');
+  }
+  return Number(value);
+}
+
+function toBoolean(value: ExpressionValue): boolean {
+  return value instanceof THREE.Vector3 ? value.lengthSq() > 0 : Boolean(value);
+}
+
+function toVector(value: ExpressionValue): THREE.Vector3 {
+  if (!(value instanceof THREE.Vector3)) {
+    throw new Error(`Expected a vector, got ${describe(value)}`);
+  }
+  return value;
+}
+
+// Own keys only, so names like constructor don't reach Object.prototype
+function has(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function describe(value: unknown): string {
+  if (value instanceof THREE.Vector3) return 'a vector';
+  if (value === null || value === undefined) return 'empty';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return `a ${value.constructor?.name ?? 'object'}`;
+  return `a ${typeof value}`;
+}
@@ -1,14 +1,91 @@
 export { Node } from './Node';
 export { Port } from './Port';
 export { Edge } from './Edge';
-export { Graph } from './Graph';
+export { Graph, GRAPH_EDIT_EVENTS } from './Graph';
+export type { GraphEvent, GraphEventType, GraphEventOf } from './Graph';
 export { Evaluator } from './Evaluator';
+export { CommandHistory } from './CommandHistory';
+export type { HistoryEntry } from './CommandHistory';
+export { DataTree, MATCHING_OPTIONS, matchItems } from './DataTree';
+export type { TreePath, TreeBranch, AccessMode, MatchingStrategy } from './DataTree';
+export { ConversionTable, conversions, applyConversion } from './conversions';
+export type { TypeConversion } from './conversions';
+export { ValueCodecRegistry, valueCodecs } from './codecs';
+export type { ValueCodec } from './codecs';
+export { AssetStore, assetStore, embedAssets, referencedAssets } from './assets';
+export type { StoredAsset, SerializedAsset } from './assets';
+export {
+  PARAMETER_PORT_TYPES,
+  defaultParameterValue,
+  parseParameterValue,
+  applyParameterOverrides,
+} from './parameters';
+export type { GraphParameter, ParameterType, ParameterValue } from './parameters';
+export { Expression } from './expression';
+export type { ExpressionValue } from './expression';
+export { Transport } from './Transport';
+export type { TransportMode, TransportTime } from './Transport';
+export {
+  EASING_HANDLES,
+  EASING_OPTIONS,
+  sampleTrack,
+  cubicBezier,
+  createKeyframeTrack,
+  findKeyframe,
+  withKeyframe,
+  withKeyframeChanges,
+  withoutKeyframe,
+  keyframeValueType,
+  portKeyframeType,
+  parseKeyframeValue,
+  formatKeyframeValue,
+} from './keyframes';
+export type {
+  Keyframe,
+  KeyframeTrack,
+  KeyframeTarget,
+  KeyframeValue,
+  KeyframeValueType,
+  Easing,
+  BezierHandles,
+} from './keyframes';
+export { Random, RandomService, hashSeed } from './random';
+export { Profiler } from './Profiler';
+export type { NodeProfile, ProfileExport } from './Profiler';
+export { MemoCache, memoCache } from './MemoCache';
+export type { MemoLimits, MemoResult } from './MemoCache';
+export {
+  CompositeCommand,
+  AddNodeCommand,
+  RemoveNodeCommand,
+  ConnectCommand,
+  DisconnectCommand,
+  SetPropertyCommand,
+  SetValueCommand,
+  SetKeyframesCommand,
+  SetFrozenCommand,
+  SetBypassedCommand,
+  SetParameterCommand,
+  AddParameterCommand,
+  RemoveParameterCommand,
+  SetSeedCommand,
+  MoveNodesCommand,
+  captureNodePositions,
+} from './commands';
+export type { Command, NodePositions } from './commands';
 export { serializeGraph, serializeGraphToJSON } from './serializer';
+export type { SerializeOptions } from './serializer';
 export { deserializeGraph, deserializeGraphFromJSON } from './deserializer';
+export { CURRENT_VERSION, migrateGraph, registerGraphMigration } from './migrations';
+export type { GraphMigration } from './migrations';
 export type {
   EvaluationContext,
   SerializedGraph,
   SerializedNode,
   SerializedEdge,
+  SerializedParameter,
+  SerializedKeyframeTrack,
   PortSchema,
+  SubgraphRunner,
+  SubgraphNodeResult,
 } from './types';
@@ -0,0 +1,277 @@
+import * as THREE from 'three';
+import { PortType, PortDataType } from '@/types';
+import { valueCodecs } from './codecs';
+import type { SerializedKeyframeTrack } from './types';
+
+// Colors are THREE.Color, or hex strings such as '#ff8800' for color properties
+export type KeyframeValue = number | boolean | string | THREE.Vector3 | THREE.Color;
+
+export type KeyframeValueType = 'number' | 'boolean' | 'vector3' | 'color';
+
+export type KeyframeTarget = 'property' | 'input';
+
+export type Easing = 'linear' | 'step' | 'easeIn' | 'easeOut' | 'easeInOut' | 'bezier';
+
+// Tangents of a segment as CSS cubic-bezier(x1, y1, x2, y2) control points, in
+// segment space: time and progress from 0 to 1
+export type BezierHandles = [number, number, number, number];
+
+export interface Keyframe {
+  time: number; // Seconds
+  value: KeyframeValue;
+  easing: Easing; // Of the segment to the next keyframe
+  handles?: BezierHandles; // For 'bezier' easing
+}
+
+/**
+ * The keyframes of a node property or unconnected input, sorted by time.
+ * Tracks and keyframes are treated as immutable, so undo history can keep them;
+ * the helpers below return changed copies.
+ */
+export interface KeyframeTrack {
+  target: KeyframeTarget;
+  name: string;
+  type: KeyframeValueType;
+  keys: Keyframe[];
+}
+
+export const EASING_HANDLES: Record<Exclude<Easing, 'step' | 'bezier'>, BezierHandles> = {
+  linear: [0, 0, 1, 1],
+  easeIn: [0.42, 0, 1, 1],
+  easeOut: [0, 0, 0.58, 1],
+  easeInOut: [0.42, 0, 0.58, 1],
+};
+
+export const EASING_OPTIONS: Record<string, Easing> = {
+  Linear: 'linear',
+  Step: 'step',
+  'Ease In': 'easeIn',
+  'Ease Out': 'easeOut',
+  'Ease In Out': 'easeInOut',
+  Bezier: 'bezier',
+};
+
+const PORT_KEYFRAME_TYPES: Partial<Record<PortDataType, KeyframeValueType>> = {
+  [PortType.Number]: 'number',
+  [PortType.Boolean]: 'boolean',
+  [PortType.Vector3]: 'vector3',
+  [PortType.Color]: 'color',
+};
+
+// Keys closer in time than this are the same key
+const TIME_EPSILON = 1e-6;
+
+export function keyframeTrackKey(target: KeyframeTarget, name: string): string {
+  return `${target}:${name}`;
+}
+
+/**
+ * How a value can be keyframed, or undefined if it can't
+ */
+export function keyframeValueType(value: unknown): KeyframeValueType | undefined {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof THREE.Vector3) return 'vector3';
+  if (value instanceof THREE.Color) return 'color';
+  if (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)) return 'color';
+  return undefined;
+}
+
+// How values of inputs of the type can be keyframed, or undefined if they can't
+export function portKeyframeType(type: PortDataType): KeyframeValueType | undefined {
+  return PORT_KEYFRAME_TYPES[type];
+}
+
+/**
+ * The track's value at a time: held before the first and after the last keyframe,
+ * and eased between them by the easing of the keyframe a segment starts at
+ */
+export function sampleTrack(track: KeyframeTrack, time: number): KeyframeValue | undefined {
+  const keys = track.keys;
+  if (keys.length === 0) return undefined;
+  if (time <= keys[0].time) return copyValue(keys[0].value);
+  if (time >= keys[keys.length - 1].time) return copyValue(keys[keys.length - 1].value);
+
+  let index = 0;
+  while (keys[index + 1].time <= time) index++;
+  const from = keys[index];
+  const to = keys[index + 1];
+  const progress = easeSegment(from, (time - from.time) / (to.time - from.time));
+  return interpolate(from.value, to.value, progress);
+}
+
+/**
+ * Progress through the segment starting at the keyframe, at a fraction of its time
+ */
+export function easeSegment(key: Keyframe, x: number): number {
+  if (key.easing === 'step') return 0;
+  return cubicBezier(easingHandles(key), x);
+}
+
+export function easingHandles(key: Keyframe): BezierHandles {
+  if (key.easing === 'bezier') return key.handles ?? EASING_HANDLES.linear;
+  if (key.easing === 'step') return EASING_HANDLES.linear;
+  return EASING_HANDLES[key.easing];
+}
+
+// Booleans switch at the next keyframe
+function interpolate(from: KeyframeValue, to: KeyframeValue, progress: number): KeyframeValue {
+  if (typeof from === 'number' && typeof to === 'number') {
+    return from + (to - from) * progress;
+  }
+  if (from instanceof THREE.Vector3 && to instanceof THREE.Vector3) {
+    return from.clone().lerp(to, progress);
+  }
+  if (keyframeValueType(from) === 'color' && keyframeValueType(to) === 'color') {
+    const color = new THREE.Color(from as string | THREE.Color).lerp(
+      new THREE.Color(to as string | THREE.Color),
+      progress
+    );
+    return typeof from === 'string' ? `#${color.getHexString()}` : color;
+  }
+  return progress < 1 ? copyValue(from) : copyValue(to);
+}
+
+/**
+ * y of the cubic Bézier curve through (0, 0) and (1, 1) with these control points
+ * at x (solved for the curve parameter like CSS timing functions)
+ */
+export function cubicBezier([x1, y1, x2, y2]: BezierHandles, x: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const bezier = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+
+  // Bisection, as x is monotonic in the parameter while x1 and x2 are within 0..1
+  let low = 0;
+  let high = 1;
+  let t = x;
+  for (let i = 0; i < 30; i++) {
+    const value = bezier(t, x1, x2);
+    if (Math.abs(value - x) < 1e-7) break;
+    if (value < x) low = t;
+    else high = t;
+    t = (low + high) / 2;
+  }
+  return bezier(t, y1, y2);
+}
+
+export function createKeyframeTrack(
+  target: KeyframeTarget,
+  name: string,
+  type: KeyframeValueType
+): KeyframeTrack {
+  return { target, name, type, keys: [] };
+}
+
+// Index of the keyframe at the time, or -1
+export function findKeyframe(track: KeyframeTrack, time: number): number {
+  return track.keys.findIndex((key) => Math.abs(key.time - time) < TIME_EPSILON);
+}
+
+/**
+ * Copy of the track with a keyframe set at the time (keeping the easing of one
+ * already there)
+ */
+export function withKeyframe(
+  track: KeyframeTrack,
+  time: number,
+  value: KeyframeValue
+): KeyframeTrack {
+  const index = findKeyframe(track, time);
+  if (index >= 0) {
+    return withKeyframeChanges(track, index, { value: copyValue(value) });
+  }
+  const keys = [...track.keys, { time, value: copyValue(value), easing: 'linear' as Easing }];
+  return { ...track, keys: keys.sort((a, b) => a.time - b.time) };
+}
+
+/**
+ * Copy of the track with changes to one keyframe (moving it keeps the keys sorted)
+ */
+export function withKeyframeChanges(
+  track: KeyframeTrack,
+  index: number,
+  changes: Partial<Keyframe>
+): KeyframeTrack {
+  const keys = track.keys.map((key, i) => (i === index ? { ...key, ...changes } : key));
+  return { ...track, keys: keys.sort((a, b) => a.time - b.time) };
+}
+
+export function withoutKeyframe(track: KeyframeTrack, index: number): KeyframeTrack {
+  return { ...track, keys: track.keys.filter((_key, i) => i !== index) };
+}
+
+/**
+ * The numbers plotted for a value in the curve editor: the value, the x, y, z of
+ * vectors, the r, g, b of colors, or 0 and 1 for booleans
+ */
+export function keyframeChannels(value: KeyframeValue): number[] {
+  if (typeof value === 'number') return [value];
+  if (typeof value === 'boolean') return [value ? 1 : 0];
+  if (value instanceof THREE.Vector3) return [value.x, value.y, value.z];
+  const color = new THREE.Color(value);
+  return [color.r, color.g, color.b];
+}
+
+// Text for a value, as read back by parseKeyframeValue
+export function formatKeyframeValue(value: KeyframeValue): string {
+  if (value instanceof THREE.Vector3) return `${value.x}, ${value.y}, ${value.z}`;
+  if (value instanceof THREE.Color) return `#${value.getHexString()}`;
+  return String(value);
+}
+
+/**
+ * Read a value of the type written as text: numbers, true/false, "x, y, z" and
+ * hex colors. Returns undefined if the text doesn't fit the type.
+ */
+export function parseKeyframeValue(
+  type: KeyframeValueType,
+  text: string,
+  like?: KeyframeValue
+): KeyframeValue | undefined {
+  switch (type) {
+    case 'number': {
+      const value = Number(text);
+      return text.trim() === '' || Number.isNaN(value) ? undefined : value;
+    }
+    case 'boolean':
+      if (text === 'true' || text === '1') return true;
+      if (text === 'false' || text === '0') return false;
+      return undefined;
+    case 'vector3': {
+      const components = text.split(',').map(Number);
+      if (components.length !== 3 || components.some(Number.isNaN)) return undefined;
+      return new THREE.Vector3().fromArray(components);
+    }
+    case 'color': {
+      const hex = (text.startsWith('#') ? text : `#${text}`).toLowerCase();
+      if (!/^#[0-9a-f]{6}$/.test(hex)) return undefined;
+      // Properties keep colors as hex strings, inputs as THREE.Color
+      return typeof like === 'string' ? hex : new THREE.Color(hex);
+    }
+  }
+}
+
+// Keyframe values are encoded like other saved values (see codecs)
+export function serializeKeyframeTrack(track: KeyframeTrack): SerializedKeyframeTrack {
+  return {
+    ...track,
+    keys: track.keys.map((key) => ({ ...key, value: valueCodecs.encode(key.value) })),
+  };
+}
+
+export function deserializeKeyframeTrack(data: SerializedKeyframeTrack): KeyframeTrack {
+  return {
+    ...data,
+    keys: data.keys.map((key) => ({
+      ...key,
+      value: valueCodecs.decode(key.value) as KeyframeValue,
+    })),
+  };
+}
+
+function copyValue(value: KeyframeValue): KeyframeValue {
+  return value instanceof THREE.Vector3 || value instanceof THREE.Color ? value.clone() : value;
+}
@@ -0,0 +1,138 @@
+import { SerializedGraph, SerializedNode } from './types';
+import { NodeMigration } from '@/types';
+import { NodeRegistry } from '@/three/NodeRegistry';
+
+// Version of the saved graph format written by serializeGraph
+export const CURRENT_VERSION = '1.2.0';
+
+/**
+ * Upgrade of the saved graph format from one version to the next
+ */
+export interface GraphMigration {
+  from: string;
+  to: string;
+  migrate: (data: SerializedGraph) => SerializedGraph;
+}
+
+const graphMigrations: Map<string, GraphMigration> = new Map();
+
+export function registerGraphMigration(migration: GraphMigration): void {
+  graphMigrations.set(migration.from, migration);
+}
+
+// 1.1.0 adds per-node versions (SerializedNode.version); older saves only have version 1 nodes
+registerGraphMigration({ from: '1.0.0', to: '1.1.0', migrate: (data) => data });
+
+// 1.2.0 saves non-primitive values with type tags (see codecs); untagged values decode as is
+registerGraphMigration({ from: '1.1.0', to: '1.2.0', migrate: (data) => data });
+
+/**
+ * Upgrade saved graph data to the current format and node versions, step by step:
+ * first the graph format, then each node with the migrations of its type (see
+ * NodeMetadata.migrations and NodeRegistry.registerLegacyType). The data is copied,
+ * not changed. Nested subgraphs are migrated when they are deserialized.
+ */
+export function migrateGraph(data: SerializedGraph, registry: NodeRegistry): SerializedGraph {
+  let graph: SerializedGraph = {
+    ...data,
+    nodes: data.nodes.map((node) => ({
+      ...node,
+      inputs: { ...node.inputs },
+      properties: node.properties && { ...node.properties },
+      outputs: node.outputs && { ...node.outputs },
+      state: node.state && { ...node.state },
+      keyframes: node.keyframes && [...node.keyframes],
+    })),
+    edges: data.edges.map((edge) => ({ ...edge })),
+  };
+
+  while (graph.version !== CURRENT_VERSION) {
+    const migration = graphMigrations.get(graph.version);
+    if (!migration) {
+      console.warn(`No migration from graph version ${graph.version}, loading it as is`);
+      break;
+    }
+    graph = { ...migration.migrate(graph), version: migration.to };
+  }
+
+  // Migrations may add nodes, which are already current
+  for (const node of [...graph.nodes]) {
+    migrateNode(node, graph, registry);
+  }
+
+  return graph;
+}
+
+function migrateNode(node: SerializedNode, graph: SerializedGraph, registry: NodeRegistry): void {
+  // Removed or renamed types, possibly several times over
+  const seen = new Set<string>();
+  let legacy = registry.getLegacyMigration(node.type);
+  while (legacy && !seen.has(node.type)) {
+    seen.add(node.type);
+    applyMigration(node, legacy, graph);
+    node.version = 1;
+    legacy = registry.getLegacyMigration(node.type);
+  }
+
+  const metadata = registry.getMetadata(node.type);
+  if (!metadata) return; // Loaded as a placeholder
+
+  const current = metadata.version ?? 1;
+  let version = node.version ?? 1;
+  while (version < current) {
+    const migration = metadata.migrations?.find((m) => m.from === version);
+    if (!migration) {
+      console.warn(`No migration for ${node.type} from version ${version}`);
+      break;
+    }
+    applyMigration(node, migration, graph);
+    version++;
+  }
+  node.version = version;
+}
+
+function applyMigration(
+  node: SerializedNode,
+  migration: NodeMigration,
+  graph: SerializedGraph
+): void {
+  if (migration.type) {
+    node.type = migration.type;
+  }
+
+  for (const [from, to] of Object.entries(migration.inputs ?? {})) {
+    if (from in node.inputs) {
+      node.inputs[to] = node.inputs[from];
+      delete node.inputs[from];
+    }
+    for (const edge of graph.edges) {
+      if (edge.targetNodeId === node.id && edge.targetPortName === from) {
+        edge.targetPortName = to;
+      }
+    }
+  }
+
+  const outputs = node.outputs;
+  for (const [from, to] of Object.entries(migration.outputs ?? {})) {
+    // Saved results (e.g. of frozen nodes)
+    if (outputs && from in outputs) {
+      outputs[to] = outputs[from];
+      delete outputs[from];
+    }
+    for (const edge of graph.edges) {
+      if (edge.sourceNodeId === node.id && edge.sourcePortName === from) {
+        edge.sourcePortName = to;
+      }
+    }
+  }
+
+  const properties = node.properties;
+  for (const [from, to] of Object.entries(migration.properties ?? {})) {
+    if (properties && from in properties) {
+      properties[to] = properties[from];
+      delete properties[from];
+    }
+  }
+
+  migration.migrate?.(node, graph);
+}
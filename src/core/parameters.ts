@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { PortType } from '@/types';
+import type { Graph } from './Graph';
+
+export type ParameterType = 'number' | 'boolean' | 'color' | 'enum' | 'vector3' | 'string';
+
+export type ParameterValue = number | boolean | string | THREE.Vector3;
+
+/**
+ * A named value stored on the graph and read by Parameter nodes, so a few
+ * settings can drive many nodes (e.g. a configurator's options)
+ */
+export interface GraphParameter {
+  name: string;
+  type: ParameterType;
+  value: ParameterValue; // Colors are hex strings such as '#ff8800'
+  label?: string;
+  min?: number; // For number type
+  max?: number;
+  step?: number;
+  options?: Record<string, string>; // For enum type: label -> value
+}
+
+// Output type of Parameter nodes reading a parameter of each type
+export const PARAMETER_PORT_TYPES: Record<ParameterType, PortType> = {
+  number: PortType.Number,
+  boolean: PortType.Boolean,
+  color: PortType.Color,
+  enum: PortType.String,
+  vector3: PortType.Vector3,
+  string: PortType.String,
+};
+
+export function defaultParameterValue(
+  type: ParameterType,
+  options?: Record<string, string>
+): ParameterValue {
+  switch (type) {
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'color':
+      return '#ffffff';
+    case 'enum':
+      return Object.values(options ?? {})[0] ?? '';
+    case 'vector3':
+      return new THREE.Vector3();
+    case 'string':
+      return '';
+  }
+}
+
+/**
+ * Read a parameter value written as text, e.g. in a URL query:
+ * numbers (clamped to the range), true/false/1/0, colors with or without #,
+ * enum values or labels, and vectors as "x,y,z". Returns undefined if the text
+ * doesn't fit the parameter.
+ */
+export function parseParameterValue(
+  parameter: GraphParameter,
+  text: string
+): ParameterValue | undefined {
+  switch (parameter.type) {
+    case 'number': {
+      const value = Number(text);
+      if (text.trim() === '' || Number.isNaN(value)) return undefined;
+      return Math.min(parameter.max ?? Infinity, Math.max(parameter.min ?? -Infinity, value));
+    }
+    case 'boolean':
+      if (text === 'true' || text === '1') return true;
+      if (text === 'false' || text === '0') return false;
+      return undefined;
+    case 'color': {
+      const hex = text.startsWith('#') ? text : `#${text}`;
+      return /^#[0-9a-f]{6}$/i.test(hex) ? hex.toLowerCase() : undefined;
+    }
+    case 'enum': {
+      const options = parameter.options ?? {};
+      if (Object.values(options).includes(text)) return text;
+      return options[text];
+    }
+    case 'vector3': {
+      const components = text.split(',').map(Number);
+      if (components.length !== 3 || components.some(Number.isNaN)) return undefined;
+      return new THREE.Vector3().fromArray(components);
+    }
+    case 'string':
+      return text;
+  }
+}
+
+/**
+ * Set parameters from a query string such as "?width=2&finish=matte". Names that
+ * aren't parameters of the graph are ignored, so other query options can be mixed
+ * in. Not recorded in the undo history, as it is part of loading the graph.
+ */
+export function applyParameterOverrides(graph: Graph, query: string | URLSearchParams): void {
+  const params = typeof query === 'string' ? new URLSearchParams(query) : query;
+  graph.history.suspend(() => {
+    for (const [name, text] of params) {
+      const parameter = graph.getParameter(name);
+      if (!parameter) continue;
+
+      const value = parseParameterValue(parameter, text);
+      if (value === undefined) {
+        console.warn(`Ignoring invalid value "${text}" for ${parameter.type} parameter ${name}`);
+        continue;
+      }
+      graph.setParameterValue(name, value);
+    }
+  });
+}
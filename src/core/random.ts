@@ -0,0 +1,76 @@
+/**
+ * Hash strings and numbers into a 32-bit seed (the same on every machine, as it
+ * only uses 32-bit integer arithmetic)
+ */
+export function hashSeed(...keys: Array<string | number>): number {
+  let hash = 0x811c9dc5;
+  for (const key of keys) {
+    const text = `${key}\u0000`;
+    for (let i = 0; i < text.length; i++) {
+      hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    }
+  }
+  // Final mix, so seeds differing in the last key spread over all bits
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/**
+ * Seeded pseudo-random numbers (mulberry32). The same seed gives the same
+ * sequence in every session and on every machine, unlike Math.random.
+ */
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Float in [low, high)
+  float(low: number, high: number): number {
+    return low + this.next() * (high - low);
+  }
+
+  // Integer in [low, high], like THREE.MathUtils.randInt
+  int(low: number, high: number): number {
+    return low + Math.floor(this.next() * (high - low + 1));
+  }
+
+  pick<T>(items: readonly T[]): T | undefined {
+    return items.length > 0 ? items[Math.floor(this.next() * items.length)] : undefined;
+  }
+
+  // Shuffled copy of the items (Fisher-Yates)
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+}
+
+/**
+ * Hands out the random streams of an evaluation, all derived from the graph's
+ * master seed (see Graph.seed). Each node gets its own stream from its id and its
+ * seed input, so nodes don't repeat each other's numbers and changing one seed
+ * only changes that node's results.
+ */
+export class RandomService {
+  constructor(readonly seed: number) {}
+
+  forNode(nodeId: string, seed = 0): Random {
+    return new Random(hashSeed(this.seed, nodeId, seed));
+  }
+}
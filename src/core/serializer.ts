@@ -1,27 +1,54 @@
 import { Graph } from './Graph';
 import { SerializedGraph, SerializedNode, SerializedEdge } from './types';
+import { CURRENT_VERSION } from './migrations';
+import { valueCodecs } from './codecs';
+import { serializeKeyframeTrack } from './keyframes';
 
-const CURRENT_VERSION = '1.0.0';
+export interface SerializeOptions {
+  outputs?: boolean; // Also save the current output values (e.g. for snapshots of results)
+}
 
-export function serializeGraph(graph: Graph): SerializedGraph {
+export function serializeGraph(graph: Graph, options: SerializeOptions = {}): SerializedGraph {
   const nodes: SerializedNode[] = [];
   const edges: SerializedEdge[] = [];
+  const assets = new Set<string>();
 
   // Serialize nodes
   for (const node of graph.nodes.values()) {
-    const inputs: Record<string, never> = {};
+    // Placeholders for unknown types are saved with the data they were loaded from
+    const savedData = (node as { savedData?: SerializedNode }).savedData;
+    if (savedData) {
+      nodes.push({
+        ...savedData,
+        label: node.label,
+        position: { ...node.position },
+        customWidth: node.customWidth,
+        customHeight: node.customHeight,
+      });
+      continue;
+    }
 
-    // Store input default values (serialization would need custom logic for complex types)
+    // Values of unconnected inputs (connected ones get theirs from the edge). Values
+    // without a codec, such as meshes, are left out.
+    const inputs: Record<string, never> = {};
     for (const [name, port] of node.inputs) {
-      if (port.defaultValue !== undefined && typeof port.defaultValue !== 'object') {
-        inputs[name] = port.defaultValue as never;
+      if (port.connections.length > 0) continue;
+      const value = valueCodecs.encode(port.value);
+      if (value !== undefined) {
+        inputs[name] = value as never;
       }
     }
 
     // Serialize properties
     const properties: Record<string, any> = {};
     for (const [name, property] of node.properties) {
-      properties[name] = property.value;
+      if (property.type === 'asset' && property.value) {
+        assets.add(property.value);
+      }
+      const value = valueCodecs.encode(property.value);
+      if (value !== undefined) {
+        properties[name] = value;
+      }
     }
 
     const serializedNode: SerializedNode = {
@@ -37,6 +64,11 @@ export function serializeGraph(graph: Graph): SerializedGraph {
       serializedNode.properties = properties;
     }
 
+    // Version 1 is the default
+    if (node.version > 1) {
+      serializedNode.version = node.version;
+    }
+
     // Include custom dimensions if set
     if (node.customWidth !== undefined) {
       serializedNode.customWidth = node.customWidth;
@@ -45,6 +77,42 @@ export function serializeGraph(graph: Graph): SerializedGraph {
       serializedNode.customHeight = node.customHeight;
     }
 
+    if (node.bypassed) {
+      serializedNode.bypassed = true;
+    }
+
+    // Frozen nodes keep their locked outputs, so loading doesn't evaluate them again
+    const frozenOutputs = node.frozenOutputs;
+    if (node.frozen) {
+      serializedNode.frozen = true;
+    }
+    if (options.outputs || frozenOutputs) {
+      const outputs: Record<string, unknown> = {};
+      for (const [name, port] of node.outputs) {
+        const value = valueCodecs.encode(frozenOutputs ? frozenOutputs.get(name) : port.value);
+        if (value !== undefined) {
+          outputs[name] = value;
+        }
+      }
+      serializedNode.outputs = outputs;
+    }
+
+    // Include node-specific state
+    const state = node.serializeState();
+    if (state) {
+      serializedNode.state = state;
+    }
+
+    if (node.keyframes.size > 0) {
+      serializedNode.keyframes = Array.from(node.keyframes.values(), serializeKeyframeTrack);
+    }
+
+    // Include nested graph of group nodes
+    const subgraph = (node as { subgraph?: unknown }).subgraph;
+    if (subgraph instanceof Graph) {
+      serializedNode.subgraph = serializeGraph(subgraph, options);
+    }
+
     nodes.push(serializedNode);
   }
 
@@ -59,11 +127,29 @@ export function serializeGraph(graph: Graph): SerializedGraph {
     });
   }
 
-  return {
+  const serialized: SerializedGraph = {
     version: CURRENT_VERSION,
     nodes,
     edges,
   };
+
+  if (graph.parameters.length > 0) {
+    serialized.parameters = graph.parameters.map((parameter) => ({
+      ...parameter,
+      value: valueCodecs.encode(parameter.value),
+    }));
+  }
+
+  if (graph.seed !== 0) {
+    serialized.seed = graph.seed;
+  }
+
+  // Stored files are referenced by hash; embedAssets inlines them
+  if (assets.size > 0) {
+    serialized.assets = Array.from(assets);
+  }
+
+  return serialized;
 }
 
 export function serializeGraphToJSON(graph: Graph): string {
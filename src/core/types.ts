@@ -1,18 +1,69 @@
-import { PortType, PortValue } from '@/types';
+import { PortDataType, PortValue } from '@/types';
 import { Graph } from './Graph';
+import type { Node } from './Node';
+import type { AccessMode } from './DataTree';
+import type { SerializedAsset } from './assets';
+import type { GraphParameter } from './parameters';
+import type { Keyframe, KeyframeTrack } from './keyframes';
+import type { RandomService } from './random';
 
 export interface PortSchema {
   name: string;
-  type: PortType;
+  type: PortDataType;
   defaultValue?: PortValue;
+  access?: AccessMode; // How the input is read by Node.solveTree (default: item)
+  lazy?: boolean; // Input only evaluated when the node selects it (see Node.selectInputs)
 }
 
 export interface EvaluationContext {
   graph: Graph;
+  signal?: AbortSignal; // Aborted when an async evaluation becomes stale (e.g. inputs changed)
+  // The transport's clock (see Transport), for nodes that read it (see Node.readsTime)
+  time?: number;
+  deltaTime?: number;
+  frame?: number;
+  // Seeded random streams from the graph's master seed (see Node.random)
+  random?: RandomService;
   [key: string]: unknown;
 }
 
-export type PropertyType = 'number' | 'string' | 'boolean' | 'color' | 'list' | 'point';
+export type DiagnosticSeverity = 'error' | 'warning';
+
+// A problem reported while evaluating a node
+export interface NodeDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+// Outcome of evaluating one node outside the main thread (see SubgraphRunner)
+export interface SubgraphNodeResult {
+  outputs: Record<string, PortValue>;
+  diagnostics: NodeDiagnostic[];
+  blockedBy: string | null;
+  durationMs: number;
+}
+
+/**
+ * Evaluates connected groups of nodes somewhere else, e.g. in a Web Worker.
+ * The Evaluator hands it dirty subgraphs whose nodes all pass canRun().
+ */
+export interface SubgraphRunner {
+  canRun(node: Node): boolean;
+
+  /**
+   * Start evaluating the nodes (in topological order) with their current input values.
+   * Returns null if the subgraph can't be run here (e.g. an input value can't be sent),
+   * in which case the Evaluator evaluates it itself.
+   */
+  run(
+    nodes: Node[],
+    signal: AbortSignal,
+    onProgress: (completed: number) => void
+  ): Promise<Map<string, SubgraphNodeResult>> | null;
+}
+
+// 'asset' values are hashes of files in the asset store (see assets.ts)
+export type PropertyType = 'number' | 'string' | 'boolean' | 'color' | 'list' | 'point' | 'asset';
 
 export interface PropertyConfig {
   name: string;
@@ -70,6 +121,10 @@ export interface SerializedGraph {
   version: string;
   nodes: SerializedNode[];
   edges: SerializedEdge[];
+  parameters?: SerializedParameter[];
+  seed?: number; // Master seed of the random nodes (default 0)
+  assets?: string[]; // Hashes of the stored files the nodes refer to ('asset' properties)
+  assetData?: Record<string, SerializedAsset>; // The files themselves, when inlined (see embedAssets)
 }
 
 export interface SerializedNode {
@@ -77,12 +132,27 @@ export interface SerializedNode {
   type: string;
   label: string;
   position: { x: number; y: number };
-  inputs: Record<string, PortValue>;
-  properties?: Record<string, any>; // Optional node properties
+  inputs: Record<string, PortValue>; // Values of unconnected inputs, encoded (see codecs)
+  outputs?: Record<string, unknown>; // Output values, encoded; saved on request and when frozen
+  properties?: Record<string, any>; // Optional node properties, encoded
   customWidth?: number; // Optional custom width set by user
   customHeight?: number; // Optional custom height set by user
+  state?: Record<string, unknown>; // Optional node-specific state (see Node.serializeState)
+  keyframes?: SerializedKeyframeTrack[]; // Animated properties and inputs (see keyframes.ts)
+  subgraph?: SerializedGraph; // Nested graph of group nodes
+  version?: number; // Version of the node type's data when saved (default 1, see NodeMetadata)
+  frozen?: boolean; // Outputs locked (see Node.setFrozen)
+  bypassed?: boolean; // Inputs passed through instead of evaluating (see Node.setBypassed)
 }
 
+// A keyframe track with its values encoded (see codecs)
+export type SerializedKeyframeTrack = Omit<KeyframeTrack, 'keys'> & {
+  keys: Array<Omit<Keyframe, 'value'> & { value: unknown }>;
+};
+
+// A graph parameter with its value encoded (see codecs)
+export type SerializedParameter = Omit<GraphParameter, 'value'> & { value: unknown };
+
 export interface SerializedEdge {
   id: string;
   sourceNodeId: string;
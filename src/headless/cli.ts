@@ -0,0 +1,158 @@
+/**
+ * Command-line runner for saved graphs
+ *
+ * Usage:
+ *   node dist/headless/cli.js <graph.json...> [--out dir] [--set nodeId.name=value...]
+ *                             [--variants variants.json] [--seed n]
+ *
+ * Each graph is evaluated once per variant (or once, without --variants). The
+ * outputs of every node are written to <out>/<graph>[-<variant>].json, and the
+ * data of GLTF Exporter nodes to .glb/.gltf files next to it.
+ *
+ * A variants file is an array of { "name": "...", "seed": n, "set": { "nodeId.name": value } }.
+ * The seed (of a variant or --seed) replaces the graph's master seed of the random nodes.
+ * --set values are parsed as JSON where possible, e.g. --set size.value=4, and may be
+ * tagged like saved values, e.g. --set origin.value='{"$type":"Vector3","value":[0,1,0]}'
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { SerializedGraph } from '@/core/types';
+import { valueCodecs } from '@/core/codecs';
+import { createDefaultRegistry } from '@/three';
+import { runGraph, toJSONValue, RunGraphResult } from './index';
+
+interface Variant {
+  name?: string;
+  seed?: number;
+  set?: Record<string, unknown>;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'out' },
+      set: { type: 'string', multiple: true, default: [] },
+      variants: { type: 'string' },
+      seed: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(
+      'Usage: cli.js <graph.json...> [--out dir] [--set nodeId.name=value...] ' +
+        '[--variants file.json] [--seed n]'
+    );
+    return values.help ? 0 : 1;
+  }
+
+  const overrides = parseOverrides(values.set);
+  const seed = values.seed === undefined ? undefined : Number(values.seed);
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    throw new Error(`Invalid --seed "${values.seed}" (expected an integer)`);
+  }
+  const variants: Variant[] = values.variants
+    ? JSON.parse(await readFile(values.variants, 'utf-8'))
+    : [{}];
+
+  await mkdir(values.out, { recursive: true });
+  const registry = createDefaultRegistry();
+  let failed = false;
+
+  for (const file of positionals) {
+    const data: SerializedGraph = JSON.parse(await readFile(file, 'utf-8'));
+    const baseName = path.basename(file, path.extname(file));
+
+    for (const [index, variant] of variants.entries()) {
+      const name = variants.length > 1 ? `${baseName}-${variant.name ?? index + 1}` : baseName;
+      const result = await runGraph(data, {
+        registry,
+        overrides: { ...overrides, ...(valueCodecs.decode(variant.set ?? {}) as object) },
+        seed: variant.seed ?? seed,
+      });
+
+      reportDiagnostics(name, result);
+      failed ||= result.hasErrors;
+      await writeOutputs(values.out, name, result);
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+// "nodeId.name=value" pairs; values are JSON where they parse, strings otherwise
+function parseOverrides(pairs: string[]): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator < 0) {
+      throw new Error(`Invalid --set "${pair}" (expected nodeId.name=value)`);
+    }
+    const raw = pair.slice(separator + 1);
+    let value: unknown = raw;
+    try {
+      value = valueCodecs.decode(JSON.parse(raw));
+    } catch {
+      // Not JSON, keep the string
+    }
+    overrides[pair.slice(0, separator)] = value;
+  }
+  return overrides;
+}
+
+function reportDiagnostics(name: string, result: RunGraphResult): void {
+  for (const node of result.nodes) {
+    for (const diagnostic of node.diagnostics) {
+      console.error(
+        `[${name}] ${node.label} (${node.id}) ${diagnostic.severity}: ${diagnostic.message}`
+      );
+    }
+    if (node.blockedBy) {
+      console.error(`[${name}] ${node.label} (${node.id}) blocked by ${node.blockedBy}`);
+    }
+  }
+}
+
+async function writeOutputs(outDir: string, name: string, result: RunGraphResult): Promise<void> {
+  const summary = Object.fromEntries(
+    result.nodes.map((node) => [
+      node.id,
+      {
+        type: node.type,
+        label: node.label,
+        outputs: toJSONValue(node.outputs),
+        diagnostics: node.diagnostics,
+      },
+    ])
+  );
+  const summaryFile = path.join(outDir, `${name}.json`);
+  await writeFile(summaryFile, JSON.stringify(summary, null, 2));
+  console.log(`Wrote ${summaryFile}`);
+
+  // Exported models
+  for (const node of result.nodes) {
+    const data = node.outputs.data as unknown;
+    if (node.type !== 'GLTFExporterNode' || !data) continue;
+
+    const filename = result.graph.getNode(node.id)?.getProperty('filename') || node.id;
+    const exportFile = path.join(outDir, `${name}-${filename}`);
+    if (data instanceof ArrayBuffer) {
+      await writeFile(`${exportFile}.glb`, new Uint8Array(data));
+      console.log(`Wrote ${exportFile}.glb`);
+    } else {
+      await writeFile(`${exportFile}.gltf`, JSON.stringify(data, null, 2));
+      console.log(`Wrote ${exportFile}.gltf`);
+    }
+  }
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
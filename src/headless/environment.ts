@@ -0,0 +1,47 @@
+/**
+ * Browser APIs that node implementations rely on but Node.js lacks.
+ * Only covers what the three.js exporters use (FileReader on Blobs).
+ */
+
+class BlobFileReader {
+  result: ArrayBuffer | string | null = null;
+  onload: (() => void) | null = null;
+  onloadend: (() => void) | null = null;
+
+  readAsArrayBuffer(blob: Blob): void {
+    this.read(blob.arrayBuffer());
+  }
+
+  readAsDataURL(blob: Blob): void {
+    const type = blob.type || 'application/octet-stream';
+    this.read(blob.arrayBuffer().then((buffer) => `data:${type};base64,${toBase64(buffer)}`));
+  }
+
+  private read(result: Promise<ArrayBuffer | string>): void {
+    result.then((value) => {
+      this.result = value;
+      this.onload?.();
+      this.onloadend?.();
+    });
+  }
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Install the missing globals. Does nothing in a browser.
+ */
+export function installHeadlessGlobals(): void {
+  const scope = globalThis as { FileReader?: unknown };
+  if (typeof scope.FileReader === 'undefined') {
+    scope.FileReader = BlobFileReader;
+  }
+}
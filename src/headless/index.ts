@@ -0,0 +1,191 @@
+/**
+ * Headless runtime
+ *
+ * Loads and evaluates a serialized graph without any UI or renderer, e.g. from
+ * a build script or on a server. See cli.ts for the command-line entry point.
+ */
+
+import * as THREE from 'three';
+import { Graph } from '@/core/Graph';
+import { Evaluator } from '@/core/Evaluator';
+import { deserializeGraph } from '@/core/deserializer';
+import { SerializedGraph, NodeDiagnostic } from '@/core/types';
+import { DataTree } from '@/core/DataTree';
+import { createDefaultRegistry } from '@/three';
+import { NodeRegistry } from '@/three/NodeRegistry';
+import { PortValue } from '@/types';
+import { installHeadlessGlobals } from './environment';
+
+export interface RunGraphOptions {
+  registry?: NodeRegistry; // Defaults to the built-in node types
+  overrides?: Record<string, unknown>; // Values keyed "nodeId.name" (input port or property)
+  seed?: number; // Master seed of the random nodes, instead of the saved one
+}
+
+export interface NodeResult {
+  id: string;
+  type: string;
+  label: string;
+  outputs: Record<string, PortValue>;
+  diagnostics: NodeDiagnostic[];
+  blockedBy: string | null;
+}
+
+export interface RunGraphResult {
+  graph: Graph;
+  nodes: NodeResult[];
+  hasErrors: boolean;
+}
+
+/**
+ * Load a serialized graph, apply overrides and evaluate it, including any async nodes
+ */
+export async function runGraph(
+  data: SerializedGraph,
+  options: RunGraphOptions = {}
+): Promise<RunGraphResult> {
+  installHeadlessGlobals();
+
+  const registry = options.registry ?? createDefaultRegistry();
+  const graph = deserializeGraph(data, registry);
+  applyOverrides(graph, options.overrides ?? {});
+  if (options.seed !== undefined) {
+    graph.setSeed(options.seed);
+  }
+
+  await new Evaluator(graph).evaluate();
+
+  const nodes = Array.from(graph.nodes.values()).map((node) => ({
+    id: node.id,
+    type: node.type,
+    label: node.label,
+    outputs: Object.fromEntries(
+      Array.from(node.outputs, ([name, port]) => [name, port.value] as const)
+    ),
+    diagnostics: [...node.diagnostics],
+    blockedBy: node.blockedBy,
+  }));
+
+  return { graph, nodes, hasErrors: nodes.some((node) => node.blockedBy || hasError(node)) };
+}
+
+/**
+ * Set input values or properties before evaluation.
+ * Connected inputs can't be overridden, since their value comes from the edge.
+ */
+export function applyOverrides(graph: Graph, overrides: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(overrides)) {
+    const separator = key.indexOf('.');
+    const node = separator > 0 ? graph.getNode(key.slice(0, separator)) : undefined;
+    if (!node) {
+      throw new Error(`Override "${key}" does not refer to a node (expected "nodeId.name")`);
+    }
+
+    const name = key.slice(separator + 1);
+    const port = node.inputs.get(name);
+    if (port) {
+      if (port.connections.length > 0) {
+        throw new Error(`Override "${key}" targets a connected input`);
+      }
+      port.value = value as PortValue;
+      node.markDirty();
+    } else if (node.properties.has(name)) {
+      node.setProperty(name, value);
+    } else {
+      throw new Error(`Node "${node.id}" has no input or property "${name}"`);
+    }
+  }
+}
+
+/**
+ * Convert an output value to plain JSON. Three.js objects are reduced to their
+ * data (vectors, colors) or to summary stats (geometry, objects).
+ */
+export function toJSONValue(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'object') {
+    return typeof value === 'function' ? undefined : value;
+  }
+
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (Array.isArray(value)) return value.map((item) => toJSONValue(item, seen));
+  if (value instanceof ArrayBuffer) return { byteLength: value.byteLength };
+  if (ArrayBuffer.isView(value)) return { length: value.byteLength };
+
+  if (
+    value instanceof THREE.Vector2 ||
+    value instanceof THREE.Vector3 ||
+    value instanceof THREE.Vector4 ||
+    value instanceof THREE.Quaternion ||
+    value instanceof THREE.Matrix4 ||
+    value instanceof THREE.Euler
+  ) {
+    return value.toArray();
+  }
+  if (value instanceof THREE.Color) return `#${value.getHexString()}`;
+  if (value instanceof DataTree) {
+    // Branches keyed by path, e.g. { "{0;1}": [...] }
+    return Object.fromEntries(
+      value.branches.map((branch) => [
+        DataTree.formatPath(branch.path),
+        toJSONValue(branch.items, seen),
+      ])
+    );
+  }
+  if (value instanceof THREE.BufferGeometry) return geometryStats(value);
+  if (value instanceof THREE.Object3D) return objectStats(value);
+  if (value instanceof THREE.Material) return { type: value.type, name: value.name };
+
+  // Plain data (e.g. parsed JSON or CSV rows)
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype === Object.prototype || prototype === null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, toJSONValue(item, seen)])
+    );
+  }
+
+  return { type: value.constructor?.name ?? 'Object' };
+}
+
+function geometryStats(geometry: THREE.BufferGeometry) {
+  const vertices = geometry.getAttribute('position')?.count ?? 0;
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox;
+  return {
+    type: geometry.type,
+    vertices,
+    triangles: Math.floor((geometry.index?.count ?? vertices) / 3),
+    boundingBox: box && !box.isEmpty() ? { min: box.min.toArray(), max: box.max.toArray() } : null,
+  };
+}
+
+function objectStats(object: THREE.Object3D) {
+  let meshes = 0;
+  let vertices = 0;
+  let triangles = 0;
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh && child.geometry instanceof THREE.BufferGeometry) {
+      const stats = geometryStats(child.geometry);
+      meshes++;
+      vertices += stats.vertices;
+      triangles += stats.triangles;
+    }
+  });
+
+  const box = new THREE.Box3().setFromObject(object);
+  return {
+    type: object.type,
+    name: object.name,
+    children: object.children.length,
+    meshes,
+    vertices,
+    triangles,
+    boundingBox: box.isEmpty() ? null : { min: box.min.toArray(), max: box.max.toArray() },
+  };
+}
+
+function hasError(node: NodeResult): boolean {
+  return node.diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+}
@@ -2,11 +2,21 @@ import './style.css';
 import '@phosphor-icons/web/regular';
 import { buildBasicGraph } from './examples/basic-graph';
 import Workflow from './core/Workflow';
+import { applyParameterOverrides } from './core/parameters';
+import { benchmarkEvaluation } from './utils/benchmark';
 
 function init() {
   const container = document.getElementById('app') || document.body;
   const workflow = new Workflow(container);
   buildBasicGraph(workflow);
+
+  // Graph parameters can be set from the query string, e.g. ?width=2&finish=matte
+  applyParameterOverrides(workflow.graph, window.location.search);
+
+  // Benchmark mode (?benchmark): report evaluation cost against node count
+  if (new URLSearchParams(window.location.search).has('benchmark')) {
+    benchmarkEvaluation(workflow.registry).then((results) => console.table(results));
+  }
 }
 
 init();
@@ -0,0 +1,119 @@
+import { NodeRegistry } from './NodeRegistry';
+import { GroupNode } from './nodes/group/GroupNode';
+import { serializeGraph } from '@/core/serializer';
+import { deserializeGraph } from '@/core/deserializer';
+import {
+  GroupNodeDefinition,
+  GroupNodeStorage,
+  CustomNodeOperationResult,
+} from '@/types';
+
+const STORAGE_KEY = 'three-nodes-group-nodes';
+const STORAGE_VERSION = '1.0.0';
+
+/**
+ * Manages reusable group node types: saving a group's subgraph as a new
+ * registry type and restoring saved types from localStorage
+ */
+export class GroupNodeManager {
+  private registry: NodeRegistry;
+
+  constructor(registry: NodeRegistry) {
+    this.registry = registry;
+  }
+
+  /**
+   * Load all group types from localStorage and register them
+   */
+  loadFromStorage(): CustomNodeOperationResult {
+    try {
+      const definitions = this.readStorage();
+      for (const definition of definitions) {
+        this.registerDefinition(definition);
+      }
+      return {
+        success: true,
+        message: `Loaded ${definitions.length} group node type(s) from storage`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to load group node types: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Save a group's current subgraph as a reusable node type.
+   * The group itself becomes an instance of the new type.
+   */
+  saveAsType(group: GroupNode, label: string): CustomNodeOperationResult {
+    const type = `Group_${label.replace(/[^A-Za-z0-9]/g, '')}`;
+    if (type === 'Group_') {
+      return { success: false, error: 'Group name must contain letters or digits' };
+    }
+
+    const existing = this.readStorage().find((definition) => definition.type === type);
+    const definition: GroupNodeDefinition = {
+      type,
+      label,
+      category: 'Group',
+      icon: '📦',
+      description: `Group of ${group.subgraph.nodes.size} node(s)`,
+      subgraph: serializeGraph(group.subgraph),
+      createdAt: existing?.createdAt ?? Date.now(),
+      updatedAt: Date.now(),
+    };
+
+    try {
+      this.registerDefinition(definition);
+      this.writeStorage(definition);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to save group node type: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    group.type = type;
+    group.label = label;
+    return { success: true, message: `Saved group node type "${label}"`, nodeName: type };
+  }
+
+  private registerDefinition(definition: GroupNodeDefinition): void {
+    const registry = this.registry;
+
+    // Each instance gets its own copy of the saved subgraph
+    const NodeClass = class extends GroupNode {
+      constructor(id: string) {
+        super(id, definition.type, definition.label);
+        this.setSubgraph(deserializeGraph(definition.subgraph, registry));
+      }
+    };
+
+    this.registry.register(NodeClass, {
+      type: definition.type,
+      category: definition.category,
+      label: definition.label,
+      description: definition.description,
+      icon: definition.icon,
+    });
+  }
+
+  private readStorage(): GroupNodeDefinition[] {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) return [];
+
+    const storage: GroupNodeStorage = JSON.parse(data);
+    return storage.nodes ?? [];
+  }
+
+  // Insert or replace a definition in storage
+  private writeStorage(definition: GroupNodeDefinition): void {
+    const nodes = this.readStorage().filter((d) => d.type !== definition.type);
+    nodes.push(definition);
+
+    const storage: GroupNodeStorage = { version: STORAGE_VERSION, nodes };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(storage));
+  }
+}
@@ -1,5 +1,5 @@
 import { Node } from '@/core/Node';
-import { NodeMetadata } from '@/types';
+import { NodeMetadata, NodeMigration } from '@/types';
 import { CustomNodeDefinition } from '@/types/customNode';
 
 type NodeConstructor = new (id: string) => Node;
@@ -7,6 +7,8 @@ type NodeConstructor = new (id: string) => Node;
 export class NodeRegistry {
   private nodeTypes: Map<string, { constructor: NodeConstructor; metadata: NodeMetadata }> =
     new Map();
+  // Migrations of saved node types that no longer exist
+  private legacyTypes: Map<string, NodeMigration> = new Map();
 
   // Register a node type
   register(constructor: NodeConstructor, metadata: NodeMetadata): void {
@@ -21,13 +23,28 @@ export class NodeRegistry {
     }
 
     const nodeId = id || this.generateId();
-    return new entry.constructor(nodeId);
+    const node = new entry.constructor(nodeId);
+    this.applyMetadata(node, entry.metadata);
+    return node;
   }
 
   // Create a node instance with full type safety using the class constructor
   insertNode<T extends Node>(constructor: new (id: string) => T, id?: string): T {
     const nodeId = id || this.generateId();
-    return new constructor(nodeId);
+    const node = new constructor(nodeId);
+    const entry =
+      this.nodeTypes.get(node.type) ??
+      Array.from(this.nodeTypes.values()).find((type) => type.constructor === constructor);
+    if (entry) {
+      this.applyMetadata(node, entry.metadata);
+    }
+    return node;
+  }
+
+  // Defaults every node of a registered type gets, however it's created
+  private applyMetadata(node: Node, metadata: NodeMetadata): void {
+    node.version = metadata.version ?? 1;
+    node.memoize = metadata.memoize ?? metadata.workerSafe ?? false;
   }
 
   // Get metadata for a node type
@@ -35,6 +52,18 @@ export class NodeRegistry {
     return this.nodeTypes.get(type)?.metadata;
   }
 
+  /**
+   * Register how saved nodes of a removed or renamed type are loaded, usually by
+   * turning them into nodes of another type (see NodeMigration.type)
+   */
+  registerLegacyType(type: string, migration: NodeMigration): void {
+    this.legacyTypes.set(type, migration);
+  }
+
+  getLegacyMigration(type: string): NodeMigration | undefined {
+    return this.nodeTypes.has(type) ? undefined : this.legacyTypes.get(type);
+  }
+
   // Get all registered node types
   getAllTypes(): NodeMetadata[] {
     return Array.from(this.nodeTypes.values()).map((entry) => entry.metadata);
@@ -1,6 +1,7 @@
 import { BaseThreeNode } from './BaseThreeNode';
 import { Pane } from 'tweakpane';
 import * as EssentialsPlugin from '@tweakpane/plugin-essentials';
+import { SetValueCommand } from '@/core/commands';
 
 /**
  * Base class for nodes that use Tweakpane controls
@@ -43,6 +44,23 @@ export abstract class TweakpaneNode<
     }
   }
 
+  /**
+   * Apply a value edited by a control that isn't a property (e.g. a slider's position),
+   * recording it so it can be undone. Values equal to the current one are ignored, as
+   * refreshing the pane reports them again.
+   */
+  protected changeValue<T>(
+    name: string,
+    oldValue: T,
+    newValue: T,
+    setValue: (value: T) => void
+  ): void {
+    if (sameValue(oldValue, newValue)) return;
+    setValue(newValue);
+    this.graph?.history.record(new SetValueCommand(this, name, oldValue, newValue, setValue));
+    this.onTweakpaneChange();
+  }
+
   /**
    * Get the Tweakpane instance
    */
@@ -85,3 +103,18 @@ export abstract class TweakpaneNode<
     return true;
   }
 }
+
+// Controls report numbers, strings, booleans and plain objects (e.g. points)
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = Object.keys(left);
+    return (
+      keys.length === Object.keys(right).length &&
+      keys.every((key) => Object.is(left[key], right[key]))
+    );
+  }
+  return false;
+}
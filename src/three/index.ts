@@ -9,6 +9,7 @@ import { NumberSliderNode } from './nodes/data/NumberSliderNode';
 import { ColorPickerNode } from './nodes/data/ColorPickerNode';
 import { StringInputNode } from './nodes/data/StringInputNode';
 import { BooleanInputNode } from './nodes/data/BooleanInputNode';
+import { ParameterNode } from './nodes/data/ParameterNode';
 import { PointInputNode } from './nodes/data/PointInputNode';
 import { ListInputNode } from './nodes/data/ListInputNode';
 import { TextInputNode } from './nodes/data/TextInputNode';
@@ -31,6 +32,7 @@ import { BoxGeometryNode } from './nodes/geometry/BoxGeometryNode';
 import { SphereGeometryNode } from './nodes/geometry/SphereGeometryNode';
 import { PointGridNode } from './nodes/geometry/PointGridNode';
 import { VoxelGridNode } from './nodes/geometry/VoxelGridNode';
+import { RandomPointsNode } from './nodes/geometry/RandomPointsNode';
 import { BufferGeometryNode } from './nodes/geometry/BufferGeometryNode';
 import { CapsuleGeometryNode } from './nodes/geometry/CapsuleGeometryNode';
 import { PlaneGeometryNode } from './nodes/geometry/PlaneGeometryNode';
@@ -88,12 +90,26 @@ import { MergeNode } from './nodes/array/MergeNode';
 import { ExtractNode } from './nodes/array/ExtractNode';
 import { IndexNode } from './nodes/array/IndexNode';
 import { LengthNode } from './nodes/array/LengthNode';
+import { ShuffleNode } from './nodes/array/ShuffleNode';
+import { RandomPickNode } from './nodes/array/RandomPickNode';
+
+// Data tree nodes
+import { GraftNode } from './nodes/tree/GraftNode';
+import { FlattenNode } from './nodes/tree/FlattenNode';
+import { SimplifyNode } from './nodes/tree/SimplifyNode';
+
+// Control-flow nodes
+import { IfElseNode } from './nodes/flow/IfElseNode';
+import { SwitchNode } from './nodes/flow/SwitchNode';
+import { GateNode } from './nodes/flow/GateNode';
+import { StreamFilterNode } from './nodes/flow/StreamFilterNode';
 
 // Animation nodes
 import { FrameNode } from './nodes/animation/FrameNode';
 import { UpdatableObjectNode } from './nodes/animation/UpdatableObjectNode';
 
 // Math nodes
+import { ExpressionNode } from './nodes/math/ExpressionNode';
 import { DEG2RADNode } from './nodes/math/DEG2RADNode';
 import { RAD2DEGNode } from './nodes/math/RAD2DEGNode';
 import { ClampNode } from './nodes/math/ClampNode';
@@ -140,6 +156,7 @@ import { DeepCloneAttributeNode } from './nodes/geometry/utils/DeepCloneAttribut
 import { EstimateBytesUsedNode } from './nodes/geometry/utils/EstimateBytesUsedNode';
 import { ToTrianglesDrawModeNode } from './nodes/geometry/utils/ToTrianglesDrawModeNode';
 import { ConvertToIndexedNode } from './nodes/geometry/utils/ConvertToIndexedNode';
+import { ObjectGeometryNode } from './nodes/geometry/utils/ObjectGeometryNode';
 
 // Transform nodes
 import { PositionNode } from './nodes/transform/PositionNode';
@@ -178,7 +195,15 @@ import { RapierWorldNode } from './nodes/physics/RapierWorldNode';
 import { RapierRigidBodyNode } from './nodes/physics/RapierRigidBodyNode';
 import { RapierColliderNode } from './nodes/physics/RapierColliderNode';
 
+// Group nodes
+import { GroupNode } from './nodes/group/GroupNode';
+import { ForEachNode } from './nodes/group/ForEachNode';
+import { SolverNode } from './nodes/group/SolverNode';
+import { GroupInputNode } from './nodes/group/GroupInputNode';
+import { GroupOutputNode } from './nodes/group/GroupOutputNode';
+
 export { NodeRegistry } from './NodeRegistry';
+export { WorkerSubgraphRunner } from './worker/WorkerSubgraphRunner';
 export { BaseThreeNode } from './BaseThreeNode';
 export { TweakpaneNode } from './TweakpaneNode';
 
@@ -191,6 +216,7 @@ export { NumberSliderNode } from './nodes/data/NumberSliderNode';
 export { ColorPickerNode } from './nodes/data/ColorPickerNode';
 export { StringInputNode } from './nodes/data/StringInputNode';
 export { BooleanInputNode } from './nodes/data/BooleanInputNode';
+export { ParameterNode } from './nodes/data/ParameterNode';
 export { PointInputNode } from './nodes/data/PointInputNode';
 export { ListInputNode } from './nodes/data/ListInputNode';
 export { TextInputNode } from './nodes/data/TextInputNode';
@@ -207,6 +233,7 @@ export { BoxGeometryNode } from './nodes/geometry/BoxGeometryNode';
 export { SphereGeometryNode } from './nodes/geometry/SphereGeometryNode';
 export { PointGridNode } from './nodes/geometry/PointGridNode';
 export { VoxelGridNode } from './nodes/geometry/VoxelGridNode';
+export { RandomPointsNode } from './nodes/geometry/RandomPointsNode';
 export { BufferGeometryNode } from './nodes/geometry/BufferGeometryNode';
 export { CapsuleGeometryNode } from './nodes/geometry/CapsuleGeometryNode';
 export { PlaneGeometryNode } from './nodes/geometry/PlaneGeometryNode';
@@ -250,6 +277,15 @@ export { MergeNode } from './nodes/array/MergeNode';
 export { ExtractNode } from './nodes/array/ExtractNode';
 export { IndexNode } from './nodes/array/IndexNode';
 export { LengthNode } from './nodes/array/LengthNode';
+export { ShuffleNode } from './nodes/array/ShuffleNode';
+export { RandomPickNode } from './nodes/array/RandomPickNode';
+export { GraftNode } from './nodes/tree/GraftNode';
+export { FlattenNode } from './nodes/tree/FlattenNode';
+export { SimplifyNode } from './nodes/tree/SimplifyNode';
+export { IfElseNode } from './nodes/flow/IfElseNode';
+export { SwitchNode } from './nodes/flow/SwitchNode';
+export { GateNode } from './nodes/flow/GateNode';
+export { StreamFilterNode } from './nodes/flow/StreamFilterNode';
 export { FrameNode } from './nodes/animation/FrameNode';
 export { UpdatableObjectNode } from './nodes/animation/UpdatableObjectNode';
 export { PositionNode } from './nodes/transform/PositionNode';
@@ -283,6 +319,12 @@ export { QuaternionNode } from './nodes/math/QuaternionNode';
 export { EulerNode } from './nodes/math/EulerNode';
 export { RayNode } from './nodes/math/RayNode';
 export { PlaneNode } from './nodes/math/PlaneNode';
+export { GroupNode } from './nodes/group/GroupNode';
+export { ForEachNode } from './nodes/group/ForEachNode';
+export { SolverNode } from './nodes/group/SolverNode';
+export { GroupInputNode } from './nodes/group/GroupInputNode';
+export { GroupOutputNode } from './nodes/group/GroupOutputNode';
+export { PlaceholderNode } from './nodes/placeholder/PlaceholderNode';
 
 // Create and configure the default registry
 export function createDefaultRegistry(): NodeRegistry {
@@ -294,6 +336,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Data',
     label: 'Number',
     description: 'Outputs a number value',
+    workerSafe: true,
   });
 
   registry.register(Vector3Node, {
@@ -301,6 +344,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Data',
     label: 'Vector3',
     description: 'Creates a 3D vector from X, Y, Z components',
+    workerSafe: true,
   });
 
   registry.register(Vector3DecomposeNode, {
@@ -309,6 +353,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Vector3 Decompose',
     description: 'Decomposes a Vector3 into X, Y, Z components',
     icon: '🔀',
+    workerSafe: true,
   });
 
   registry.register(ColorNode, {
@@ -350,6 +395,14 @@ export function createDefaultRegistry(): NodeRegistry {
     icon: '☑️',
   });
 
+  registry.register(ParameterNode, {
+    type: 'ParameterNode',
+    category: 'Input',
+    label: 'Parameter',
+    description: 'Reads a graph parameter (see the Parameters panel)',
+    icon: '🎛️',
+  });
+
   registry.register(ButtonNode, {
     type: 'ButtonNode',
     category: 'Input',
@@ -468,6 +521,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Point Grid',
     description: 'Creates a grid of Vector3 points in 3D space',
     icon: '⊞',
+    workerSafe: true,
   });
 
   registry.register(VoxelGridNode, {
@@ -478,6 +532,15 @@ export function createDefaultRegistry(): NodeRegistry {
     icon: '🧊',
   });
 
+  registry.register(RandomPointsNode, {
+    type: 'RandomPointsNode',
+    category: 'Geometry',
+    label: 'Random Points',
+    description: 'Scatters seeded random Vector3 points in a box',
+    icon: '⁘',
+    workerSafe: true,
+  });
+
   registry.register(BufferGeometryNode, {
     type: 'BufferGeometryNode',
     category: 'Geometry',
@@ -785,6 +848,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Merge',
     description: 'Combine multiple values into an array',
     icon: '🔗',
+    workerSafe: true,
   });
 
   registry.register(ExtractNode, {
@@ -793,6 +857,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Extract',
     description: 'Extract element(s) from array by index. Returns single value or array of values.',
     icon: '🔍',
+    workerSafe: true,
   });
 
   registry.register(IndexNode, {
@@ -801,6 +866,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Index',
     description: 'Get value at specific index from array',
     icon: '🔢',
+    workerSafe: true,
   });
 
   registry.register(LengthNode, {
@@ -809,6 +875,86 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Length',
     description: 'Get the length of an array',
     icon: '📏',
+    workerSafe: true,
+  });
+
+  registry.register(ShuffleNode, {
+    type: 'ShuffleNode',
+    category: 'Array',
+    label: 'Shuffle',
+    description: 'Put the items of an array in a seeded random order',
+    icon: '🔀',
+    workerSafe: true,
+  });
+
+  registry.register(RandomPickNode, {
+    type: 'RandomPickNode',
+    category: 'Array',
+    label: 'Random Pick',
+    description: 'Pick seeded random items from an array',
+    icon: '🎲',
+    workerSafe: true,
+  });
+
+  // Register data tree nodes
+  registry.register(GraftNode, {
+    type: 'GraftNode',
+    category: 'Tree',
+    label: 'Graft',
+    description: 'Move every item into its own branch',
+    icon: '🌿',
+    workerSafe: true,
+  });
+
+  registry.register(FlattenNode, {
+    type: 'FlattenNode',
+    category: 'Tree',
+    label: 'Flatten',
+    description: 'Put all items of a tree into a single list',
+    icon: '🧹',
+    workerSafe: true,
+  });
+
+  registry.register(SimplifyNode, {
+    type: 'SimplifyNode',
+    category: 'Tree',
+    label: 'Simplify',
+    description: 'Remove the path indices shared by all branches',
+    icon: '🪴',
+    workerSafe: true,
+  });
+
+  // Register control-flow nodes (only the selected branches are evaluated)
+  registry.register(IfElseNode, {
+    type: 'IfElseNode',
+    category: 'Flow',
+    label: 'If/Else',
+    description: 'Pick one of two values by a condition',
+    icon: '🔀',
+  });
+
+  registry.register(SwitchNode, {
+    type: 'SwitchNode',
+    category: 'Flow',
+    label: 'Switch',
+    description: 'Pick one of several values by index or string',
+    icon: '🎚️',
+  });
+
+  registry.register(GateNode, {
+    type: 'GateNode',
+    category: 'Flow',
+    label: 'Gate',
+    description: 'Pass a value through only while open',
+    icon: '🚧',
+  });
+
+  registry.register(StreamFilterNode, {
+    type: 'StreamFilterNode',
+    category: 'Flow',
+    label: 'Stream Filter',
+    description: 'Pick one of several streams by gate index',
+    icon: '🚰',
   });
 
   // Register animation nodes
@@ -816,7 +962,7 @@ export function createDefaultRegistry(): NodeRegistry {
     type: 'FrameNode',
     category: 'Animation',
     label: 'Frame Loop',
-    description: 'Animation loop with deltaTime and elapsedTime outputs',
+    description: 'Timeline clock with deltaTime and elapsedTime outputs',
     icon: '🎬',
   });
 
@@ -829,11 +975,21 @@ export function createDefaultRegistry(): NodeRegistry {
   });
 
   // Register math utility nodes
+  registry.register(ExpressionNode, {
+    type: 'ExpressionNode',
+    category: 'Math',
+    label: 'Expression',
+    description: 'Evaluate a formula, with an input per variable',
+    icon: '🧮',
+    workerSafe: true,
+  });
+
   registry.register(DEG2RADNode, {
     type: 'DEG2RADNode',
     category: 'Math',
     label: 'DEG2RAD',
     description: 'Degrees to radians constant',
+    workerSafe: true,
   });
 
   registry.register(RAD2DEGNode, {
@@ -841,6 +997,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'RAD2DEG',
     description: 'Radians to degrees constant',
+    workerSafe: true,
   });
 
   registry.register(ClampNode, {
@@ -848,6 +1005,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Clamp',
     description: 'Clamps value between min and max',
+    workerSafe: true,
   });
 
   registry.register(LerpNode, {
@@ -855,6 +1013,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Lerp',
     description: 'Linear interpolation between two values',
+    workerSafe: true,
   });
 
   registry.register(InverseLerpNode, {
@@ -862,6 +1021,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Inverse Lerp',
     description: 'Inverse linear interpolation',
+    workerSafe: true,
   });
 
   registry.register(DampNode, {
@@ -869,6 +1029,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Damp',
     description: 'Smooth damping between values',
+    workerSafe: true,
   });
 
   registry.register(MapLinearNode, {
@@ -876,6 +1037,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Map Linear',
     description: 'Maps value from one range to another',
+    workerSafe: true,
   });
 
   registry.register(SmoothstepNode, {
@@ -883,6 +1045,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Smoothstep',
     description: 'Smooth interpolation with easing',
+    workerSafe: true,
   });
 
   registry.register(SmootherStepNode, {
@@ -890,6 +1053,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Smoother Step',
     description: 'Smoother interpolation with easing',
+    workerSafe: true,
   });
 
   registry.register(PingPongNode, {
@@ -897,6 +1061,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Ping Pong',
     description: 'Ping-pong between 0 and length',
+    workerSafe: true,
   });
 
   registry.register(EuclideanModuloNode, {
@@ -904,20 +1069,23 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Euclidean Modulo',
     description: 'Euclidean modulo operation',
+    workerSafe: true,
   });
 
   registry.register(RandomNode, {
     type: 'RandomNode',
     category: 'Math',
     label: 'Random',
-    description: 'Random float between low and high',
+    description: 'Seeded random float between low and high',
+    workerSafe: true,
   });
 
   registry.register(RandIntNode, {
     type: 'RandIntNode',
     category: 'Math',
     label: 'Random Integer',
-    description: 'Random integer between low and high',
+    description: 'Seeded random integer between low and high',
+    workerSafe: true,
   });
 
   registry.register(IsPowerOfTwoNode, {
@@ -925,6 +1093,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Is Power of Two',
     description: 'Check if value is power of two',
+    workerSafe: true,
   });
 
   registry.register(CeilPowerOfTwoNode, {
@@ -932,6 +1101,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Ceil Power of Two',
     description: 'Round up to next power of two',
+    workerSafe: true,
   });
 
   registry.register(FloorPowerOfTwoNode, {
@@ -939,6 +1109,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Floor Power of Two',
     description: 'Round down to previous power of two',
+    workerSafe: true,
   });
 
   // Register math operation nodes
@@ -948,6 +1119,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Add',
     description: 'Add two numbers',
     icon: '➕',
+    workerSafe: true,
   });
 
   registry.register(SubtractNode, {
@@ -956,6 +1128,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Subtract',
     description: 'Subtract two numbers',
     icon: '➖',
+    workerSafe: true,
   });
 
   registry.register(MultiplyNode, {
@@ -964,6 +1137,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Multiply',
     description: 'Multiply two numbers',
     icon: '✖️',
+    workerSafe: true,
   });
 
   registry.register(DivideNode, {
@@ -972,6 +1146,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Divide',
     description: 'Divide two numbers',
     icon: '➗',
+    workerSafe: true,
   });
 
   registry.register(PowerNode, {
@@ -979,6 +1154,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math/Operations',
     label: 'Power',
     description: 'Raise base to exponent',
+    workerSafe: true,
   });
 
   registry.register(SqrtNode, {
@@ -986,6 +1162,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math/Operations',
     label: 'Square Root',
     description: 'Square root of value',
+    workerSafe: true,
   });
 
   registry.register(AbsNode, {
@@ -993,6 +1170,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math/Operations',
     label: 'Absolute Value',
     description: 'Absolute value',
+    workerSafe: true,
   });
 
   registry.register(MinNode, {
@@ -1000,6 +1178,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math/Operations',
     label: 'Minimum',
     description: 'Minimum of two values',
+    workerSafe: true,
   });
 
   registry.register(MaxNode, {
@@ -1007,6 +1186,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math/Operations',
     label: 'Maximum',
     description: 'Maximum of two values',
+    workerSafe: true,
   });
 
   registry.register(DistanceNode, {
@@ -1014,6 +1194,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math/Operations',
     label: 'Distance',
     description: 'Distance between two Vector3s',
+    workerSafe: true,
   });
 
   registry.register(DotProductNode, {
@@ -1021,6 +1202,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math/Operations',
     label: 'Dot Product',
     description: 'Dot product of two Vector3s',
+    workerSafe: true,
   });
 
   registry.register(CrossProductNode, {
@@ -1028,6 +1210,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math/Operations',
     label: 'Cross Product',
     description: 'Cross product of two Vector3s',
+    workerSafe: true,
   });
 
   // Register geometry utility nodes
@@ -1043,6 +1226,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Geometry/Utils',
     label: 'Merge Vertices',
     description: 'Merge duplicate vertices',
+    memoize: true,
   });
 
   registry.register(InterleaveAttributesNode, {
@@ -1057,6 +1241,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Geometry/Utils',
     label: 'Compute MikkTSpace',
     description: 'Compute tangent space using MikkTSpace',
+    memoize: true,
   });
 
   registry.register(ComputeMorphedAttributesNode, {
@@ -1094,6 +1279,13 @@ export function createDefaultRegistry(): NodeRegistry {
     description: 'Convert geometry to indexed format',
   });
 
+  registry.register(ObjectGeometryNode, {
+    type: 'ObjectGeometryNode',
+    category: 'Geometry/Utils',
+    label: 'Object Geometry',
+    description: 'Geometry of the first mesh in an object, or of all its meshes merged',
+  });
+
   // Register transform nodes
   registry.register(PositionNode, {
     type: 'PositionNode',
@@ -1182,6 +1374,7 @@ export function createDefaultRegistry(): NodeRegistry {
     category: 'Math',
     label: 'Vector2',
     description: 'Creates a 2D vector',
+    workerSafe: true,
   });
 
   registry.register(QuaternionNode, {
@@ -1302,6 +1495,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Improved Noise',
     description: 'Perlin noise generation',
     icon: '🌫️',
+    workerSafe: true,
   });
 
   registry.register(ConvexHullNode, {
@@ -1310,6 +1504,7 @@ export function createDefaultRegistry(): NodeRegistry {
     label: 'Convex Hull',
     description: 'Computes convex hull from points',
     icon: '📐',
+    memoize: true,
   });
 
   registry.register(OctreeHelperNode, {
@@ -1345,5 +1540,51 @@ export function createDefaultRegistry(): NodeRegistry {
     icon: '🛡️',
   });
 
+  // Register group nodes (created by collapsing a selection, not from the menu)
+  registry.register(GroupNode, {
+    type: 'GroupNode',
+    category: 'Group',
+    label: 'Group',
+    description: 'Evaluates a nested subgraph',
+    icon: '📦',
+    hidden: true,
+  });
+
+  registry.register(ForEachNode, {
+    type: 'ForEachNode',
+    category: 'Group',
+    label: 'For Each',
+    description: 'Evaluates a nested subgraph once per item of a list',
+    icon: '🔁',
+    hidden: true,
+  });
+
+  registry.register(SolverNode, {
+    type: 'SolverNode',
+    category: 'Group',
+    label: 'Solver',
+    description: 'Feeds the outputs of a nested subgraph back to its inputs',
+    icon: '♻️',
+    hidden: true,
+  });
+
+  registry.register(GroupInputNode, {
+    type: 'GroupInputNode',
+    category: 'Group',
+    label: 'Group Input',
+    description: 'Inputs of the enclosing group',
+    icon: '📥',
+    hidden: true,
+  });
+
+  registry.register(GroupOutputNode, {
+    type: 'GroupOutputNode',
+    category: 'Group',
+    label: 'Group Output',
+    description: 'Outputs of the enclosing group',
+    icon: '📤',
+    hidden: true,
+  });
+
   return registry;
 }
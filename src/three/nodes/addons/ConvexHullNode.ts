@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 import { ConvexHull } from 'three/addons/math/ConvexHull.js';
@@ -7,7 +7,7 @@ import { ConvexHull } from 'three/addons/math/ConvexHull.js';
 export class ConvexHullNode extends BaseThreeNode<'points', 'faces' | 'vertices'> {
   constructor(id: string) {
     super(id, 'ConvexHullNode', 'Convex Hull');
-    this.addInput({ name: 'points', type: PortType.Any, defaultValue: [] });
+    this.addInput({ name: 'points', type: listOf(PortType.Vector3), defaultValue: [] });
     this.addOutput({ name: 'faces', type: PortType.Any });
     this.addOutput({ name: 'vertices', type: PortType.Any });
   }
@@ -16,7 +16,7 @@ export class ConvexHullNode extends BaseThreeNode<'points', 'faces' | 'vertices'
     const points = this.getInputValue<THREE.Vector3[]>('points') ?? [];
 
     if (!Array.isArray(points) || points.length === 0) {
-      console.warn('ConvexHullNode: No points provided');
+      this.warn('No points provided');
       return;
     }
 
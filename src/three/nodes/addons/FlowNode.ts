@@ -8,7 +8,7 @@ export class FlowNode extends BaseThreeNode<'object3D' | 'curve' | 'segments', '
   constructor(id: string) {
     super(id, 'FlowNode', 'Flow');
     this.addInput({ name: 'object3D', type: PortType.Object3D });
-    this.addInput({ name: 'curve', type: PortType.Any });
+    this.addInput({ name: 'curve', type: PortType.Curve });
     this.addInput({ name: 'segments', type: PortType.Number, defaultValue: 10 });
     this.addOutput({ name: 'flow', type: PortType.Any });
   }
@@ -19,13 +19,13 @@ export class FlowNode extends BaseThreeNode<'object3D' | 'curve' | 'segments', '
     const segments = this.getInputValue<number>('segments') ?? 10;
 
     if (!object3D || !curve) {
-      console.warn('FlowNode: Missing object3D or curve');
+      this.warn('Missing object3D or curve');
       return;
     }
 
     // Flow expects a Mesh, so check if object3D is a mesh or has meshes
     if (!(object3D as any).isMesh) {
-      console.warn('FlowNode: object3D must be a Mesh');
+      this.warn('object3D must be a Mesh');
       return;
     }
 
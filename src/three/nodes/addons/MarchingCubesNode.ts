@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 import { MarchingCubes } from 'three/addons/objects/MarchingCubes.js';
@@ -13,20 +13,25 @@ export class MarchingCubesNode extends BaseThreeNode<
     this.addInput({ name: 'resolution', type: PortType.Number, defaultValue: 28 });
     this.addInput({ name: 'material', type: PortType.Material });
     this.addInput({ name: 'isolevel', type: PortType.Number, defaultValue: 80 });
-    this.addInput({ name: 'points', type: PortType.Any, defaultValue: [] });
-    this.addInput({ name: 'strengths', type: PortType.Any, defaultValue: [] });
-    this.addInput({ name: 'subtract', type: PortType.Any, defaultValue: [] });
+    this.addInput({ name: 'points', type: listOf(PortType.Vector3), defaultValue: [] });
+    this.addInput({ name: 'strengths', type: listOf(PortType.Number), defaultValue: [] });
+    this.addInput({ name: 'subtract', type: listOf(PortType.Boolean), defaultValue: [] });
     this.addOutput({ name: 'marchingCubes', type: PortType.Object3D });
   }
 
-  evaluate(_context: EvaluationContext): void {
+  // For the default points
+  readsSeed(): boolean {
+    return true;
+  }
+
+  evaluate(context: EvaluationContext): void {
     const resolution = this.getInputValue<number>('resolution') ?? 28;
     const material = this.getInputValue<THREE.Material>('material');
     let points = this.getInputValue<THREE.Vector3[]>('points') ?? [];
     let strengths = this.getInputValue<number[]>('strengths') ?? [];
     let subtract = this.getInputValue<boolean[]>('subtract') ?? [];
 
-    // If no points provided, create a default 5x5 grid for preview
+    // If no points provided, create a seeded random cloud for preview
     if (!Array.isArray(points) || points.length === 0) {
       points = [];
       strengths = [];
@@ -34,13 +39,14 @@ export class MarchingCubesNode extends BaseThreeNode<
       const numPoints = 30;
 
       const size = 1;
+      const random = this.random(context);
 
       for (let i = 0; i < numPoints; i++) {
-        const x = THREE.MathUtils.randFloat(0, size);
-        const z = THREE.MathUtils.randFloat(0, size);
-        const y = THREE.MathUtils.randFloat(0, size);
+        const x = random.float(0, size);
+        const z = random.float(0, size);
+        const y = random.float(0, size);
         points.push(new THREE.Vector3(x, y, z));
-        strengths.push(THREE.MathUtils.randFloat(0, 1));
+        strengths.push(random.float(0, 1));
         subtract.push(false);
       }
     }
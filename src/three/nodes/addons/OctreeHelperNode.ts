@@ -17,7 +17,7 @@ export class OctreeHelperNode extends BaseThreeNode<'octree' | 'color', 'helper'
     const color = this.getInputValue<number>('color');
 
     if (!octree) {
-      console.warn('OctreeHelperNode: No octree provided');
+      this.warn('No octree provided');
       return;
     }
 
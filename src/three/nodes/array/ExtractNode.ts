@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 
 export class ExtractNode extends BaseThreeNode<'array' | 'index', 'value'> {
@@ -7,7 +7,7 @@ export class ExtractNode extends BaseThreeNode<'array' | 'index', 'value'> {
     super(id, 'ExtractNode', 'Extract');
 
     // Input array to extract from
-    this.addInput({ name: 'array', type: PortType.Any });
+    this.addInput({ name: 'array', type: listOf(PortType.Any) });
 
     // Input index or indices to extract
     // Can be a single number or an array of numbers
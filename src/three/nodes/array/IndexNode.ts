@@ -1,36 +1,32 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 
-export class IndexNode extends BaseThreeNode<
-  'array' | 'index',
-  'value'
-> {
+export class IndexNode extends BaseThreeNode<'array' | 'index', 'value'> {
   constructor(id: string) {
     super(id, 'IndexNode', 'Index');
 
     // Inputs
-    this.addInput({ name: 'array', type: PortType.Any });
+    this.addInput({ name: 'array', type: listOf(PortType.Any), access: 'list' });
     this.addInput({ name: 'index', type: PortType.Number, defaultValue: 0 });
 
     // Output
     this.addOutput({ name: 'value', type: PortType.Any });
+    this.addMatchingProperty();
   }
 
   evaluate(_context: EvaluationContext): void {
-    const array = this.getInputValue<any[]>('array');
-    const index = this.getInputValue<number>('index') ?? 0;
+    // Each index looks up an item in the matching branch of the array
+    const result = this.solveTree(['array', 'index'], (values) => {
+      const array = values.array as unknown[];
+      const index = values.index ?? 0;
 
-    if (!Array.isArray(array)) {
-      this.setOutputValue('value', undefined);
-      return;
-    }
+      // Handle negative indices (Python-style)
+      const actualIndex = index < 0 ? array.length + index : index;
 
-    // Handle negative indices (Python-style)
-    const actualIndex = index < 0 ? array.length + index : index;
-
-    // Get value at index, or undefined if out of bounds
-    const value = actualIndex >= 0 && actualIndex < array.length ? array[actualIndex] : undefined;
-    this.setOutputValue('value', value);
+      // Get value at index, or undefined if out of bounds
+      return actualIndex >= 0 && actualIndex < array.length ? array[actualIndex] : undefined;
+    });
+    this.setOutputValue('value', result.toValue());
   }
 }
@@ -1,29 +1,21 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 
-export class LengthNode extends BaseThreeNode<
-  'array',
-  'length'
-> {
+export class LengthNode extends BaseThreeNode<'array', 'length'> {
   constructor(id: string) {
     super(id, 'LengthNode', 'Length');
 
     // Input
-    this.addInput({ name: 'array', type: PortType.Any });
+    this.addInput({ name: 'array', type: listOf(PortType.Any), access: 'list' });
 
     // Output
     this.addOutput({ name: 'length', type: PortType.Number });
   }
 
   evaluate(_context: EvaluationContext): void {
-    const array = this.getInputValue<any[]>('array');
-
-    if (!Array.isArray(array)) {
-      this.setOutputValue('length', 0);
-      return;
-    }
-
-    this.setOutputValue('length', array.length);
+    // One length per branch
+    const lengths = this.solveTree(['array'], (values) => (values.array as unknown[]).length);
+    this.setOutputValue('length', lengths.toValue() ?? 0);
   }
 }
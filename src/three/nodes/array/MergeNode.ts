@@ -1,5 +1,5 @@
 import { TweakpaneNode } from '../../TweakpaneNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import { NodeLayoutConfig } from '@/core/types';
 
@@ -14,7 +14,7 @@ export class MergeNode extends TweakpaneNode<'string', 'array'> {
     this.updateInputs();
 
     // Output array
-    this.addOutput({ name: 'array', type: PortType.Any });
+    this.addOutput({ name: 'array', type: listOf(PortType.Any) });
   }
 
   protected setupTweakpaneControls(): void {
@@ -0,0 +1,48 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType, listOf } from '@/types';
+import { EvaluationContext } from '@/core';
+
+/**
+ * Random Pick Node
+ * Picks count seeded random items from an array. Unique picks never take the
+ * same item twice, so there are at most as many as the array has items.
+ */
+export class RandomPickNode extends BaseThreeNode<'array' | 'count' | 'unique' | 'seed', 'items'> {
+  constructor(id: string) {
+    super(id, 'RandomPickNode', 'Random Pick');
+
+    this.addInput({ name: 'array', type: listOf(PortType.Any) });
+    this.addInput({ name: 'count', type: PortType.Number, defaultValue: 1 });
+    this.addInput({ name: 'unique', type: PortType.Boolean, defaultValue: true });
+    this.addInput({ name: 'seed', type: PortType.Number, defaultValue: 0 });
+
+    this.addOutput({ name: 'items', type: listOf(PortType.Any) });
+  }
+
+  readsSeed(): boolean {
+    return true;
+  }
+
+  evaluate(context: EvaluationContext): void {
+    const array = this.getInputValue<unknown[]>('array');
+    const count = Math.max(0, Math.floor(this.getInputValue<number>('count') ?? 1));
+    const unique = this.getInputValue<boolean>('unique') ?? true;
+    const random = this.random(context, this.getInputValue<number>('seed') ?? 0);
+
+    if (!Array.isArray(array) || array.length === 0) {
+      this.setOutputValue('items', []);
+      return;
+    }
+
+    if (unique) {
+      this.setOutputValue('items', random.shuffle(array).slice(0, count));
+      return;
+    }
+
+    const items: unknown[] = [];
+    for (let i = 0; i < count; i++) {
+      items.push(random.pick(array));
+    }
+    this.setOutputValue('items', items);
+  }
+}
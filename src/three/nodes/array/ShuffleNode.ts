@@ -0,0 +1,34 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType, listOf } from '@/types';
+import { EvaluationContext } from '@/core';
+
+/**
+ * Shuffle Node
+ * Puts the items of an array in a seeded random order
+ */
+export class ShuffleNode extends BaseThreeNode<'array' | 'seed', 'array'> {
+  constructor(id: string) {
+    super(id, 'ShuffleNode', 'Shuffle');
+
+    this.addInput({ name: 'array', type: listOf(PortType.Any) });
+    this.addInput({ name: 'seed', type: PortType.Number, defaultValue: 0 });
+
+    this.addOutput({ name: 'array', type: listOf(PortType.Any) });
+  }
+
+  readsSeed(): boolean {
+    return true;
+  }
+
+  evaluate(context: EvaluationContext): void {
+    const array = this.getInputValue<unknown[]>('array');
+    const seed = this.getInputValue<number>('seed') ?? 0;
+
+    if (!Array.isArray(array)) {
+      this.setOutputValue('array', []);
+      return;
+    }
+
+    this.setOutputValue('array', this.random(context, seed).shuffle(array));
+  }
+}
@@ -30,7 +30,7 @@ export class ActiveCameraNode extends BaseThreeNode<
     const target = this.getInputValue<THREE.Vector3>('target');
 
     if (!camera) {
-      console.warn('ActiveCameraNode: No camera provided');
+      this.warn('No camera provided');
       this.setOutputValue('camera', undefined);
       return;
     }
@@ -57,5 +57,7 @@ export class ActiveCameraNode extends BaseThreeNode<
     }
 
     this.setOutputValue('camera', camera);
+    // The graph's camera, moved to the new position and target
+    this.markOutputChanged('camera');
   }
 }
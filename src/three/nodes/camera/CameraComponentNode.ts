@@ -125,6 +125,8 @@ export class CameraComponentNode extends BaseThreeNode<
     this.updateCameraProperties(this.camera, cameraType);
 
     this.setOutputValue('camera', this.camera);
+    // The camera is reused across evaluations
+    this.markOutputChanged('camera');
   }
 
   private needsRecreation(cameraType: string): boolean {
@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 
@@ -9,11 +9,11 @@ export class CatmullRomCurve3Node extends BaseThreeNode<
 > {
   constructor(id: string) {
     super(id, 'CatmullRomCurve3Node', 'Catmull-Rom Curve 3D');
-    this.addInput({ name: 'points', type: PortType.Any, defaultValue: [] });
+    this.addInput({ name: 'points', type: listOf(PortType.Vector3), defaultValue: [] });
     this.addInput({ name: 'closed', type: PortType.Boolean, defaultValue: false });
     this.addInput({ name: 'curveType', type: PortType.String, defaultValue: 'centripetal' });
     this.addInput({ name: 'tension', type: PortType.Number, defaultValue: 0.5 });
-    this.addOutput({ name: 'curve', type: PortType.Any });
+    this.addOutput({ name: 'curve', type: PortType.Curve });
   }
 
   evaluate(_context: EvaluationContext): void {
@@ -23,7 +23,7 @@ export class CatmullRomCurve3Node extends BaseThreeNode<
     const tension = this.getInputValue<number>('tension') ?? 0.5;
 
     if (!Array.isArray(points) || points.length === 0) {
-      console.warn('CatmullRomCurve3Node: No points provided');
+      this.warn('No points provided');
       return;
     }
 
@@ -10,7 +10,7 @@ export class CubicBezierCurve3Node extends BaseThreeNode<'v0' | 'v1' | 'v2' | 'v
     this.addInput({ name: 'v1', type: PortType.Vector3, defaultValue: new THREE.Vector3(1, 1, 0) });
     this.addInput({ name: 'v2', type: PortType.Vector3, defaultValue: new THREE.Vector3(2, -1, 0) });
     this.addInput({ name: 'v3', type: PortType.Vector3, defaultValue: new THREE.Vector3(3, 0, 0) });
-    this.addOutput({ name: 'curve', type: PortType.Any });
+    this.addOutput({ name: 'curve', type: PortType.Curve });
   }
 
   evaluate(_context: EvaluationContext): void {
@@ -1,20 +1,20 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 
 export class CurvePathNode extends BaseThreeNode<'curves', 'path'> {
   constructor(id: string) {
     super(id, 'CurvePathNode', 'Curve Path');
-    this.addInput({ name: 'curves', type: PortType.Any, defaultValue: [] });
-    this.addOutput({ name: 'path', type: PortType.Any });
+    this.addInput({ name: 'curves', type: listOf(PortType.Curve), defaultValue: [] });
+    this.addOutput({ name: 'path', type: PortType.Curve });
   }
 
   evaluate(_context: EvaluationContext): void {
     const curves = this.getInputValue<THREE.Curve<THREE.Vector3>[]>('curves') ?? [];
 
     if (!Array.isArray(curves) || curves.length === 0) {
-      console.warn('CurvePathNode: No curves provided');
+      this.warn('No curves provided');
       return;
     }
 
@@ -6,7 +6,7 @@ import * as THREE from 'three';
 export class EvaluateCurveNode extends BaseThreeNode<'curve' | 't', 'point' | 'tangent'> {
   constructor(id: string) {
     super(id, 'EvaluateCurveNode', 'Evaluate Curve');
-    this.addInput({ name: 'curve', type: PortType.Any });
+    this.addInput({ name: 'curve', type: PortType.Curve });
     this.addInput({ name: 't', type: PortType.Number, defaultValue: 0.5 });
     this.addOutput({ name: 'point', type: PortType.Vector3 });
     this.addOutput({ name: 'tangent', type: PortType.Vector3 });
@@ -17,7 +17,7 @@ export class EvaluateCurveNode extends BaseThreeNode<'curve' | 't', 'point' | 't
     const t = this.getInputValue<number>('t') ?? 0.5;
 
     if (!curve) {
-      console.warn('EvaluateCurveNode: No curve provided');
+      this.warn('No curve provided');
       return;
     }
 
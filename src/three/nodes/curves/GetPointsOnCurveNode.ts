@@ -1,14 +1,14 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 
 export class GetPointsOnCurveNode extends BaseThreeNode<'curve' | 'divisions', 'points'> {
   constructor(id: string) {
     super(id, 'GetPointsOnCurveNode', 'Get Points on Curve');
-    this.addInput({ name: 'curve', type: PortType.Any });
+    this.addInput({ name: 'curve', type: PortType.Curve });
     this.addInput({ name: 'divisions', type: PortType.Number, defaultValue: 50 });
-    this.addOutput({ name: 'points', type: PortType.Any });
+    this.addOutput({ name: 'points', type: listOf(PortType.Vector3) });
   }
 
   evaluate(_context: EvaluationContext): void {
@@ -16,7 +16,7 @@ export class GetPointsOnCurveNode extends BaseThreeNode<'curve' | 'divisions', '
     const divisions = this.getInputValue<number>('divisions') ?? 50;
 
     if (!curve) {
-      console.warn('GetPointsOnCurveNode: No curve provided');
+      this.warn('No curve provided');
       return;
     }
 
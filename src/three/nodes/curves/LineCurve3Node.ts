@@ -8,7 +8,7 @@ export class LineCurve3Node extends BaseThreeNode<'start' | 'end', 'curve'> {
     super(id, 'LineCurve3Node', 'Line Curve 3D');
     this.addInput({ name: 'start', type: PortType.Vector3, defaultValue: new THREE.Vector3(0, 0, 0) });
     this.addInput({ name: 'end', type: PortType.Vector3, defaultValue: new THREE.Vector3(1, 1, 1) });
-    this.addOutput({ name: 'curve', type: PortType.Any });
+    this.addOutput({ name: 'curve', type: PortType.Curve });
   }
 
   evaluate(_context: EvaluationContext): void {
@@ -9,7 +9,7 @@ export class QuadraticBezierCurve3Node extends BaseThreeNode<'v0' | 'v1' | 'v2',
     this.addInput({ name: 'v0', type: PortType.Vector3, defaultValue: new THREE.Vector3(0, 0, 0) });
     this.addInput({ name: 'v1', type: PortType.Vector3, defaultValue: new THREE.Vector3(1, 1, 0) });
     this.addInput({ name: 'v2', type: PortType.Vector3, defaultValue: new THREE.Vector3(2, 0, 0) });
-    this.addOutput({ name: 'curve', type: PortType.Any });
+    this.addOutput({ name: 'curve', type: PortType.Curve });
   }
 
   evaluate(_context: EvaluationContext): void {
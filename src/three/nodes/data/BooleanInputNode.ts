@@ -29,8 +29,7 @@ export class BooleanInputNode extends TweakpaneNode<never, 'value'> {
         label: '',
       })
       .on('change', (ev) => {
-        this.currentValue = ev.value;
-        this.onTweakpaneChange();
+        this.changeValue('value', this.currentValue, ev.value, (value) => this.setValue(value));
       });
   }
 
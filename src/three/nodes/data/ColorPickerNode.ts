@@ -39,8 +39,7 @@ export class ColorPickerNode extends TweakpaneNode<never, 'color'> {
         picker: 'inline', // Show picker inline, not in a popup
       })
       .on('change', (ev) => {
-        this.currentColor.set(ev.value);
-        this.onTweakpaneChange();
+        this.changeValue('color', this.getColorHex(), ev.value, (hex) => this.setColorFromHex(hex));
       });
   }
 
@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 
@@ -9,10 +9,10 @@ export class Float16BufferAttributeNode extends BaseThreeNode<
 > {
   constructor(id: string) {
     super(id, 'Float16BufferAttributeNode', 'Float16 Buffer Attribute');
-    this.addInput({ name: 'array', type: PortType.Any, defaultValue: [] });
+    this.addInput({ name: 'array', type: listOf(PortType.Number), defaultValue: [] });
     this.addInput({ name: 'itemSize', type: PortType.Number, defaultValue: 3 });
     this.addInput({ name: 'normalized', type: PortType.Boolean, defaultValue: false });
-    this.addOutput({ name: 'attribute', type: PortType.Any });
+    this.addOutput({ name: 'attribute', type: PortType.BufferAttribute });
   }
 
   evaluate(_context: EvaluationContext): void {
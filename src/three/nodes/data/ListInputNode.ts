@@ -41,8 +41,7 @@ export class ListInputNode extends TweakpaneNode<
         options: options,
       })
       .on('change', (ev) => {
-        this.currentValue = ev.value;
-        this.onTweakpaneChange();
+        this.changeValue('value', this.currentValue, ev.value, (value) => this.setValue(value));
       });
   }
 
@@ -50,8 +50,7 @@ export class NumberSliderNode extends TweakpaneNode<never, 'value'> {
         step: stepValue,
       })
       .on('change', (ev) => {
-        this.currentValue = ev.value;
-        this.onTweakpaneChange();
+        this.changeValue('value', this.currentValue, ev.value, (value) => this.setValue(value));
       });
   }
 
@@ -0,0 +1,107 @@
+import { TweakpaneNode } from '../../TweakpaneNode';
+import { PortType } from '@/types';
+import { EvaluationContext } from '@/core/types';
+import { GraphParameter, PARAMETER_PORT_TYPES } from '@/core/parameters';
+import * as THREE from 'three';
+
+/**
+ * Parameter Node
+ *
+ * Reads one of the graph's parameters (see the Parameters panel). Its output
+ * takes the type of the parameter.
+ */
+export class ParameterNode extends TweakpaneNode<never, 'value'> {
+  private params = { parameter: '' };
+  private listedNames = ''; // Parameter names in the dropdown, to rebuild it when they change
+
+  constructor(id: string) {
+    super(id, 'ParameterNode', 'Parameter');
+
+    // Name of the parameter to read
+    this.addProperty({ name: 'parameter', type: 'string', value: '', label: 'Parameter' });
+
+    this.addOutput({ name: 'value', type: PortType.Any });
+  }
+
+  protected setupTweakpaneControls(): void {
+    if (!this.pane) return;
+
+    const names = this.graph?.parameters.map((parameter) => parameter.name) ?? [];
+    this.listedNames = names.join('\n');
+    this.params.parameter = this.getProperty('parameter') ?? '';
+
+    const options: Record<string, string> = { '(none)': '' };
+    for (const name of names) {
+      options[this.graph?.getParameter(name)?.label || name] = name;
+    }
+
+    this.pane.addBinding(this.params, 'parameter', { label: '', options }).on('change', (ev) => {
+      this.setProperty('parameter', ev.value);
+      this.onTweakpaneChange();
+    });
+  }
+
+  // Take the parameter's type once in a graph, before edges are connected on load
+  init(): void {
+    super.init();
+    this.syncOutputType();
+  }
+
+  protected onPropertyChange(name: string): void {
+    if (name === 'parameter') {
+      this.syncOutputType();
+    }
+  }
+
+  // Also re-evaluated when its parameter is missing, so it picks it up once added
+  readsParameter(name: string): boolean {
+    const selected = this.getProperty('parameter');
+    return selected === name || !this.graph?.getParameter(selected);
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    this.refreshParameterList();
+
+    // The parameter may have been replaced by one of another type, or removed
+    this.syncOutputType();
+    const name = this.getProperty('parameter');
+    const parameter = this.getSelectedParameter();
+
+    if (!parameter) {
+      this.setOutputValue('value', undefined);
+      if (name) this.reportError(`Unknown parameter "${name}"`);
+      return;
+    }
+
+    switch (parameter.type) {
+      case 'color':
+        this.setOutputValue('value', new THREE.Color(parameter.value as string));
+        break;
+      case 'vector3':
+        this.setOutputValue('value', (parameter.value as THREE.Vector3).clone());
+        break;
+      default:
+        this.setOutputValue('value', parameter.value);
+    }
+  }
+
+  private getSelectedParameter(): GraphParameter | undefined {
+    const name = this.getProperty('parameter');
+    return name ? this.graph?.getParameter(name) : undefined;
+  }
+
+  // The selected parameter's type, or Any while there is none
+  private syncOutputType(): void {
+    const parameter = this.getSelectedParameter();
+    this.setOutputType('value', parameter ? PARAMETER_PORT_TYPES[parameter.type] : PortType.Any);
+  }
+
+  // Rebuild the dropdown after parameters were added or removed
+  private refreshParameterList(): void {
+    const names = this.graph?.parameters.map((parameter) => parameter.name).join('\n') ?? '';
+    if (names !== this.listedNames && this.pane && this.container) {
+      this.pane.dispose();
+      this.initializeTweakpane(this.container);
+    }
+  }
+}
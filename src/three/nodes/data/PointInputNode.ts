@@ -31,8 +31,7 @@ export class PointInputNode extends TweakpaneNode<never, 'point'> {
         expanded: true, // Always show expanded x/y controls
       })
       .on('change', (ev) => {
-        this.currentValue = { ...ev.value };
-        this.onTweakpaneChange();
+        this.changeValue('value', this.currentValue, ev.value, (value) => this.setValue(value));
       });
   }
 
@@ -28,8 +28,7 @@ export class StringInputNode extends TweakpaneNode<
     this.params.value = this.currentValue;
 
     this.pane.addBinding(this.params, 'value').on('change', (ev) => {
-      this.currentValue = ev.value;
-      this.onTweakpaneChange();
+      this.changeValue('value', this.currentValue, ev.value, (value) => this.setValue(value));
     });
   }
 
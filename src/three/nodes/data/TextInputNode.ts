@@ -43,8 +43,7 @@ export class TextInputNode extends TweakpaneNode<
         rows: rows,
       })
       .on('change', (ev) => {
-        this.currentValue = ev.value;
-        this.onTweakpaneChange();
+        this.changeValue('value', this.currentValue, ev.value, (value) => this.setValue(value));
       });
   }
 
@@ -84,7 +84,7 @@ export class Vector3Node extends TweakpaneNode<'x' | 'y' | 'z', 'vector'> {
         max: this.getProperty('xMax') ?? 10,
         step: this.getProperty('xStep') ?? 0.1,
       });
-      binding.on('change', () => this.onTweakpaneChange());
+      binding.on('change', (ev) => this.setProperty('xDefault', ev.value));
       this.bindings.set('x', binding);
     } else {
       // Show a disabled label when X input is connected
@@ -104,7 +104,7 @@ export class Vector3Node extends TweakpaneNode<'x' | 'y' | 'z', 'vector'> {
         max: this.getProperty('yMax') ?? 10,
         step: this.getProperty('yStep') ?? 0.1,
       });
-      binding.on('change', () => this.onTweakpaneChange());
+      binding.on('change', (ev) => this.setProperty('yDefault', ev.value));
       this.bindings.set('y', binding);
     } else {
       // Show a disabled label when Y input is connected
@@ -124,7 +124,7 @@ export class Vector3Node extends TweakpaneNode<'x' | 'y' | 'z', 'vector'> {
         max: this.getProperty('zMax') ?? 10,
         step: this.getProperty('zStep') ?? 0.1,
       });
-      binding.on('change', () => this.onTweakpaneChange());
+      binding.on('change', (ev) => this.setProperty('zDefault', ev.value));
       this.bindings.set('z', binding);
     } else {
       // Show a disabled label when Z input is connected
@@ -177,6 +177,14 @@ export class Vector3Node extends TweakpaneNode<'x' | 'y' | 'z', 'vector'> {
     }
   }
 
+  // The sliders edit the xDefault/yDefault/zDefault properties, recorded for undo
+  protected onPropertyChange(name: string, value: unknown): void {
+    const axis = /^([xyz])Default$/.exec(name)?.[1] as 'x' | 'y' | 'z' | undefined;
+    if (axis && typeof value === 'number') {
+      this.params[axis] = value;
+    }
+  }
+
   // Setters for individual axis values
   setX(value: number): void {
     this.params.x = value;
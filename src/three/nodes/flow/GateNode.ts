@@ -0,0 +1,31 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType } from '@/types';
+import { EvaluationContext } from '@/core';
+
+/**
+ * Gate Node
+ * Passes its value through while open. When closed, outputs nothing, or keeps
+ * the last value passed with Hold; the nodes feeding the value aren't evaluated.
+ */
+export class GateNode extends BaseThreeNode<'value' | 'open', 'value'> {
+  constructor(id: string) {
+    super(id, 'GateNode', 'Gate');
+    this.addInput({ name: 'value', type: PortType.Any, lazy: true });
+    this.addInput({ name: 'open', type: PortType.Boolean, defaultValue: true });
+    this.addOutput({ name: 'value', type: PortType.Any });
+
+    this.addProperty({ name: 'hold', type: 'boolean', value: false, label: 'Hold' });
+  }
+
+  selectInputs(): string[] {
+    return this.getInputValue<boolean>('open') ? ['value'] : [];
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    if (this.getInputValue<boolean>('open')) {
+      this.setOutputValue('value', this.inputs.get('value')!.getTree().toValue());
+    } else if (!this.getProperty('hold')) {
+      this.setOutputValue('value', undefined);
+    }
+  }
+}
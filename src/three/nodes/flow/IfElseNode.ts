@@ -0,0 +1,27 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType } from '@/types';
+import { EvaluationContext } from '@/core';
+
+/**
+ * If/Else Node
+ * Outputs the 'then' input when the condition holds, else the 'else' input.
+ * Only the nodes feeding the selected branch are evaluated.
+ */
+export class IfElseNode extends BaseThreeNode<'condition' | 'then' | 'else', 'result'> {
+  constructor(id: string) {
+    super(id, 'IfElseNode', 'If/Else');
+    this.addInput({ name: 'condition', type: PortType.Boolean, defaultValue: false });
+    this.addInput({ name: 'then', type: PortType.Any, lazy: true });
+    this.addInput({ name: 'else', type: PortType.Any, lazy: true });
+    this.addOutput({ name: 'result', type: PortType.Any });
+  }
+
+  selectInputs(): string[] {
+    return [this.getInputValue<boolean>('condition') ? 'then' : 'else'];
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    const [branch] = this.selectInputs();
+    this.setOutputValue('result', this.inputs.get(branch)!.getTree().toValue());
+  }
+}
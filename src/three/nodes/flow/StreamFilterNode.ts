@@ -0,0 +1,33 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType } from '@/types';
+import { EvaluationContext } from '@/core';
+
+const STREAM_COUNT = 4;
+
+type StreamInput = 'stream0' | 'stream1' | 'stream2' | 'stream3';
+
+/**
+ * Stream Filter Node
+ * Outputs the stream at the gate index, clamped to the streams there are.
+ * Only the nodes feeding that stream are evaluated.
+ */
+export class StreamFilterNode extends BaseThreeNode<'gate' | StreamInput, 'stream'> {
+  constructor(id: string) {
+    super(id, 'StreamFilterNode', 'Stream Filter');
+    this.addInput({ name: 'gate', type: PortType.Number, defaultValue: 0 });
+    for (let i = 0; i < STREAM_COUNT; i++) {
+      this.addInput({ name: `stream${i}`, type: PortType.Any, lazy: true });
+    }
+    this.addOutput({ name: 'stream', type: PortType.Any });
+  }
+
+  selectInputs(): string[] {
+    const gate = Math.round(Number(this.getInputValue('gate')) || 0);
+    return [`stream${Math.min(STREAM_COUNT - 1, Math.max(0, gate))}`];
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    const [stream] = this.selectInputs();
+    this.setOutputValue('stream', this.inputs.get(stream)!.getTree().toValue());
+  }
+}
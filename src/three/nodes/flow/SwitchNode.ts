@@ -0,0 +1,62 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType } from '@/types';
+import { EvaluationContext } from '@/core';
+
+const CASE_COUNT = 4;
+
+type CaseInput = 'case0' | 'case1' | 'case2' | 'case3';
+
+/**
+ * Switch Node
+ * Outputs one of its case inputs, picked by the selector: by index, or by
+ * matching the selector against the case keys. Falls back to the default input.
+ * Only the nodes feeding the selected case are evaluated.
+ */
+export class SwitchNode extends BaseThreeNode<'selector' | CaseInput | 'default', 'result'> {
+  constructor(id: string) {
+    super(id, 'SwitchNode', 'Switch');
+
+    this.addInput({ name: 'selector', type: PortType.Any, defaultValue: 0 });
+    for (let i = 0; i < CASE_COUNT; i++) {
+      this.addInput({ name: `case${i}`, type: PortType.Any, lazy: true });
+    }
+    this.addInput({ name: 'default', type: PortType.Any, lazy: true });
+    this.addOutput({ name: 'result', type: PortType.Any });
+
+    this.addProperty({
+      name: 'mode',
+      type: 'list',
+      value: 'index',
+      label: 'Select By',
+      options: {
+        Index: 'index',
+        String: 'string',
+      },
+    });
+    // Comma-separated, one per case, for the string mode
+    this.addProperty({ name: 'keys', type: 'string', value: 'a, b, c, d', label: 'Case Keys' });
+  }
+
+  selectInputs(): string[] {
+    const selector = this.getInputValue('selector');
+
+    let index: number;
+    if (this.getProperty('mode') === 'string') {
+      const keys = String(this.getProperty('keys') ?? '')
+        .split(',')
+        .map((key) => key.trim());
+      index = keys.indexOf(String(selector ?? ''));
+    } else {
+      index = Number(selector);
+    }
+
+    return [
+      Number.isInteger(index) && index >= 0 && index < CASE_COUNT ? `case${index}` : 'default',
+    ];
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    const [selected] = this.selectInputs();
+    this.setOutputValue('result', this.inputs.get(selected)!.getTree().toValue());
+  }
+}
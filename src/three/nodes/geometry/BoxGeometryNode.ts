@@ -10,6 +10,7 @@ export class BoxGeometryNode extends BaseThreeNode<'width' | 'height' | 'depth',
     this.addInput({ name: 'height', type: PortType.Number, defaultValue: 1 });
     this.addInput({ name: 'depth', type: PortType.Number, defaultValue: 1 });
     this.addOutput({ name: 'geometry', type: PortType.Geometry });
+    this.addMatchingProperty();
   }
 
   evaluate(_context: EvaluationContext): void {
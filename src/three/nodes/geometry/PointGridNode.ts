@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 
@@ -19,7 +19,7 @@ export class PointGridNode extends BaseThreeNode<
     this.addInput({ name: 'zCount', type: PortType.Number, defaultValue: 5 });
     this.addInput({ name: 'spacing', type: PortType.Number, defaultValue: 5 });
 
-    this.addOutput({ name: 'points', type: PortType.Any }); // Array of Vector3
+    this.addOutput({ name: 'points', type: listOf(PortType.Vector3) });
   }
 
   evaluate(_context: EvaluationContext): void {
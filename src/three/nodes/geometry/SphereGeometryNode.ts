@@ -13,6 +13,7 @@ export class SphereGeometryNode extends BaseThreeNode<
     this.addInput({ name: 'widthSegments', type: PortType.Number, defaultValue: 32 });
     this.addInput({ name: 'heightSegments', type: PortType.Number, defaultValue: 16 });
     this.addOutput({ name: 'geometry', type: PortType.Geometry });
+    this.addMatchingProperty();
   }
 
   evaluate(_context: EvaluationContext): void {
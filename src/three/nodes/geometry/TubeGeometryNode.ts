@@ -9,7 +9,7 @@ export class TubeGeometryNode extends BaseThreeNode<
 > {
   constructor(id: string) {
     super(id, 'TubeGeometryNode', 'Tube Geometry');
-    this.addInput({ name: 'curve', type: PortType.Any });
+    this.addInput({ name: 'curve', type: PortType.Curve });
     this.addInput({ name: 'tubularSegments', type: PortType.Number, defaultValue: 64 });
     this.addInput({ name: 'radius', type: PortType.Number, defaultValue: 1 });
     this.addInput({ name: 'radialSegments', type: PortType.Number, defaultValue: 8 });
@@ -25,7 +25,7 @@ export class TubeGeometryNode extends BaseThreeNode<
     const closed = this.getInputValue<boolean>('closed') ?? false;
 
     if (!curve) {
-      console.warn('TubeGeometryNode: No curve provided');
+      this.warn('No curve provided');
       return;
     }
 
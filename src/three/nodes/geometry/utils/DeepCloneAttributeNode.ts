@@ -10,8 +10,8 @@ export class DeepCloneAttributeNode extends BaseThreeNode<
 > {
   constructor(id: string) {
     super(id, 'DeepCloneAttributeNode', 'Deep Clone Attribute');
-    this.addInput({ name: 'attribute', type: PortType.Any });
-    this.addOutput({ name: 'attribute', type: PortType.Any });
+    this.addInput({ name: 'attribute', type: PortType.BufferAttribute });
+    this.addOutput({ name: 'attribute', type: PortType.BufferAttribute });
   }
 
   evaluate(_context: EvaluationContext): void {
@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 import { interleaveAttributes } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
@@ -10,7 +10,7 @@ export class InterleaveAttributesNode extends BaseThreeNode<
 > {
   constructor(id: string) {
     super(id, 'InterleaveAttributesNode', 'Interleave Attributes');
-    this.addInput({ name: 'attributes', type: PortType.Any }); // Array of attributes
+    this.addInput({ name: 'attributes', type: listOf(PortType.BufferAttribute) });
     this.addOutput({ name: 'interleavedBuffer', type: PortType.Any });
   }
 
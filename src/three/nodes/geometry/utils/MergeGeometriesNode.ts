@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
@@ -10,7 +10,7 @@ export class MergeGeometriesNode extends BaseThreeNode<
 > {
   constructor(id: string) {
     super(id, 'MergeGeometriesNode', 'Merge Geometries');
-    this.addInput({ name: 'geometries', type: PortType.Geometry }); // Array input
+    this.addInput({ name: 'geometries', type: listOf(PortType.Geometry) });
     this.addOutput({ name: 'geometry', type: PortType.Geometry });
 
     // Property for merge options
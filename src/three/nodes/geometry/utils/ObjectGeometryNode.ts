@@ -0,0 +1,64 @@
+import { BaseThreeNode } from '../../../BaseThreeNode';
+import { PortType } from '@/types';
+import { EvaluationContext } from '@/core';
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+// Converter inserted between Object3D outputs and Geometry inputs (see core/conversions)
+export class ObjectGeometryNode extends BaseThreeNode<'object', 'geometry'> {
+  constructor(id: string) {
+    super(id, 'ObjectGeometryNode', 'Object Geometry');
+    this.addInput({ name: 'object', type: PortType.Object3D });
+    this.addOutput({ name: 'geometry', type: PortType.Geometry });
+
+    this.addProperty({
+      name: 'mode',
+      type: 'list',
+      value: 'first',
+      label: 'Mode',
+      options: {
+        'First Mesh': 'first',
+        'Merge All Meshes': 'merge',
+      },
+    });
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    const object = this.getInputValue<THREE.Object3D>('object');
+    const mode = this.getProperty('mode') ?? 'first';
+
+    const meshes: THREE.Mesh[] = [];
+    object?.traverse((child) => {
+      if (child instanceof THREE.Mesh) meshes.push(child);
+    });
+
+    if (!object || meshes.length === 0) {
+      if (object) this.warn('Object contains no meshes');
+      this.setOutputValue('geometry', undefined);
+      return;
+    }
+
+    if (mode === 'first') {
+      this.setOutputValue('geometry', meshes[0].geometry);
+      return;
+    }
+
+    // Bake each mesh's transform relative to the object, so the parts keep their layout
+    object.updateMatrixWorld(true);
+    const inverse = object.matrixWorld.clone().invert();
+    const parts = meshes.map((mesh) =>
+      mesh.geometry.clone().applyMatrix4(inverse.clone().multiply(mesh.matrixWorld))
+    );
+
+    const merged = mergeGeometries(parts);
+    parts.forEach((part) => part.dispose());
+    if (!merged) {
+      this.reportError('Meshes have incompatible attributes and cannot be merged');
+      this.setOutputValue('geometry', undefined);
+      return;
+    }
+
+    this.trackResource(merged);
+    this.setOutputValue('geometry', merged);
+  }
+}
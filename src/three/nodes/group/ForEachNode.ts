@@ -0,0 +1,59 @@
+import { GroupNode } from './GroupNode';
+import { EvaluationContext } from '@/core';
+import {
+  PortDataType,
+  PortDefinition,
+  PortType,
+  PortValue,
+  elementType,
+  isListType,
+  listOf,
+} from '@/types';
+
+/**
+ * A block that evaluates its subgraph once per item of the list at its first
+ * input, and collects what arrives at each output into a list. Its other inputs
+ * are the same for every item.
+ */
+export class ForEachNode extends GroupNode {
+  constructor(id: string) {
+    super(id, 'ForEachNode', 'For Each');
+  }
+
+  // The first input takes a list of items, and every output gives a list of results
+  protected portType(definition: PortDefinition, isInput: boolean, index: number): PortDataType {
+    if (isInput && index > 0) return definition.type;
+    return isListType(definition.type) ? PortType.Any : listOf(elementType(definition.type));
+  }
+
+  evaluate(context: EvaluationContext): void {
+    const values = this.collectInputValues();
+    const [name] = this.inputs.keys();
+    const port = name === undefined ? undefined : this.inputs.get(name)!;
+    const items = port && port.connections.length > 0 ? port.getAllValues() : [];
+
+    const results = new Map<string, PortValue[]>();
+    for (const output of this.outputs.keys()) {
+      results.set(output, []);
+    }
+
+    for (const item of items) {
+      const outputs = this.runSubgraph(new Map(values).set(name!, item), context);
+      if (!outputs) {
+        this.reportError('Async nodes (e.g. loaders) are not supported inside a For Each');
+        break;
+      }
+      // Later items would fail the same way
+      if (this.subgraphHasError) break;
+
+      for (const [output, list] of results) {
+        list.push(outputs.get(output));
+      }
+    }
+
+    for (const [output, list] of results) {
+      this.setOutputValue(output, list);
+    }
+    this.reportSubgraphDiagnostics();
+  }
+}
@@ -0,0 +1,51 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortDefinition, PortValue } from '@/types';
+import { EvaluationContext } from '@/core';
+
+/**
+ * Exposes the inputs of a group node inside its subgraph.
+ * Each output mirrors the group input port of the same name.
+ */
+export class GroupInputNode extends BaseThreeNode {
+  private values: Map<string, PortValue> = new Map();
+
+  constructor(id: string) {
+    super(id, 'GroupInputNode', 'Group Input');
+  }
+
+  addPort(definition: PortDefinition): void {
+    this.addOutput(definition);
+  }
+
+  getPorts(): PortDefinition[] {
+    return Array.from(this.outputs.values()).map((port) => ({
+      name: port.name,
+      type: port.type,
+      defaultValue: port.defaultValue,
+    }));
+  }
+
+  // Values received by the group node, written to the outputs on evaluate
+  setValues(values: Map<string, PortValue>): void {
+    this.values = values;
+    this.markDirty();
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    for (const name of this.outputs.keys()) {
+      this.setOutputValue(name, this.values.get(name));
+    }
+  }
+
+  serializeState(): Record<string, unknown> {
+    return { ports: this.getPorts() };
+  }
+
+  restoreState(state: Record<string, unknown>): void {
+    if (!Array.isArray(state.ports)) return;
+    this.outputs.clear();
+    for (const definition of state.ports as PortDefinition[]) {
+      this.addPort(definition);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { Port } from '@/core/Port';
+import { Graph, Evaluator, EvaluationContext, GRAPH_EDIT_EVENTS } from '@/core';
+import { PortDataType, PortDefinition, PortValue } from '@/types';
+import { GroupInputNode } from './GroupInputNode';
+import { GroupOutputNode } from './GroupOutputNode';
+
+/**
+ * A node that wraps a subgraph. Its ports mirror the Group Input and Group Output
+ * nodes inside the subgraph, which is evaluated whenever the group is.
+ */
+export class GroupNode extends BaseThreeNode {
+  public subgraph: Graph = new Graph();
+  protected evaluator: Evaluator = new Evaluator(this.subgraph);
+  private unsubscribe: (() => void) | null = null;
+  private evaluatingSubgraph = false;
+  private lastInputValues: Map<string, PortValue> = new Map();
+  private lastTime: number | undefined; // Transport time of the last evaluation
+  private lastSeed: number | undefined; // Master seed of the last evaluation
+
+  constructor(id: string, type: string = 'GroupNode', label: string = 'Group') {
+    super(id, type, label);
+  }
+
+  /**
+   * Replace the subgraph and rebuild the exposed ports from its boundary nodes
+   */
+  setSubgraph(subgraph: Graph): void {
+    this.unsubscribe?.();
+    this.subgraph = subgraph;
+    this.evaluator = new Evaluator(subgraph);
+    this.lastInputValues = new Map(); // The new Group Input node needs the current values
+    this.syncPorts();
+
+    // Edits inside the group re-evaluate it as part of the parent graph, and so do
+    // async results inside it landing after the group's own evaluation
+    this.unsubscribe = subgraph.on([...GRAPH_EDIT_EVENTS, 'evaluated'], (events) => {
+      if (this.evaluatingSubgraph && events.every((event) => event.type === 'evaluated')) {
+        return;
+      }
+      this.markDownstreamDirty();
+      this.graph?.triggerChange();
+    });
+
+    this.markDirty();
+  }
+
+  getInputNode(): GroupInputNode | undefined {
+    for (const node of this.subgraph.nodes.values()) {
+      if (node instanceof GroupInputNode) return node;
+    }
+    return undefined;
+  }
+
+  getOutputNode(): GroupOutputNode | undefined {
+    for (const node of this.subgraph.nodes.values()) {
+      if (node instanceof GroupOutputNode) return node;
+    }
+    return undefined;
+  }
+
+  /**
+   * Rebuild ports to match the boundary nodes, keeping ports (and their edges) that still match
+   */
+  syncPorts(): void {
+    this.inputs = this.rebuildPorts(this.inputs, this.getInputNode()?.getPorts() ?? [], true, (d) =>
+      this.addInput(d)
+    );
+    this.outputs = this.rebuildPorts(
+      this.outputs,
+      this.getOutputNode()?.getPorts() ?? [],
+      false,
+      (d) => this.addOutput(d)
+    );
+  }
+
+  // Type of the group port mirroring a boundary port; blocks that map values override it
+  protected portType(definition: PortDefinition, _isInput: boolean, _index: number): PortDataType {
+    return definition.type;
+  }
+
+  private rebuildPorts(
+    previous: Map<string, Port>,
+    definitions: PortDefinition[],
+    isInput: boolean,
+    create: (definition: PortDefinition) => Port
+  ): Map<string, Port> {
+    const ports = new Map<string, Port>();
+    for (const [index, definition] of definitions.entries()) {
+      const type = this.portType(definition, isInput, index);
+      const existing = previous.get(definition.name);
+      const port = existing && existing.type === type ? existing : create({ ...definition, type });
+      ports.set(definition.name, port);
+    }
+    return ports;
+  }
+
+  // Re-evaluated as the time changes when nodes inside read it
+  readsTime(): boolean {
+    if (super.readsTime()) return true;
+    for (const node of this.subgraph.nodes.values()) {
+      if (node.readsTime()) return true;
+    }
+    return false;
+  }
+
+  // Re-evaluated with a new master seed when nodes inside draw random numbers
+  readsSeed(): boolean {
+    for (const node of this.subgraph.nodes.values()) {
+      if (node.readsSeed()) return true;
+    }
+    return false;
+  }
+
+  evaluate(context: EvaluationContext): void {
+    this.syncContext(context);
+
+    // Hand the group's inputs to the subgraph. Only invalidate it when they changed,
+    // since the group is also re-evaluated for edits (and async results) inside it.
+    const values = this.collectInputValues();
+    const inputNode = this.getInputNode();
+    if (inputNode && this.inputValuesChanged(values)) {
+      inputNode.setValues(values);
+      inputNode.markDownstreamDirty();
+    }
+    this.lastInputValues = values;
+
+    this.evaluateSubgraph(context);
+
+    // Read results back from the Group Output node
+    const results = this.collectOutputValues();
+    for (const name of this.outputs.keys()) {
+      this.setOutputValue(name, results.get(name));
+    }
+
+    this.reportSubgraphDiagnostics();
+  }
+
+  /**
+   * Evaluate the subgraph once with these input values, for blocks that run it
+   * repeatedly. Returns the Group Output values, or null if nodes inside are still
+   * evaluating asynchronously, which a loop can't wait for.
+   */
+  protected runSubgraph(
+    values: Map<string, PortValue>,
+    context: EvaluationContext
+  ): Map<string, PortValue> | null {
+    this.syncContext(context);
+    const inputNode = this.getInputNode();
+    if (inputNode) {
+      inputNode.setValues(values);
+      inputNode.markDownstreamDirty();
+    }
+    this.lastInputValues = values;
+
+    this.evaluateSubgraph(context);
+
+    for (const node of this.subgraph.nodes.values()) {
+      if (node.isPending) return null;
+    }
+    return this.collectOutputValues();
+  }
+
+  // Values at the group's inputs (all values for inputs with multiple connections)
+  protected collectInputValues(): Map<string, PortValue> {
+    const values = new Map<string, PortValue>();
+    for (const [name, port] of this.inputs) {
+      values.set(name, port.hasMultipleConnections() ? port.getAllValues() : port.value);
+    }
+    return values;
+  }
+
+  // Values arriving at the Group Output node
+  protected collectOutputValues(): Map<string, PortValue> {
+    const outputNode = this.getOutputNode();
+    const values = new Map<string, PortValue>();
+    for (const name of this.outputs.keys()) {
+      values.set(name, outputNode?.getValue(name));
+    }
+    return values;
+  }
+
+  protected get subgraphHasError(): boolean {
+    for (const node of this.subgraph.nodes.values()) {
+      if (node.hasError) return true;
+    }
+    return false;
+  }
+
+  // Surface problems inside the group on the group node itself
+  protected reportSubgraphDiagnostics(): void {
+    for (const node of this.subgraph.nodes.values()) {
+      for (const diagnostic of node.diagnostics) {
+        this.addDiagnostic(diagnostic.severity, `${node.label}: ${diagnostic.message}`);
+      }
+    }
+  }
+
+  // Results reported while the group evaluates are read back right away
+  private evaluateSubgraph(context: EvaluationContext): void {
+    this.evaluatingSubgraph = true;
+    try {
+      this.evaluator.evaluate({ ...context, graph: this.subgraph });
+    } finally {
+      this.evaluatingSubgraph = false;
+    }
+  }
+
+  // Nodes inside reading the time or the seed are only marked dirty here, once it changed
+  private syncContext(context: EvaluationContext): void {
+    if (context.time !== this.lastTime) {
+      this.lastTime = context.time;
+      this.subgraph.markTimeReadersDirty();
+    }
+    if (context.random?.seed !== this.lastSeed) {
+      this.lastSeed = context.random?.seed;
+      this.subgraph.markSeedReadersDirty();
+    }
+  }
+
+  private inputValuesChanged(values: Map<string, PortValue>): boolean {
+    if (values.size !== this.lastInputValues.size) return true;
+    for (const [name, value] of values) {
+      const last = this.lastInputValues.get(name);
+      if (Array.isArray(value) && Array.isArray(last)) {
+        if (value.length !== last.length || value.some((v, i) => v !== last[i])) return true;
+      } else if (value !== last) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  dispose(): void {
+    // Release inner resources but keep the subgraph nodes, which are reset to dirty
+    for (const node of this.subgraph.nodes.values()) {
+      node.dispose();
+      node.markDirty();
+    }
+    super.dispose();
+  }
+}
@@ -0,0 +1,48 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortDefinition, PortValue } from '@/types';
+import { EvaluationContext } from '@/core';
+
+/**
+ * Collects the outputs of a group node inside its subgraph.
+ * Each input mirrors the group output port of the same name.
+ */
+export class GroupOutputNode extends BaseThreeNode {
+  constructor(id: string) {
+    super(id, 'GroupOutputNode', 'Group Output');
+  }
+
+  addPort(definition: PortDefinition): void {
+    this.addInput(definition);
+  }
+
+  getPorts(): PortDefinition[] {
+    return Array.from(this.inputs.values()).map((port) => ({
+      name: port.name,
+      type: port.type,
+      defaultValue: port.defaultValue,
+    }));
+  }
+
+  // Value arriving at an input (all values if it has multiple connections)
+  getValue(name: string): PortValue {
+    const port = this.inputs.get(name);
+    if (!port) return undefined;
+    return port.hasMultipleConnections() ? port.getAllValues() : port.value;
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    // Values are read by the group node after its subgraph is evaluated
+  }
+
+  serializeState(): Record<string, unknown> {
+    return { ports: this.getPorts() };
+  }
+
+  restoreState(state: Record<string, unknown>): void {
+    if (!Array.isArray(state.ports)) return;
+    this.inputs.clear();
+    for (const definition of state.ports as PortDefinition[]) {
+      this.addPort(definition);
+    }
+  }
+}
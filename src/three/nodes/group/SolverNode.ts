@@ -0,0 +1,149 @@
+import { GroupNode } from './GroupNode';
+import { EvaluationContext } from '@/core';
+import { PortType, PortValue } from '@/types';
+
+/**
+ * A block that feeds the outputs of its subgraph back into its inputs, for
+ * iterative growth, relaxation or simulation steps. Each output goes back to the
+ * input of the same name, or else to the next input no output has the name of;
+ * inputs nothing goes back to keep their connected values.
+ *
+ * In Iterations mode, every evaluation runs the set number of iterations from
+ * the connected inputs. In Per Frame mode, it runs one iteration per frame the
+ * timeline advanced, from where the last evaluation ended. Evaluations within
+ * the same frame (e.g. after an edit) run that frame's iterations again. It
+ * starts over when the timeline is rewound, or while the reset input is on.
+ */
+export class SolverNode extends GroupNode {
+  private state: Map<string, PortValue> | null = null; // Values fed back, in Per Frame mode
+  private stateFrame: number | undefined; // Transport frame the state was computed at
+  // What the last frame's iterations started from (null state: the connected inputs)
+  private lastStep: { state: Map<string, PortValue> | null; iterations: number } | null = null;
+
+  constructor(id: string) {
+    super(id, 'SolverNode', 'Solver');
+
+    this.addInput({ name: 'reset', type: PortType.Boolean, defaultValue: false });
+
+    this.addProperty({
+      name: 'mode',
+      type: 'list',
+      value: 'iterations',
+      label: 'Mode',
+      options: {
+        Iterations: 'iterations',
+        'Per Frame': 'frame',
+      },
+    });
+    this.addProperty({
+      name: 'iterations',
+      type: 'number',
+      value: 10,
+      label: 'Iterations',
+      min: 0,
+      step: 1,
+    });
+  }
+
+  // Keeps the reset input (and its edge) next to the ports mirroring the subgraph
+  syncPorts(): void {
+    const reset = this.inputs.get('reset');
+    super.syncPorts();
+    if (reset) {
+      this.inputs.set('reset', reset);
+    }
+  }
+
+  readsTime(): boolean {
+    return this.getProperty('mode') === 'frame' || super.readsTime();
+  }
+
+  evaluate(context: EvaluationContext): void {
+    const values = this.collectInputValues();
+    const feedback = this.getFeedback();
+    const perFrame = this.getProperty('mode') === 'frame';
+    const reset = Boolean(this.getInputValue<boolean>('reset'));
+    const advanced =
+      context.frame !== undefined && this.stateFrame !== undefined
+        ? context.frame - this.stateFrame
+        : 0;
+
+    let iterations = Math.max(0, Math.floor(this.getProperty('iterations') ?? 0));
+    let start: Map<string, PortValue> | null = null;
+    if (perFrame && !reset) {
+      if (this.state && advanced > 0) {
+        this.lastStep = { state: this.state, iterations: advanced };
+      } else if (!this.lastStep || advanced < 0) {
+        this.lastStep = { state: null, iterations: 1 };
+      }
+      ({ state: start, iterations } = this.lastStep);
+    }
+    if (reset) iterations = 0;
+
+    let state =
+      start ?? new Map(Array.from(feedback.values(), (input) => [input, values.get(input)]));
+
+    // Until an iteration runs, the outputs fed back give the values they start from
+    let results = new Map<string, PortValue>();
+    for (const [output, input] of feedback) {
+      results.set(output, state.get(input));
+    }
+
+    for (let i = 0; i < iterations; i++) {
+      const outputs = this.runSubgraph(new Map([...values, ...state]), context);
+      if (!outputs) {
+        this.reportError('Async nodes (e.g. loaders) are not supported inside a Solver');
+        break;
+      }
+      results = outputs;
+      if (this.subgraphHasError) break;
+
+      state = new Map(Array.from(feedback, ([output, input]) => [input, outputs.get(output)]));
+    }
+    this.state = perFrame && !reset ? state : null;
+    this.stateFrame = context.frame;
+    if (!this.state) this.lastStep = null;
+
+    for (const name of this.outputs.keys()) {
+      this.setOutputValue(name, results.get(name));
+    }
+    this.reportSubgraphDiagnostics();
+  }
+
+  /**
+   * Start over from the connected inputs at the next evaluation (Per Frame mode)
+   */
+  reset(): void {
+    this.state = null;
+    this.lastStep = null;
+    this.markDirty();
+  }
+
+  // The input each output is fed back to
+  private getFeedback(): Map<string, string> {
+    const inputs =
+      this.getInputNode()
+        ?.getPorts()
+        .map((port) => port.name) ?? [];
+    const outputs =
+      this.getOutputNode()
+        ?.getPorts()
+        .map((port) => port.name) ?? [];
+    const unmatched = inputs.filter((name) => !outputs.includes(name));
+
+    const feedback = new Map<string, string>();
+    for (const output of outputs) {
+      const input = inputs.includes(output) ? output : unmatched.shift();
+      if (input !== undefined) {
+        feedback.set(output, input);
+      }
+    }
+    return feedback;
+  }
+
+  dispose(): void {
+    this.state = null;
+    this.lastStep = null;
+    super.dispose();
+  }
+}
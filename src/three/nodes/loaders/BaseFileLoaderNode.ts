@@ -1,6 +1,6 @@
 import { TweakpaneNode } from '../../TweakpaneNode';
 import { PortType } from '@/types';
-import { EvaluationContext } from '@/core';
+import { EvaluationContext, assetStore } from '@/core';
 import * as THREE from 'three';
 import { FilePickerHelper } from '../mixins/FilePickerMixin';
 
@@ -13,6 +13,8 @@ export abstract class BaseFileLoaderNode<
 > extends TweakpaneNode<never, TOutputs> {
   protected filePicker: FilePickerHelper;
   protected loadedObject: THREE.Object3D | null = null;
+  private pendingFile: File | null = null; // Selected but not loaded yet
+  private loadedAsset: string | null = null; // Hash of the file loadedObject came from
 
   constructor(id: string, type: string, label: string, acceptedFileTypes: string) {
     super(id, type, label);
@@ -25,12 +27,20 @@ export abstract class BaseFileLoaderNode<
       label: 'File Path',
     });
 
+    // The file itself, saved with the graph by hash and loaded again from the asset store
+    this.addProperty({
+      name: 'asset',
+      type: 'asset',
+      value: '',
+      label: 'Asset',
+    });
+
     // Initialize file picker helper
     this.filePicker = new FilePickerHelper({
       acceptedFileTypes,
       buttonLabel: 'Load File',
-      onFileSelected: async (file, url) => {
-        await this.handleFileSelected(file, url);
+      onFileSelected: async (file, url, asset) => {
+        await this.handleFileSelected(file, url, asset);
       },
       onFileCleared: () => {
         this.clearFile();
@@ -49,57 +59,74 @@ export abstract class BaseFileLoaderNode<
     this.filePicker.addFilePickerControls(this.pane, filePath);
   }
 
-  protected async handleFileSelected(file: File, url: string): Promise<void> {
+  protected async handleFileSelected(file: File, _url: string, asset: string): Promise<void> {
     // Store file path (or name since we can't get real path in browser)
     this.setProperty('filePath', file.name);
-    this.markDirty();
+    this.setProperty('asset', asset);
+
+    // The file is loaded by the next evaluation (see evaluate)
+    this.pendingFile = file;
+    this.loadedAsset = asset;
+    this.refreshPane();
+    this.markDownstreamDirty();
+    this.graph?.triggerChange();
+  }
 
+  // Load the selected file, discarding the result if the evaluation went stale
+  private async loadPendingFile(file: File, signal?: AbortSignal): Promise<void> {
+    const url = URL.createObjectURL(file);
     try {
-      // Load the file (implemented by subclass)
-      await this.loadFile(url, file);
+      await this.loadFile(url, file, signal);
+    } catch (error) {
+      if (signal?.aborted) return;
+      // Keep the file name so the failed file can be cleared from the picker
+      this.pendingFile = null;
+      this.loadedObject = null;
+      this.writeOutputs();
+      throw error;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
 
-      // Refresh UI to show file name
-      if (this.pane && this.container) {
-        this.pane.dispose();
-        this.initializeTweakpane(this.container);
-      }
+    if (signal?.aborted) return;
+    this.pendingFile = null;
+    this.writeOutputs();
+  }
 
-      // Mark this node and all downstream nodes as dirty
-      this.markDownstreamDirty();
-
-      // Force graph change notification to trigger evaluation
-      // Use setTimeout to ensure the evaluation happens after this async operation completes
-      if (this.graph) {
-        setTimeout(() => {
-          if (this.graph) {
-            this.graph.triggerChange();
-          }
-        }, 0);
-      }
-    } catch (error) {
-      console.error(`Error loading file ${file.name}:`, error);
-      this.setProperty('filePath', '');
-      if (this.pane && this.container) {
-        this.pane.dispose();
-        this.initializeTweakpane(this.container);
-      }
+  // Load a file saved with the graph, e.g. after the graph was loaded or an undo
+  private async restoreAsset(asset: string, signal?: AbortSignal): Promise<void> {
+    const file = await assetStore.getFile(asset);
+    if (signal?.aborted) return;
 
-      // Trigger change to clear outputs
-      if (this.graph) {
-        this.graph.triggerChange();
-      }
-      throw error; // Re-throw so the helper knows it failed
+    if (!file) {
+      this.loadedAsset = asset;
+      this.loadedObject = null;
+      this.writeOutputs();
+      throw new Error(`File "${this.getProperty('filePath')}" is missing from the asset store`);
+    }
+
+    try {
+      await this.loadPendingFile(file, signal);
+    } finally {
+      if (!signal?.aborted) this.loadedAsset = asset;
     }
   }
 
-  protected clearFile(): void {
-    this.setProperty('filePath', '');
-    this.loadedObject = null;
+  private refreshPane(): void {
     if (this.pane && this.container) {
       this.pane.dispose();
       this.initializeTweakpane(this.container);
     }
-    
+  }
+
+  protected clearFile(): void {
+    this.setProperty('filePath', '');
+    this.setProperty('asset', '');
+    this.pendingFile = null;
+    this.loadedAsset = null;
+    this.loadedObject = null;
+    this.refreshPane();
+
     // Mark this node and all downstream nodes as dirty
     this.markDownstreamDirty();
 
@@ -111,10 +138,30 @@ export abstract class BaseFileLoaderNode<
 
   /**
    * Load file from URL - implemented by subclasses
+   * Results must not be stored once the signal is aborted (a newer file was selected)
    */
-  protected abstract loadFile(url: string, file: File): Promise<void>;
+  protected abstract loadFile(url: string, file: File, signal?: AbortSignal): Promise<void>;
 
-  evaluate(_context: EvaluationContext): void {
+  evaluate(context: EvaluationContext): void | Promise<void> {
+    if (this.pendingFile) {
+      return this.loadPendingFile(this.pendingFile, context.signal);
+    }
+    const asset = this.getProperty('asset');
+    if (asset !== (this.loadedAsset ?? '')) {
+      if (asset) {
+        return this.restoreAsset(asset, context.signal);
+      }
+      // Cleared by an undo
+      this.loadedObject = null;
+      this.loadedAsset = null;
+    }
+    this.writeOutputs();
+  }
+
+  /**
+   * Write the loaded data to the outputs - extended by subclasses with extra outputs
+   */
+  protected writeOutputs(): void {
     if (this.loadedObject) {
       this.setOutputValue('scene', this.loadedObject);
       this.setOutputValue('loaded', true);
@@ -131,6 +178,7 @@ export abstract class BaseFileLoaderNode<
 
   dispose(): void {
     this.filePicker.dispose();
+    this.pendingFile = null;
     if (this.loadedObject) {
       this.loadedObject = null;
     }
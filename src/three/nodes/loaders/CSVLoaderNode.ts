@@ -1,6 +1,6 @@
 import { TweakpaneNode } from '../../TweakpaneNode';
-import { PortType } from '@/types';
-import { EvaluationContext } from '@/core';
+import { PortType, listOf } from '@/types';
+import { EvaluationContext, assetStore } from '@/core';
 import { FilePickerHelper } from '../mixins/FilePickerMixin';
 import * as d3 from 'd3';
 
@@ -13,6 +13,8 @@ export class CSVLoaderNode extends TweakpaneNode<never, 'data' | 'loaded' | 'col
   protected filePicker: FilePickerHelper;
   private loadedData: any[] = [];
   private columns: string[] = [];
+  private pendingFile: File | null = null; // Selected but not parsed yet
+  private loadedAsset: string | null = null; // Hash of the file the data came from
 
   constructor(id: string) {
     super(id, 'CSVLoaderNode', 'CSV Loader');
@@ -25,20 +27,28 @@ export class CSVLoaderNode extends TweakpaneNode<never, 'data' | 'loaded' | 'col
       label: 'File Path',
     });
 
+    // The file itself, saved with the graph by hash and loaded again from the asset store
+    this.addProperty({
+      name: 'asset',
+      type: 'asset',
+      value: '',
+      label: 'Asset',
+    });
+
     // Initialize file picker helper
     this.filePicker = new FilePickerHelper({
       acceptedFileTypes: '.csv',
       buttonLabel: 'Load CSV',
-      onFileSelected: async (file, url) => {
-        await this.handleFileSelected(file, url);
+      onFileSelected: async (file, url, asset) => {
+        await this.handleFileSelected(file, url, asset);
       },
       onFileCleared: () => {
         this.clearFile();
       },
     });
 
-    this.addOutput({ name: 'data', type: PortType.Any }); // Array of objects
-    this.addOutput({ name: 'columns', type: PortType.Any }); // Array of column names
+    this.addOutput({ name: 'data', type: listOf(PortType.Any) }); // Row objects
+    this.addOutput({ name: 'columns', type: listOf(PortType.String) });
     this.addOutput({ name: 'loaded', type: PortType.Boolean });
   }
 
@@ -50,75 +60,96 @@ export class CSVLoaderNode extends TweakpaneNode<never, 'data' | 'loaded' | 'col
     this.filePicker.addFilePickerControls(this.pane, filePath);
   }
 
-  protected async handleFileSelected(file: File, url: string): Promise<void> {
+  protected async handleFileSelected(file: File, _url: string, asset: string): Promise<void> {
     // Store file path (or name since we can't get real path in browser)
     this.setProperty('filePath', file.name);
-    this.markDirty();
+    this.setProperty('asset', asset);
+
+    // The file is parsed by the next evaluation (see evaluate)
+    this.pendingFile = file;
+    this.loadedAsset = asset;
+    this.refreshPane();
+    this.markDownstreamDirty();
+    this.graph?.triggerChange();
+  }
 
+  // Parse the selected file, discarding the result if the evaluation went stale
+  private async loadPendingFile(file: File, signal?: AbortSignal): Promise<void> {
+    const url = URL.createObjectURL(file);
+    let data: d3.DSVRowArray<string>;
     try {
       // Load and parse the CSV file using d3.csv
-      const data = await d3.csv(url);
-      this.loadedData = data;
-
-      // Extract column names from the first row
-      if (data.length > 0) {
-        this.columns = data.columns || Object.keys(data[0]);
-      } else {
-        this.columns = [];
-      }
+      data = await d3.csv(url, { signal: signal ?? null });
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error(`Error loading CSV file ${file.name}:`, error);
+      // Keep the file name so the failed file can be cleared from the picker
+      this.pendingFile = null;
+      this.loadedData = [];
+      this.columns = [];
+      this.writeOutputs();
+      throw error;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
 
-      console.log(`Loaded CSV: ${file.name}`, {
-        rows: this.loadedData.length,
-        columns: this.columns,
-        data: this.loadedData,
-      });
+    if (signal?.aborted) return;
+    this.pendingFile = null;
+    this.loadedData = data;
 
-      // Refresh UI to show file name
-      if (this.pane && this.container) {
-        this.pane.dispose();
-        this.initializeTweakpane(this.container);
-      }
+    // Extract column names from the first row
+    if (data.length > 0) {
+      this.columns = data.columns || Object.keys(data[0]);
+    } else {
+      this.columns = [];
+    }
 
-      this.markDirty();
+    console.log(`Loaded CSV: ${file.name}`, {
+      rows: this.loadedData.length,
+      columns: this.columns,
+      data: this.loadedData,
+    });
 
-      // Force graph change notification to trigger evaluation
-      if (this.graph) {
-        setTimeout(() => {
-          if (this.graph) {
-            this.graph.triggerChange();
-          }
-        }, 0);
-      }
-    } catch (error) {
-      console.error(`Error loading CSV file ${file.name}:`, error);
-      this.setProperty('filePath', '');
+    this.writeOutputs();
+  }
+
+  // Parse a file saved with the graph, e.g. after the graph was loaded or an undo
+  private async restoreAsset(asset: string, signal?: AbortSignal): Promise<void> {
+    const file = await assetStore.getFile(asset);
+    if (signal?.aborted) return;
+
+    if (!file) {
+      this.loadedAsset = asset;
       this.loadedData = [];
       this.columns = [];
+      this.writeOutputs();
+      throw new Error(`File "${this.getProperty('filePath')}" is missing from the asset store`);
+    }
 
-      if (this.pane && this.container) {
-        this.pane.dispose();
-        this.initializeTweakpane(this.container);
-      }
+    try {
+      await this.loadPendingFile(file, signal);
+    } finally {
+      if (!signal?.aborted) this.loadedAsset = asset;
+    }
+  }
 
-      // Trigger change to clear outputs
-      if (this.graph) {
-        this.graph.triggerChange();
-      }
-      throw error; // Re-throw so the helper knows it failed
+  private refreshPane(): void {
+    if (this.pane && this.container) {
+      this.pane.dispose();
+      this.initializeTweakpane(this.container);
     }
   }
 
   protected clearFile(): void {
     this.setProperty('filePath', '');
+    this.setProperty('asset', '');
+    this.pendingFile = null;
+    this.loadedAsset = null;
     this.loadedData = [];
     this.columns = [];
+    this.refreshPane();
 
-    if (this.pane && this.container) {
-      this.pane.dispose();
-      this.initializeTweakpane(this.container);
-    }
-
-    this.markDirty();
+    this.markDownstreamDirty();
 
     // Force graph change notification to clear outputs
     if (this.graph) {
@@ -126,7 +157,24 @@ export class CSVLoaderNode extends TweakpaneNode<never, 'data' | 'loaded' | 'col
     }
   }
 
-  evaluate(_context: EvaluationContext): void {
+  evaluate(context: EvaluationContext): void | Promise<void> {
+    if (this.pendingFile) {
+      return this.loadPendingFile(this.pendingFile, context.signal);
+    }
+    const asset = this.getProperty('asset');
+    if (asset !== (this.loadedAsset ?? '')) {
+      if (asset) {
+        return this.restoreAsset(asset, context.signal);
+      }
+      // Cleared by an undo
+      this.loadedData = [];
+      this.columns = [];
+      this.loadedAsset = null;
+    }
+    this.writeOutputs();
+  }
+
+  private writeOutputs(): void {
     if (this.loadedData.length > 0) {
       this.setOutputValue('data', this.loadedData);
       this.setOutputValue('columns', this.columns);
@@ -145,6 +193,7 @@ export class CSVLoaderNode extends TweakpaneNode<never, 'data' | 'loaded' | 'col
 
   dispose(): void {
     this.filePicker.dispose();
+    this.pendingFile = null;
     this.loadedData = [];
     this.columns = [];
     super.dispose();
@@ -1,7 +1,6 @@
 import { BaseFileLoaderNode } from './BaseFileLoaderNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { GLTFLoader, GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { EvaluationContext } from '@/core';
 import { NodeLayoutConfig } from '@/core/types';
 
 /**
@@ -22,16 +21,19 @@ export class GLTFLoaderNode extends BaseFileLoaderNode<
     this.loader = new GLTFLoader();
 
     // Additional outputs specific to GLTF
-    this.addOutput({ name: 'animations', type: PortType.Any }); // AnimationClip[]
-    this.addOutput({ name: 'cameras', type: PortType.Any }); // Camera[]
+    this.addOutput({ name: 'animations', type: listOf(PortType.Any) }); // AnimationClip[]
+    this.addOutput({ name: 'cameras', type: listOf(PortType.Camera) });
     this.addOutput({ name: 'asset', type: PortType.Any }); // Asset metadata
   }
 
-  protected async loadFile(url: string, file: File): Promise<void> {
+  protected async loadFile(url: string, file: File, signal?: AbortSignal): Promise<void> {
     return new Promise((resolve, reject) => {
       this.loader.load(
         url,
         (gltf) => {
+          // A newer file was selected while this one was loading
+          if (signal?.aborted) return resolve();
+
           this.gltf = gltf;
           this.loadedObject = gltf.scene;
 
@@ -54,10 +56,10 @@ export class GLTFLoaderNode extends BaseFileLoaderNode<
     });
   }
 
-  evaluate(_context: EvaluationContext): void {
-    super.evaluate(_context);
+  protected writeOutputs(): void {
+    super.writeOutputs();
 
-    if (this.gltf) {
+    if (this.gltf && this.loadedObject) {
       // Output GLTF-specific data
       this.setOutputValue('animations', this.gltf.animations as any);
       this.setOutputValue('cameras', this.gltf.cameras as any);
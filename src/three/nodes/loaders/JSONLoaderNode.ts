@@ -1,6 +1,6 @@
 import { TweakpaneNode } from '../../TweakpaneNode';
 import { PortType } from '@/types';
-import { EvaluationContext } from '@/core';
+import { EvaluationContext, assetStore } from '@/core';
 import { FilePickerHelper } from '../mixins/FilePickerMixin';
 
 /**
@@ -11,6 +11,8 @@ import { FilePickerHelper } from '../mixins/FilePickerMixin';
 export class JSONLoaderNode extends TweakpaneNode<never, 'data' | 'loaded'> {
   protected filePicker: FilePickerHelper;
   private loadedData: any = null;
+  private pendingFile: File | null = null; // Selected but not parsed yet
+  private loadedAsset: string | null = null; // Hash of the file the data came from
 
   constructor(id: string) {
     super(id, 'JSONLoaderNode', 'JSON Loader');
@@ -23,12 +25,20 @@ export class JSONLoaderNode extends TweakpaneNode<never, 'data' | 'loaded'> {
       label: 'File Path',
     });
 
+    // The file itself, saved with the graph by hash and loaded again from the asset store
+    this.addProperty({
+      name: 'asset',
+      type: 'asset',
+      value: '',
+      label: 'Asset',
+    });
+
     // Initialize file picker helper
     this.filePicker = new FilePickerHelper({
       acceptedFileTypes: '.json',
       buttonLabel: 'Load JSON',
-      onFileSelected: async (file, url) => {
-        await this.handleFileSelected(file, url);
+      onFileSelected: async (file, url, asset) => {
+        await this.handleFileSelected(file, url, asset);
       },
       onFileCleared: () => {
         this.clearFile();
@@ -47,63 +57,84 @@ export class JSONLoaderNode extends TweakpaneNode<never, 'data' | 'loaded'> {
     this.filePicker.addFilePickerControls(this.pane, filePath);
   }
 
-  protected async handleFileSelected(file: File, url: string): Promise<void> {
+  protected async handleFileSelected(file: File, _url: string, asset: string): Promise<void> {
     // Store file path (or name since we can't get real path in browser)
     this.setProperty('filePath', file.name);
-    this.markDirty();
+    this.setProperty('asset', asset);
+
+    // The file is parsed by the next evaluation (see evaluate)
+    this.pendingFile = file;
+    this.loadedAsset = asset;
+    this.refreshPane();
+    this.markDownstreamDirty();
+    this.graph?.triggerChange();
+  }
 
+  // Parse the selected file, discarding the result if the evaluation went stale
+  private async loadPendingFile(file: File, signal?: AbortSignal): Promise<void> {
+    const url = URL.createObjectURL(file);
+    let data: unknown;
     try {
       // Load and parse the JSON file
-      const response = await fetch(url);
+      const response = await fetch(url, { signal });
       const text = await response.text();
-      this.loadedData = JSON.parse(text);
+      data = JSON.parse(text);
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error(`Error loading JSON file ${file.name}:`, error);
+      // Keep the file name so the failed file can be cleared from the picker
+      this.pendingFile = null;
+      this.loadedData = null;
+      this.writeOutputs();
+      throw error;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
 
-      console.log(`Loaded JSON: ${file.name}`, this.loadedData);
+    if (signal?.aborted) return;
+    this.pendingFile = null;
+    this.loadedData = data;
 
-      // Refresh UI to show file name
-      if (this.pane && this.container) {
-        this.pane.dispose();
-        this.initializeTweakpane(this.container);
-      }
+    console.log(`Loaded JSON: ${file.name}`, this.loadedData);
 
-      this.markDirty();
+    this.writeOutputs();
+  }
 
-      // Force graph change notification to trigger evaluation
-      if (this.graph) {
-        setTimeout(() => {
-          if (this.graph) {
-            this.graph.triggerChange();
-          }
-        }, 0);
-      }
-    } catch (error) {
-      console.error(`Error loading JSON file ${file.name}:`, error);
-      this.setProperty('filePath', '');
-      this.loadedData = null;
+  // Parse a file saved with the graph, e.g. after the graph was loaded or an undo
+  private async restoreAsset(asset: string, signal?: AbortSignal): Promise<void> {
+    const file = await assetStore.getFile(asset);
+    if (signal?.aborted) return;
 
-      if (this.pane && this.container) {
-        this.pane.dispose();
-        this.initializeTweakpane(this.container);
-      }
+    if (!file) {
+      this.loadedAsset = asset;
+      this.loadedData = null;
+      this.writeOutputs();
+      throw new Error(`File "${this.getProperty('filePath')}" is missing from the asset store`);
+    }
 
-      // Trigger change to clear outputs
-      if (this.graph) {
-        this.graph.triggerChange();
-      }
-      throw error; // Re-throw so the helper knows it failed
+    try {
+      await this.loadPendingFile(file, signal);
+    } finally {
+      if (!signal?.aborted) this.loadedAsset = asset;
     }
   }
 
-  protected clearFile(): void {
-    this.setProperty('filePath', '');
-    this.loadedData = null;
-
+  private refreshPane(): void {
     if (this.pane && this.container) {
       this.pane.dispose();
       this.initializeTweakpane(this.container);
     }
+  }
 
-    this.markDirty();
+  protected clearFile(): void {
+    this.setProperty('filePath', '');
+    this.setProperty('asset', '');
+    this.pendingFile = null;
+    this.loadedAsset = null;
+    this.loadedData = null;
+    this.refreshPane();
+
+    this.markDownstreamDirty();
 
     // Force graph change notification to clear outputs
     if (this.graph) {
@@ -111,7 +142,23 @@ export class JSONLoaderNode extends TweakpaneNode<never, 'data' | 'loaded'> {
     }
   }
 
-  evaluate(_context: EvaluationContext): void {
+  evaluate(context: EvaluationContext): void | Promise<void> {
+    if (this.pendingFile) {
+      return this.loadPendingFile(this.pendingFile, context.signal);
+    }
+    const asset = this.getProperty('asset');
+    if (asset !== (this.loadedAsset ?? '')) {
+      if (asset) {
+        return this.restoreAsset(asset, context.signal);
+      }
+      // Cleared by an undo
+      this.loadedData = null;
+      this.loadedAsset = null;
+    }
+    this.writeOutputs();
+  }
+
+  private writeOutputs(): void {
     if (this.loadedData !== null) {
       this.setOutputValue('data', this.loadedData);
       this.setOutputValue('loaded', true);
@@ -128,6 +175,7 @@ export class JSONLoaderNode extends TweakpaneNode<never, 'data' | 'loaded'> {
 
   dispose(): void {
     this.filePicker.dispose();
+    this.pendingFile = null;
     this.loadedData = null;
     super.dispose();
   }
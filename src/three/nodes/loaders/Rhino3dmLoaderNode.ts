@@ -108,11 +108,14 @@ export class Rhino3dmLoaderNode extends BaseFileLoaderNode<'scene' | 'loaded'> {
     });
   }
 
-  protected async loadFile(url: string, file: File): Promise<void> {
+  protected async loadFile(url: string, file: File, signal?: AbortSignal): Promise<void> {
     return new Promise((resolve, reject) => {
       this.loader.load(
         url,
         (object) => {
+          // A newer file was selected while this one was loading
+          if (signal?.aborted) return resolve();
+
           this.loadedObject = object;
 
           // Apply Z-to-Y conversion if enabled
@@ -1,6 +1,6 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
 import { PortType } from '@/types';
-import { EvaluationContext } from '@/core';
+import { EvaluationContext, assetStore } from '@/core';
 import * as THREE from 'three';
 import { FilePickerHelper, FilePickerConfig } from '../mixins/FilePickerMixin';
 
@@ -35,6 +35,7 @@ export abstract class BaseMaterialNode<TInputs extends string = string> extends
   protected material: THREE.Material | null = null;
   private filePickers: Map<string, FilePickerHelper> = new Map();
   protected textures: Map<string, THREE.Texture> = new Map();
+  private textureAssets: Map<string, string> = new Map(); // Hashes of the files the textures came from
   protected textureLoader: THREE.TextureLoader;
 
   constructor(id: string, type: string, label: string) {
@@ -86,10 +87,18 @@ export abstract class BaseMaterialNode<TInputs extends string = string> extends
     portName: string,
     config: Omit<FilePickerConfig, 'onFileSelected' | 'onFileCleared'>
   ): void {
+    // The texture file, saved with the graph by hash and loaded again from the asset store
+    this.addProperty({
+      name: `${portName}Asset`,
+      type: 'asset',
+      value: '',
+      label: config.buttonLabel ?? portName,
+    });
+
     const picker = new FilePickerHelper({
       ...config,
-      onFileSelected: async (_file, url) => {
-        await this.loadTexture(portName, url);
+      onFileSelected: async (file, url, asset) => {
+        await this.loadTexture(portName, url, file.name, asset);
       },
       onFileCleared: () => {
         this.clearTexture(portName);
@@ -101,46 +110,95 @@ export abstract class BaseMaterialNode<TInputs extends string = string> extends
   /**
    * Load texture for a given port
    */
-  protected async loadTexture(portName: string, url: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.textureLoader.load(
-        url,
-        (texture) => {
-          this.textures.set(portName, texture);
-          this.setProperty(`${portName}Path`, url);
-          this.trackResource(texture);
-
-          // Mark this node and all downstream nodes as dirty
-          this.markDownstreamDirty();
-          
-          // Use setTimeout to ensure the evaluation happens after this async operation completes
-          if (this.graph) {
-            setTimeout(() => {
-              if (this.graph) {
-                this.graph.triggerChange();
-              }
-            }, 0);
-          }
-          resolve();
-        },
-        undefined,
-        (error) => {
-          console.error(`Error loading texture for ${portName}:`, error);
-          reject(error);
+  protected async loadTexture(
+    portName: string,
+    url: string,
+    fileName: string,
+    asset: string
+  ): Promise<void> {
+    this.setTexture(portName, await this.loadTextureFile(portName, url), asset);
+    // Asset first: an evaluation in between must see it match the loaded texture
+    this.setProperty(`${portName}Asset`, asset);
+    this.setProperty(`${portName}Path`, fileName);
+
+    // Mark this node and all downstream nodes as dirty
+    this.markDownstreamDirty();
+
+    // Use setTimeout to ensure the evaluation happens after this async operation completes
+    if (this.graph) {
+      setTimeout(() => {
+        if (this.graph) {
+          this.graph.triggerChange();
         }
+      }, 0);
+    }
+  }
+
+  /**
+   * Load the texture saved with the graph for a port, e.g. after the graph was loaded or an undo
+   */
+  private async restoreTexture(portName: string, signal?: AbortSignal): Promise<void> {
+    const asset: string = this.getProperty(`${portName}Asset`) ?? '';
+    if (!asset) {
+      // Cleared by an undo
+      this.setTexture(portName, null, null);
+      return;
+    }
+
+    const file = await assetStore.getFile(asset);
+    if (signal?.aborted) return;
+    if (!file) {
+      this.setTexture(portName, null, asset);
+      this.reportError(
+        `Texture "${this.getProperty(`${portName}Path`)}" is missing from the asset store`
       );
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+      const texture = await this.loadTextureFile(portName, url);
+      if (signal?.aborted) {
+        texture.dispose();
+        return;
+      }
+      this.setTexture(portName, texture, asset);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private loadTextureFile(portName: string, url: string): Promise<THREE.Texture> {
+    return new Promise((resolve, reject) => {
+      this.textureLoader.load(url, resolve, undefined, (error) => {
+        console.error(`Error loading texture for ${portName}:`, error);
+        reject(error);
+      });
     });
   }
 
+  private setTexture(portName: string, texture: THREE.Texture | null, asset: string | null): void {
+    this.textures.get(portName)?.dispose();
+
+    if (texture) {
+      this.textures.set(portName, texture);
+      this.trackResource(texture);
+    } else {
+      this.textures.delete(portName);
+    }
+    if (asset) {
+      this.textureAssets.set(portName, asset);
+    } else {
+      this.textureAssets.delete(portName);
+    }
+  }
+
   /**
    * Clear texture for a given port
    */
   protected clearTexture(portName: string): void {
-    const texture = this.textures.get(portName);
-    if (texture) {
-      texture.dispose();
-      this.textures.delete(portName);
-    }
+    this.setTexture(portName, null, null);
+    this.setProperty(`${portName}Asset`, '');
     this.setProperty(`${portName}Path`, '');
 
     // Mark this node and all downstream nodes as dirty
@@ -238,7 +296,23 @@ export abstract class BaseMaterialNode<TInputs extends string = string> extends
    * Evaluate the node
    * Creates a fresh material on each evaluation to ensure proper lighting
    */
-  evaluate(_context: EvaluationContext): void {
+  evaluate(context: EvaluationContext): void | Promise<void> {
+    // Textures whose saved file differs from the loaded one (after loading the graph or an undo)
+    const stale = Array.from(this.filePickers.keys()).filter(
+      (portName) =>
+        (this.getProperty(`${portName}Asset`) ?? '') !== (this.textureAssets.get(portName) ?? '')
+    );
+    if (stale.length > 0) {
+      return Promise.all(
+        stale.map((portName) => this.restoreTexture(portName, context.signal))
+      ).then(() => {
+        if (!context.signal?.aborted) this.buildMaterial();
+      });
+    }
+    this.buildMaterial();
+  }
+
+  private buildMaterial(): void {
     // Dispose old material if it exists
     if (this.material) {
       this.material.dispose();
@@ -267,6 +341,7 @@ export abstract class BaseMaterialNode<TInputs extends string = string> extends
     // Dispose textures
     this.textures.forEach((texture) => texture.dispose());
     this.textures.clear();
+    this.textureAssets.clear();
 
     // Dispose material
     if (this.material) {
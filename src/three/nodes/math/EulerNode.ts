@@ -10,7 +10,7 @@ export class EulerNode extends BaseThreeNode<'x' | 'y' | 'z' | 'order', 'result'
     this.addInput({ name: 'y', type: PortType.Number, defaultValue: 0 });
     this.addInput({ name: 'z', type: PortType.Number, defaultValue: 0 });
     this.addInput({ name: 'order', type: PortType.String, defaultValue: 'XYZ' });
-    this.addOutput({ name: 'result', type: PortType.Any });
+    this.addOutput({ name: 'result', type: PortType.Euler });
   }
 
   evaluate(_context: EvaluationContext): void {
@@ -10,7 +10,7 @@ export class QuaternionNode extends BaseThreeNode<'x' | 'y' | 'z' | 'w', 'result
     this.addInput({ name: 'y', type: PortType.Number, defaultValue: 0 });
     this.addInput({ name: 'z', type: PortType.Number, defaultValue: 0 });
     this.addInput({ name: 'w', type: PortType.Number, defaultValue: 1 });
-    this.addOutput({ name: 'result', type: PortType.Any });
+    this.addOutput({ name: 'result', type: PortType.Quaternion });
   }
 
   evaluate(_context: EvaluationContext): void {
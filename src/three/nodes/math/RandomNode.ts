@@ -1,24 +1,31 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
 import { PortType } from '@/types';
 import { EvaluationContext } from '@/core';
-import * as THREE from 'three';
 
-export class RandomNode extends BaseThreeNode<
-  'low' | 'high',
-  'result'
-> {
+/**
+ * Random Node
+ * Seeded random float, the same every evaluation until the seed (or the graph's
+ * master seed) changes
+ */
+export class RandomNode extends BaseThreeNode<'low' | 'high' | 'seed', 'result'> {
   constructor(id: string) {
     super(id, 'RandomNode', 'Random');
     this.addInput({ name: 'low', type: PortType.Number, defaultValue: 0 });
     this.addInput({ name: 'high', type: PortType.Number, defaultValue: 1 });
+    this.addInput({ name: 'seed', type: PortType.Number, defaultValue: 0 });
     this.addOutput({ name: 'result', type: PortType.Number });
   }
 
-  evaluate(_context: EvaluationContext): void {
+  readsSeed(): boolean {
+    return true;
+  }
+
+  evaluate(context: EvaluationContext): void {
     const low = this.getInputValue<number>('low') ?? 0;
     const high = this.getInputValue<number>('high') ?? 1;
+    const seed = this.getInputValue<number>('seed') ?? 0;
 
-    const result = THREE.MathUtils.randFloat(low, high);
+    const result = this.random(context, seed).float(low, high);
     this.setOutputValue('result', result);
   }
 }
@@ -1,4 +1,5 @@
 import { Pane } from 'tweakpane';
+import { assetStore } from '@/core';
 
 /**
  * File picker functionality that can be used by any TweakpaneNode
@@ -7,7 +8,8 @@ import { Pane } from 'tweakpane';
 export interface FilePickerConfig {
   acceptedFileTypes: string; // e.g., ".jpg,.png,.webp" or ".gltf,.glb"
   buttonLabel?: string; // e.g., "Select Texture" or "Load Model"
-  onFileSelected: (file: File, url: string) => Promise<void>;
+  // asset is the hash of the file in the asset store, for saving with the graph
+  onFileSelected: (file: File, url: string, asset: string) => Promise<void>;
   onFileCleared?: () => void;
   showClearButton?: boolean;
 }
@@ -78,8 +80,10 @@ export class FilePickerHelper {
     this.isLoading = true;
 
     try {
+      const asset = await assetStore.add(file);
+
       // Call the callback provided by the node
-      await this.config.onFileSelected(file, url);
+      await this.config.onFileSelected(file, url, asset);
     } catch (error) {
       console.error(`Error loading file ${file.name}:`, error);
       throw error;
@@ -52,6 +52,11 @@ export class FPSGraphNode extends TweakpaneNode<never, 'fps'> {
     });
   }
 
+  // Measures the rate the timeline plays at
+  readsTime(): boolean {
+    return true;
+  }
+
   evaluate(_context: EvaluationContext): void {
     // Calculate FPS
     const currentTime = performance.now();
@@ -35,7 +35,7 @@ export class SceneOutputNode extends BaseThreeNode<'compiled' | 'update', 'outpu
 
     const compiled = this.getInputValue<CompiledScene>('compiled');
     if (!compiled) {
-      console.warn('SceneOutputNode: No compiled scene provided');
+      this.warn('No compiled scene provided');
       this.setOutputValue('output', undefined);
       return;
     }
@@ -43,13 +43,13 @@ export class SceneOutputNode extends BaseThreeNode<'compiled' | 'update', 'outpu
     const { scene, objects, camera, fog, background } = compiled;
 
     if (!scene) {
-      console.warn('SceneOutputNode: No scene in compiled data');
+      this.warn('No scene in compiled data');
       this.setOutputValue('output', undefined);
       return;
     }
 
     if (!camera) {
-      console.warn('SceneOutputNode: No camera in compiled data');
+      this.warn('No camera in compiled data');
       this.setOutputValue('output', undefined);
       return;
     }
@@ -9,7 +9,7 @@ export class RapierColliderNode extends BaseThreeNode<
 > {
   constructor(id: string) {
     super(id, 'RapierColliderNode', 'Rapier Collider');
-    this.addInput({ name: 'world', type: PortType.Any });
+    this.addInput({ name: 'world', type: PortType.PhysicsWorld });
     this.addInput({ name: 'rigidBody', type: PortType.Any });
     this.addInput({ name: 'shape', type: PortType.String, defaultValue: 'box' });
     this.addInput({ name: 'size', type: PortType.Number, defaultValue: 1 });
@@ -23,7 +23,7 @@ export class RapierColliderNode extends BaseThreeNode<
     const size = this.getInputValue<number>('size') ?? 1;
 
     if (!world || !rigidBody) {
-      console.warn('RapierColliderNode: Missing world or rigidBody');
+      this.warn('Missing world or rigidBody');
       return;
     }
 
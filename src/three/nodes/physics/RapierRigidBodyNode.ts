@@ -10,10 +10,10 @@ export class RapierRigidBodyNode extends BaseThreeNode<
 > {
   constructor(id: string) {
     super(id, 'RapierRigidBodyNode', 'Rapier Rigid Body');
-    this.addInput({ name: 'world', type: PortType.Any });
+    this.addInput({ name: 'world', type: PortType.PhysicsWorld });
     this.addInput({ name: 'type', type: PortType.String, defaultValue: 'dynamic' });
     this.addInput({ name: 'position', type: PortType.Vector3, defaultValue: new THREE.Vector3(0, 0, 0) });
-    this.addInput({ name: 'rotation', type: PortType.Any, defaultValue: new THREE.Quaternion(0, 0, 0, 1) });
+    this.addInput({ name: 'rotation', type: PortType.Quaternion, defaultValue: new THREE.Quaternion(0, 0, 0, 1) });
     this.addOutput({ name: 'rigidBody', type: PortType.Any });
   }
 
@@ -24,7 +24,7 @@ export class RapierRigidBodyNode extends BaseThreeNode<
     const rotation = this.getInputValue<THREE.Quaternion>('rotation') ?? new THREE.Quaternion(0, 0, 0, 1);
 
     if (!world) {
-      console.warn('RapierRigidBodyNode: No world provided');
+      this.warn('No world provided');
       return;
     }
 
@@ -7,39 +7,39 @@ import type RAPIER from '@dimforge/rapier3d';
 export class RapierWorldNode extends BaseThreeNode<'gravity' | 'timestep', 'world' | 'ready'> {
   private world: RAPIER.World | null = null;
   private rapier: typeof RAPIER | null = null;
-  private isInitializing = false;
 
   constructor(id: string) {
     super(id, 'RapierWorldNode', 'Rapier World');
     this.addInput({ name: 'gravity', type: PortType.Vector3, defaultValue: new THREE.Vector3(0, -9.81, 0) });
     this.addInput({ name: 'timestep', type: PortType.Number, defaultValue: 1/60 });
-    this.addOutput({ name: 'world', type: PortType.Any });
+    this.addOutput({ name: 'world', type: PortType.PhysicsWorld });
     this.addOutput({ name: 'ready', type: PortType.Boolean });
-    
-    this.initRapier();
   }
 
   private async initRapier(): Promise<void> {
-    if (this.isInitializing || this.rapier) return;
-    this.isInitializing = true;
-
     try {
       const RAPIER = await import('@dimforge/rapier3d');
       // Rapier 3D doesn't need manual init in newer versions
       this.rapier = RAPIER as any;
-      this.isInitializing = false;
-      this.markDirty();
     } catch (error) {
       console.error('Failed to initialize Rapier:', error);
-      this.isInitializing = false;
+      throw error;
     }
   }
 
-  evaluate(_context: EvaluationContext): void {
+  evaluate(context: EvaluationContext): void | Promise<void> {
     if (!this.rapier) {
+      // Load the WASM module first; dependents wait until the world is ready
       this.setOutputValue('ready', false);
-      return;
+      return this.initRapier().then(() => {
+        if (!context.signal?.aborted) this.updateWorld();
+      });
     }
+    this.updateWorld();
+  }
+
+  private updateWorld(): void {
+    if (!this.rapier) return;
 
     const gravity = this.getInputValue<THREE.Vector3>('gravity') ?? new THREE.Vector3(0, -9.81, 0);
 
@@ -54,6 +54,8 @@ export class RapierWorldNode extends BaseThreeNode<'gravity' | 'timestep', 'worl
     }
 
     this.setOutputValue('world', this.world);
+    // Same world, with its gravity updated
+    this.markOutputChanged('world');
     this.setOutputValue('ready', true);
   }
 
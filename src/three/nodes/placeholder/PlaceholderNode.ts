@@ -0,0 +1,35 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType } from '@/types';
+import { EvaluationContext, SerializedEdge, SerializedNode } from '@/core/types';
+
+/**
+ * Stands in for a saved node whose type isn't registered (e.g. a removed type or
+ * a custom node that isn't installed). It has the ports its saved edges refer to,
+ * so connections survive, and is saved again with the data it was loaded from.
+ */
+export class PlaceholderNode extends BaseThreeNode {
+  public readonly savedData: SerializedNode;
+
+  constructor(data: SerializedNode, edges: SerializedEdge[]) {
+    super(data.id, data.type, data.label);
+    this.savedData = data;
+
+    const inputs = new Set(Object.keys(data.inputs));
+    const outputs = new Set<string>();
+    for (const edge of edges) {
+      if (edge.targetNodeId === data.id) inputs.add(edge.targetPortName);
+      if (edge.sourceNodeId === data.id) outputs.add(edge.sourcePortName);
+    }
+
+    for (const name of inputs) {
+      this.addInput({ name, type: PortType.Any, defaultValue: data.inputs[name] });
+    }
+    for (const name of outputs) {
+      this.addOutput({ name, type: PortType.Any });
+    }
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    this.reportError(`Unknown node type "${this.type}"`);
+  }
+}
@@ -49,5 +49,7 @@ export class AddToSceneNode extends BaseThreeNode<
     }
 
     this.setOutputValue('scene', scene);
+    // The input scene, with the objects added to it
+    this.markOutputChanged('scene');
   }
 }
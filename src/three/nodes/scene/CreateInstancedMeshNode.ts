@@ -27,13 +27,13 @@ export class CreateInstancedMeshNode extends BaseThreeNode<
     const count = Math.max(1, Math.floor(this.getInputValue<number>('count') ?? 100));
 
     if (!geometry) {
-      console.warn('CreateInstancedMeshNode: No geometry provided');
+      this.warn('No geometry provided');
       this.setOutputValue('instancedMesh', undefined);
       return;
     }
 
     if (!material) {
-      console.warn('CreateInstancedMeshNode: No material provided');
+      this.warn('No material provided');
       this.setOutputValue('instancedMesh', undefined);
       return;
     }
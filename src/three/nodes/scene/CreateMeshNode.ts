@@ -9,6 +9,7 @@ export class CreateMeshNode extends BaseThreeNode<'geometry' | 'material', 'mesh
     this.addInput({ name: 'geometry', type: PortType.Geometry });
     this.addInput({ name: 'material', type: PortType.Material });
     this.addOutput({ name: 'mesh', type: PortType.Object3D });
+    this.addMatchingProperty();
   }
 
   evaluate(_context: EvaluationContext): void {
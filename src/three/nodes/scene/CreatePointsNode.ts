@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 
@@ -11,7 +11,7 @@ export class CreatePointsNode extends BaseThreeNode<'positions' | 'material', 'p
   constructor(id: string) {
     super(id, 'CreatePointsNode', 'Create Points');
 
-    this.addInput({ name: 'positions', type: PortType.Any }); // Array of Vector3
+    this.addInput({ name: 'positions', type: listOf(PortType.Vector3) });
     this.addInput({ name: 'material', type: PortType.Material });
 
     this.addOutput({ name: 'points', type: PortType.Object3D });
@@ -22,19 +22,19 @@ export class CreatePointsNode extends BaseThreeNode<'positions' | 'material', 'p
     const material = this.getInputValue<THREE.Material>('material');
 
     if (!positions || !Array.isArray(positions)) {
-      console.warn('CreatePointsNode: No positions array provided');
+      this.warn('No positions array provided');
       this.setOutputValue('points', undefined);
       return;
     }
 
     if (positions.length === 0) {
-      console.warn('CreatePointsNode: Positions array is empty');
+      this.warn('Positions array is empty');
       this.setOutputValue('points', undefined);
       return;
     }
 
     if (!material) {
-      console.warn('CreatePointsNode: No material provided');
+      this.warn('No material provided');
       this.setOutputValue('points', undefined);
       return;
     }
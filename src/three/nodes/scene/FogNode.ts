@@ -102,6 +102,8 @@ export class FogNode extends BaseThreeNode<'color' | 'near' | 'far' | 'density',
 
     console.log('FogNode: Created fog', this.fog);
     this.setOutputValue('fog', this.fog);
+    // Updated in place unless the fog type changed
+    this.markOutputChanged('fog');
   }
 
   dispose(): void {
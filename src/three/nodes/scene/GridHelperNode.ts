@@ -151,6 +151,8 @@ export class GridHelperNode extends BaseThreeNode<
     this.gridHelper.visible = visible;
 
     this.setOutputValue('grid', this.gridHelper);
+    // The helper is reused across evaluations
+    this.markOutputChanged('grid');
   }
 
   dispose(): void {
@@ -86,6 +86,8 @@ export class Object3DNode extends BaseThreeNode<
     }
 
     this.setOutputValue('object', this.object);
+    // Same object with new children and transform
+    this.markOutputChanged('object');
   }
 
   dispose(): void {
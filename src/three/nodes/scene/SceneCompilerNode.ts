@@ -1,6 +1,6 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
 import { PortType } from '@/types';
-import { EvaluationContext } from '@/core';
+import { EvaluationContext, assetStore } from '@/core';
 import * as THREE from 'three';
 import { FilePickerHelper } from '../mixins/FilePickerMixin';
 
@@ -24,6 +24,7 @@ export class SceneCompilerNode extends BaseThreeNode<
   'compiled'
 > {
   private backgroundTexture: THREE.Texture | THREE.CubeTexture | null = null;
+  private backgroundAsset: string | null = null; // Hash of the file backgroundTexture came from
   private textureLoader: THREE.TextureLoader;
   private backgroundFilePicker: FilePickerHelper;
 
@@ -60,12 +61,20 @@ export class SceneCompilerNode extends BaseThreeNode<
       },
     });
 
+    // Background texture file, saved with the graph by hash and loaded again from the asset store
+    this.addProperty({
+      name: 'backgroundAsset',
+      type: 'asset',
+      value: '',
+      label: 'Background Texture',
+    });
+
     // Register file picker for background texture
     this.backgroundFilePicker = new FilePickerHelper({
       acceptedFileTypes: '.jpg,.jpeg,.png,.webp,.hdr,.exr',
       buttonLabel: 'Load Background Texture',
-      onFileSelected: async (_file, url) => {
-        await this.loadBackgroundTexture(url);
+      onFileSelected: async (_file, url, asset) => {
+        await this.loadBackgroundTexture(url, asset);
       },
       onFileCleared: () => {
         this.clearBackgroundTexture();
@@ -77,50 +86,75 @@ export class SceneCompilerNode extends BaseThreeNode<
   /**
    * Load background texture from file
    */
-  private async loadBackgroundTexture(url: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.textureLoader.load(
-        url,
-        (texture) => {
-          // Dispose old texture if exists
-          if (this.backgroundTexture) {
-            this.backgroundTexture.dispose();
-          }
-
-          texture.colorSpace = THREE.SRGBColorSpace;
-          this.backgroundTexture = texture;
-          this.trackResource(texture);
-          this.setProperty('backgroundTexturePath', url);
-
-          // Mark dirty and trigger change
-          this.markDownstreamDirty();
-          if (this.graph) {
-            setTimeout(() => {
-              if (this.graph) {
-                this.graph.triggerChange();
-              }
-            }, 0);
-          }
-          resolve();
-        },
-        undefined,
-        (error) => {
-          console.error('Error loading background texture:', error);
-          reject(error);
+  private async loadBackgroundTexture(url: string, asset: string): Promise<void> {
+    this.setBackgroundTexture(await this.loadTexture(url), asset);
+    this.setProperty('backgroundAsset', asset);
+
+    // Mark dirty and trigger change
+    this.markDownstreamDirty();
+    if (this.graph) {
+      setTimeout(() => {
+        if (this.graph) {
+          this.graph.triggerChange();
         }
-      );
-    });
+      }, 0);
+    }
   }
 
   /**
-   * Clear background texture
+   * Load the background texture saved with the graph, e.g. after the graph was loaded or an undo
    */
-  private clearBackgroundTexture(): void {
+  private async restoreBackgroundTexture(asset: string, signal?: AbortSignal): Promise<void> {
+    const file = await assetStore.getFile(asset);
+    if (signal?.aborted) return;
+    if (!file) {
+      this.setBackgroundTexture(null, asset);
+      this.reportError('Background texture is missing from the asset store');
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    try {
+      const texture = await this.loadTexture(url);
+      if (signal?.aborted) {
+        texture.dispose();
+        return;
+      }
+      this.setBackgroundTexture(texture, asset);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private loadTexture(url: string): Promise<THREE.Texture> {
+    return new Promise((resolve, reject) => {
+      this.textureLoader.load(url, resolve, undefined, (error) => {
+        console.error('Error loading background texture:', error);
+        reject(error);
+      });
+    });
+  }
+
+  private setBackgroundTexture(texture: THREE.Texture | null, asset: string | null): void {
+    // Dispose old texture if exists
     if (this.backgroundTexture) {
       this.backgroundTexture.dispose();
-      this.backgroundTexture = null;
     }
-    this.setProperty('backgroundTexturePath', '');
+
+    if (texture) {
+      texture.colorSpace = THREE.SRGBColorSpace;
+      this.trackResource(texture);
+    }
+    this.backgroundTexture = texture;
+    this.backgroundAsset = asset;
+  }
+
+  /**
+   * Clear background texture
+   */
+  private clearBackgroundTexture(): void {
+    this.setBackgroundTexture(null, null);
+    this.setProperty('backgroundAsset', '');
     this.markDownstreamDirty();
     if (this.graph) {
       this.graph.triggerChange();
@@ -180,7 +214,21 @@ export class SceneCompilerNode extends BaseThreeNode<
     return false;
   }
 
-  evaluate(context: EvaluationContext): void {
+  evaluate(context: EvaluationContext): void | Promise<void> {
+    const asset = this.getProperty('backgroundAsset');
+    if (asset !== (this.backgroundAsset ?? '')) {
+      if (asset) {
+        return this.restoreBackgroundTexture(asset, context.signal).then(() => {
+          if (!context.signal?.aborted) this.compile(context);
+        });
+      }
+      // Cleared by an undo
+      this.setBackgroundTexture(null, null);
+    }
+    this.compile(context);
+  }
+
+  private compile(context: EvaluationContext): void {
     const scene = context.graph?.scene;
     const camera = this.getInputValue<THREE.Camera>('camera');
     const objectInputs = this.getInputValues<THREE.Object3D>('objects');
@@ -14,7 +14,7 @@ export class SceneNode extends BaseThreeNode<never, 'scene'> {
     if (scene) {
       this.setOutputValue('scene', scene);
     } else {
-      console.warn('SceneNode: No default scene available in graph context');
+      this.warn('No default scene available in graph context');
     }
   }
 
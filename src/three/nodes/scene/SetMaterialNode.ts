@@ -22,13 +22,13 @@ export class SetMaterialNode extends BaseThreeNode<'object' | 'material', 'objec
     const material = this.getInputValue<THREE.Material>('material');
 
     if (!object) {
-      console.warn('SetMaterialNode: No object provided');
+      this.warn('No object provided');
       this.setOutputValue('object', undefined);
       return;
     }
 
     if (!material) {
-      console.warn('SetMaterialNode: No material provided');
+      this.warn('No material provided');
       // Still clone to maintain non-destructive workflow
       this.setOutputValue('object', object.clone());
       return;
@@ -68,7 +68,7 @@ export class SetMaterialNode extends BaseThreeNode<'object' | 'material', 'objec
         }
       });
     } else {
-      console.warn('SetMaterialNode: Object type does not support materials');
+      this.warn('Object type does not support materials');
     }
 
     this.setOutputValue('object', clonedObject);
@@ -1,5 +1,5 @@
 import { BaseThreeNode } from '../../BaseThreeNode';
-import { PortType } from '@/types';
+import { PortType, listOf } from '@/types';
 import { EvaluationContext } from '@/core';
 import * as THREE from 'three';
 
@@ -15,7 +15,7 @@ export class UpdateInstancePositionsNode extends BaseThreeNode<
     super(id, 'UpdateInstancePositionsNode', 'Update Instance Positions');
 
     this.addInput({ name: 'instancedMesh', type: PortType.Object3D });
-    this.addInput({ name: 'positions', type: PortType.Any }); // Array of Vector3
+    this.addInput({ name: 'positions', type: listOf(PortType.Vector3) });
 
     this.addOutput({ name: 'instancedMesh', type: PortType.Object3D });
   }
@@ -25,13 +25,13 @@ export class UpdateInstancePositionsNode extends BaseThreeNode<
     const positions = this.getInputValue<THREE.Vector3[]>('positions');
 
     if (!instancedMesh || !(instancedMesh instanceof THREE.InstancedMesh)) {
-      console.warn('UpdateInstancePositionsNode: Invalid or missing InstancedMesh');
+      this.warn('Invalid or missing InstancedMesh');
       this.setOutputValue('instancedMesh', instancedMesh);
       return;
     }
 
     if (!positions || !Array.isArray(positions)) {
-      console.warn('UpdateInstancePositionsNode: Invalid or missing positions array');
+      this.warn('Invalid or missing positions array');
       this.setOutputValue('instancedMesh', instancedMesh);
       return;
     }
@@ -67,5 +67,7 @@ export class UpdateInstancePositionsNode extends BaseThreeNode<
     instancedMesh.instanceMatrix.needsUpdate = true;
 
     this.setOutputValue('instancedMesh', instancedMesh);
+    // Same mesh as the input, with new instance matrices
+    this.markOutputChanged('instancedMesh');
   }
 }
@@ -48,7 +48,7 @@ export class GLTFExporterNode extends BaseThreeNode<'object', 'data'> {
     this.addProperty({ name: 'filename', type: 'string', value: 'scene', label: 'Filename' });
   }
 
-  evaluate(_context: EvaluationContext): void {
+  evaluate(context: EvaluationContext): void | Promise<void> {
     const inputObjects = this.getInputValues<THREE.Object3D>('object');
 
     // Flatten all objects (handle both single objects and arrays)
@@ -87,35 +87,32 @@ export class GLTFExporterNode extends BaseThreeNode<'object', 'data'> {
       animations: this.getProperty('animations') ? exportObject.animations : undefined,
     };
 
+    return this.export(exportObject, options, context.signal);
+  }
+
+  // Dependents are evaluated once the export is done (see Evaluator)
+  private async export(
+    object: THREE.Object3D,
+    options: Parameters<GLTFExporter['parseAsync']>[1],
+    signal?: AbortSignal
+  ): Promise<void> {
+    let result: ArrayBuffer | { [key: string]: unknown };
     try {
-      // Export the object (this is async but we're not waiting for it)
-      // The result will be available in the next evaluation cycle
-      this.exporter.parse(
-        exportObject,
-        (result) => {
-          // Cast result to any to satisfy PortValue type constraint
-          this.setOutputValue('data', result as any);
-
-          // Auto download if enabled
-          const autoDownload = this.getProperty('autoDownload');
-          if (autoDownload) {
-            this.downloadExport(result, options.binary);
-          }
-
-          // Trigger re-evaluation to propagate the result
-          if (this.graph) {
-            this.graph.triggerChange();
-          }
-        },
-        (error) => {
-          console.error('GLTF Export Error:', error);
-          this.setOutputValue('data', undefined);
-        },
-        options
-      );
+      result = await this.exporter.parseAsync(object, options);
     } catch (error) {
-      console.error('GLTF Export Failed:', error);
+      if (signal?.aborted) return;
+      console.error('GLTF Export Error:', error);
       this.setOutputValue('data', undefined);
+      throw error;
+    }
+    if (signal?.aborted) return;
+
+    // Cast result to any to satisfy PortValue type constraint
+    this.setOutputValue('data', result as any);
+
+    // Auto download if enabled (browser only; headless runs write files themselves)
+    if (this.getProperty('autoDownload') && typeof document !== 'undefined') {
+      this.downloadExport(result, options?.binary ?? false);
     }
   }
 
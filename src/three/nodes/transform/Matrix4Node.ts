@@ -10,7 +10,7 @@ export class Matrix4Node extends BaseThreeNode<
   constructor(id: string) {
     super(id, 'Matrix4Node', 'Matrix4');
     this.addInput({ name: 'object', type: PortType.Object3D });
-    this.addInput({ name: 'matrix', type: PortType.Any }); // THREE.Matrix4
+    this.addInput({ name: 'matrix', type: PortType.Matrix4 });
     this.addOutput({ name: 'object', type: PortType.Object3D });
 
     // Property for application mode
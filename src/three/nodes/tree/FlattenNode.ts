@@ -0,0 +1,20 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType, listOf } from '@/types';
+import { EvaluationContext } from '@/core';
+
+/**
+ * Flatten Node
+ * Puts all items of a tree into a single list
+ */
+export class FlattenNode extends BaseThreeNode<'data', 'list'> {
+  constructor(id: string) {
+    super(id, 'FlattenNode', 'Flatten');
+    this.addInput({ name: 'data', type: PortType.Any, access: 'tree' });
+    this.addOutput({ name: 'list', type: listOf(PortType.Any) });
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    const tree = this.inputs.get('data')!.getTree();
+    this.setOutputValue('list', tree.allItems());
+  }
+}
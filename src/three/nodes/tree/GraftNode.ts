@@ -0,0 +1,20 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType } from '@/types';
+import { EvaluationContext } from '@/core';
+
+/**
+ * Graft Node
+ * Moves every item into its own branch: {0}[a, b] becomes {0;0}[a], {0;1}[b]
+ */
+export class GraftNode extends BaseThreeNode<'data', 'tree'> {
+  constructor(id: string) {
+    super(id, 'GraftNode', 'Graft');
+    this.addInput({ name: 'data', type: PortType.Any, access: 'tree' });
+    this.addOutput({ name: 'tree', type: PortType.Any });
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    const tree = this.inputs.get('data')!.getTree();
+    this.setOutputValue('tree', tree.graft().toValue());
+  }
+}
@@ -0,0 +1,20 @@
+import { BaseThreeNode } from '../../BaseThreeNode';
+import { PortType } from '@/types';
+import { EvaluationContext } from '@/core';
+
+/**
+ * Simplify Node
+ * Removes the path indices shared by all branches: {0;0;1}, {0;0;2} become {1}, {2}
+ */
+export class SimplifyNode extends BaseThreeNode<'data', 'tree'> {
+  constructor(id: string) {
+    super(id, 'SimplifyNode', 'Simplify');
+    this.addInput({ name: 'data', type: PortType.Any, access: 'tree' });
+    this.addOutput({ name: 'tree', type: PortType.Any });
+  }
+
+  evaluate(_context: EvaluationContext): void {
+    const tree = this.inputs.get('data')!.getTree();
+    this.setOutputValue('tree', tree.simplify().toValue());
+  }
+}
@@ -0,0 +1,198 @@
+import { Node } from '@/core/Node';
+import { Edge } from '@/core/Edge';
+import { SubgraphRunner, SubgraphNodeResult } from '@/core/types';
+import { NodeRegistry } from '../NodeRegistry';
+import {
+  EXTERNAL_NODE_ID,
+  SubgraphJob,
+  SubgraphJobNode,
+  WorkerResponse,
+  packValue,
+  unpackValue,
+} from './protocol';
+
+interface PendingJob {
+  resolve: (results: Map<string, SubgraphNodeResult>) => void;
+  reject: (error: Error) => void;
+  onProgress: (completed: number) => void;
+}
+
+/**
+ * Evaluates subgraphs of worker-safe nodes (see NodeMetadata.workerSafe) in a Web Worker,
+ * so long pure-data computations don't block the editor.
+ */
+export class WorkerSubgraphRunner implements SubgraphRunner {
+  private registry: NodeRegistry;
+  private createWorker: () => Worker;
+  private worker: Worker | null = null;
+  private jobs: Map<number, PendingJob> = new Map();
+  private nextJobId = 1;
+
+  constructor(registry: NodeRegistry, createWorker: () => Worker) {
+    this.registry = registry;
+    this.createWorker = createWorker;
+  }
+
+  canRun(node: Node): boolean {
+    return this.registry.getMetadata(node.type)?.workerSafe === true;
+  }
+
+  run(
+    nodes: Node[],
+    signal: AbortSignal,
+    onProgress: (completed: number) => void
+  ): Promise<Map<string, SubgraphNodeResult>> | null {
+    const transfer: Transferable[] = [];
+    let job: SubgraphJob;
+    try {
+      job = this.createJob(nodes, transfer);
+    } catch {
+      // Some input value can't be sent to the worker
+      return null;
+    }
+
+    const worker = this.getWorker();
+    return new Promise((resolve, reject) => {
+      this.jobs.set(job.jobId, { resolve, reject, onProgress });
+
+      signal.addEventListener(
+        'abort',
+        () => {
+          if (!this.jobs.delete(job.jobId)) return;
+          reject(new Error('Evaluation cancelled'));
+          // A running job can't be interrupted, so drop the worker unless others still need it
+          if (this.jobs.size === 0) this.terminate();
+        },
+        { once: true }
+      );
+
+      worker.postMessage(job, transfer);
+    });
+  }
+
+  /**
+   * Stop the worker, failing any jobs still running
+   */
+  dispose(): void {
+    this.failAll(new Error('Worker stopped'));
+    this.terminate();
+  }
+
+  private createJob(nodes: Node[], transfer: Transferable[]): SubgraphJob {
+    const ids = new Set(nodes.map((node) => node.id));
+    const edges: SubgraphJob['edges'] = [];
+    const externals: Record<string, unknown> = {};
+
+    const jobNodes = nodes.map((node): SubgraphJobNode => {
+      const inputs: Record<string, unknown> = {};
+      for (const [name, port] of node.inputs) {
+        if (port.connections.length === 0) {
+          inputs[name] = packValue(port.value, transfer);
+        }
+
+        // In connection order, which is the order of multi-connection input values
+        for (const edge of port.connections as Edge[]) {
+          const source = edge.source;
+          if (ids.has(source.node.id)) {
+            edges.push({
+              sourceNodeId: source.node.id,
+              sourcePortName: source.name,
+              targetNodeId: node.id,
+              targetPortName: name,
+            });
+          } else {
+            // Converted values are sent per edge, the conversion depends on the target
+            const key = edge.conversion ? edge.id : source.id;
+            if (!(key in externals)) {
+              externals[key] = packValue(edge.value, transfer);
+            }
+            edges.push({
+              sourceNodeId: EXTERNAL_NODE_ID,
+              sourcePortName: key,
+              targetNodeId: node.id,
+              targetPortName: name,
+            });
+          }
+        }
+      }
+
+      const properties: Record<string, unknown> = {};
+      for (const [name, property] of node.properties) {
+        properties[name] = packValue(property.value, transfer);
+      }
+
+      return {
+        id: node.id,
+        type: node.type,
+        state: node.serializeState(),
+        properties,
+        inputs,
+      };
+    });
+
+    return {
+      type: 'run',
+      jobId: this.nextJobId++,
+      nodes: jobNodes,
+      edges,
+      externals,
+      seed: nodes[0]?.graph?.seed ?? 0,
+    };
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = this.createWorker();
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+      worker.onerror = (event) => {
+        event.preventDefault();
+        this.failAll(new Error(event.message || 'Evaluation worker failed'));
+        this.terminate();
+      };
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: WorkerResponse): void {
+    const job = this.jobs.get(message.jobId);
+    if (!job) return; // Cancelled
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress(message.completed);
+        break;
+
+      case 'result': {
+        this.jobs.delete(message.jobId);
+        const results = new Map<string, SubgraphNodeResult>();
+        for (const [id, result] of Object.entries(message.results)) {
+          results.set(id, {
+            ...result,
+            outputs: Object.fromEntries(
+              Object.entries(result.outputs).map(([name, value]) => [name, unpackValue(value)])
+            ),
+          });
+        }
+        job.resolve(results);
+        break;
+      }
+
+      case 'error':
+        this.jobs.delete(message.jobId);
+        job.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  private failAll(error: Error): void {
+    const jobs = Array.from(this.jobs.values());
+    this.jobs.clear();
+    jobs.forEach((job) => job.reject(error));
+  }
+
+  private terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
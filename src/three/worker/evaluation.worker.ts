@@ -0,0 +1,143 @@
+/**
+ * Evaluation worker
+ *
+ * Rebuilds the subgraphs sent by WorkerSubgraphRunner with the default node
+ * types, evaluates them and posts back progress and the packed outputs.
+ */
+
+import { Graph } from '@/core/Graph';
+import { Evaluator } from '@/core/Evaluator';
+import { Node } from '@/core/Node';
+import { PortType } from '@/types';
+import { createDefaultRegistry } from '../index';
+import {
+  EXTERNAL_NODE_ID,
+  PackedNodeResult,
+  SubgraphJob,
+  WorkerRequest,
+  WorkerResponse,
+  packValue,
+  unpackValue,
+} from './protocol';
+
+// Minimum time between progress messages
+const PROGRESS_INTERVAL_MS = 50;
+
+const registry = createDefaultRegistry();
+
+// Outputs the values of the sources outside the subgraph
+class ExternalValuesNode extends Node {
+  constructor() {
+    super(EXTERNAL_NODE_ID, 'ExternalValuesNode', 'External Values');
+  }
+
+  setValue(name: string, value: unknown): void {
+    const port = this.outputs.get(name) ?? this.addOutput({ name, type: PortType.Any });
+    port.value = value;
+  }
+
+  evaluate(): void {
+    // Values are set when the subgraph is built
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const job = event.data;
+  runJob(job).catch((error) => {
+    post({
+      type: 'error',
+      jobId: job.jobId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  });
+};
+
+async function runJob(job: SubgraphJob): Promise<void> {
+  const graph = buildGraph(job);
+  const evaluator = new Evaluator(graph);
+  // The nodes are built anew for each job, so their results could never be reused
+  evaluator.setMemoCache(null);
+
+  let completed = 0;
+  let lastProgress = 0;
+  evaluator.onNodeEvaluated(() => {
+    completed++;
+    const now = performance.now();
+    if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      post({ type: 'progress', jobId: job.jobId, completed });
+    }
+  });
+
+  await evaluator.evaluate();
+
+  const transfer: Transferable[] = [];
+  const results: Record<string, PackedNodeResult> = {};
+  for (const { id } of job.nodes) {
+    const node = graph.getNode(id)!;
+    results[id] = {
+      outputs: Object.fromEntries(
+        Array.from(node.outputs, ([name, port]) => [name, packValue(port.value, transfer)])
+      ),
+      diagnostics: [...node.diagnostics],
+      blockedBy: node.blockedBy,
+      durationMs: graph.profiler.get(id)?.lastMs ?? 0,
+    };
+  }
+
+  post({ type: 'result', jobId: job.jobId, results }, transfer);
+}
+
+function buildGraph(job: SubgraphJob): Graph {
+  const graph = new Graph();
+
+  // Throwaway graph, no undo history needed
+  graph.history.suspend(() => {
+    graph.setSeed(job.seed);
+
+    const externals = new ExternalValuesNode();
+    for (const [name, value] of Object.entries(job.externals)) {
+      externals.setValue(name, unpackValue(value));
+    }
+    graph.addNode(externals);
+    externals.markClean();
+
+    for (const data of job.nodes) {
+      const node = registry.createNode(data.type, data.id);
+      if (!node) {
+        throw new Error(`Unknown node type: ${data.type}`);
+      }
+
+      if (data.state) {
+        node.restoreState(data.state);
+      }
+      // Through setProperty, so nodes can react (e.g. Expression parses its formula)
+      for (const [name, value] of Object.entries(data.properties)) {
+        node.setProperty(name, unpackValue(value));
+      }
+      for (const [name, value] of Object.entries(data.inputs)) {
+        const port = node.inputs.get(name);
+        if (port) {
+          port.value = unpackValue(value);
+        }
+      }
+
+      graph.addNode(node);
+    }
+
+    for (const edge of job.edges) {
+      const sourcePort = graph.getNode(edge.sourceNodeId)?.outputs.get(edge.sourcePortName);
+      const targetPort = graph.getNode(edge.targetNodeId)?.inputs.get(edge.targetPortName);
+      if (sourcePort && targetPort) {
+        // Keep existing connections, so inputs with several sources see all of them
+        graph.connect(sourcePort, targetPort, true);
+      }
+    }
+  });
+
+  return graph;
+}
+
+function post(message: WorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
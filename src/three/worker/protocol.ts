@@ -0,0 +1,180 @@
+/**
+ * Messages between the editor and the evaluation worker, and the packing of
+ * port values so they can cross the worker boundary.
+ *
+ * Class instances (vectors, colors) lose their prototype when cloned, so they
+ * are sent as tagged plain data. Lists of vectors and numbers become typed
+ * arrays, whose buffers are transferred instead of copied.
+ */
+
+import * as THREE from 'three';
+import { NodeDiagnostic, SerializedEdge } from '@/core/types';
+import { DataTree } from '@/core/DataTree';
+
+// Id of the worker-side node that stands in for the sources outside the subgraph
+export const EXTERNAL_NODE_ID = '__external';
+
+export interface SubgraphJobNode {
+  id: string;
+  type: string;
+  state?: Record<string, unknown>;
+  properties: Record<string, unknown>;
+  inputs: Record<string, unknown>; // Values of unconnected inputs
+}
+
+export interface SubgraphJob {
+  type: 'run';
+  jobId: number;
+  nodes: SubgraphJobNode[]; // In topological order
+  edges: Omit<SerializedEdge, 'id'>[]; // Sources outside the subgraph are outputs of EXTERNAL_NODE_ID
+  externals: Record<string, unknown>; // Values of those sources, by port id (edge id if converted)
+  seed: number; // Master seed of the graph the nodes are in
+}
+
+export interface PackedNodeResult {
+  outputs: Record<string, unknown>;
+  diagnostics: NodeDiagnostic[];
+  blockedBy: string | null;
+  durationMs: number;
+}
+
+export type WorkerRequest = SubgraphJob;
+
+export type WorkerResponse =
+  | { type: 'progress'; jobId: number; completed: number }
+  | { type: 'result'; jobId: number; results: Record<string, PackedNodeResult> }
+  | { type: 'error'; jobId: number; message: string };
+
+type PackedKind = 'Vector2' | 'Vector3' | 'Color' | 'Vector2[]' | 'Vector3[]' | 'number[]';
+
+interface PackedValue {
+  $packed: PackedKind;
+  data: number[] | Float64Array;
+}
+
+interface PackedTree {
+  $tree: { path: number[]; items: unknown }[];
+}
+
+/**
+ * Convert a port value to data that can be posted to or from the worker.
+ * Buffers created here are added to `transfer`. Throws for values that can't
+ * be sent, e.g. meshes or functions.
+ */
+export function packValue(value: unknown, transfer: Transferable[]): unknown {
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    throw new Error(`Can't send a ${typeof value} to a worker`);
+  }
+  if (value === null || typeof value !== 'object') return value;
+
+  if (value instanceof THREE.Vector3) return packed('Vector3', value.toArray());
+  if (value instanceof THREE.Vector2) return packed('Vector2', value.toArray());
+  if (value instanceof THREE.Color) return packed('Color', value.toArray());
+  if (value instanceof DataTree) {
+    const tree: PackedTree = {
+      $tree: value.branches.map((branch) => ({
+        path: branch.path,
+        items: packValue(branch.items, transfer),
+      })),
+    };
+    return tree;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every((item) => item instanceof THREE.Vector3)) {
+      return packed('Vector3[]', flatten(value as THREE.Vector3[], 3, transfer));
+    }
+    if (value.length > 0 && value.every((item) => item instanceof THREE.Vector2)) {
+      return packed('Vector2[]', flatten(value as THREE.Vector2[], 2, transfer));
+    }
+    if (value.length > 0 && value.every((item) => typeof item === 'number')) {
+      const data = Float64Array.from(value as number[]);
+      transfer.push(data.buffer);
+      return packed('number[]', data);
+    }
+    return value.map((item) => packValue(item, transfer));
+  }
+
+  // Cloned rather than transferred, since the sender may still be using it
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) return value;
+
+  // Plain data (e.g. parsed JSON or CSV rows)
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype === Object.prototype || prototype === null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, packValue(item, transfer)])
+    );
+  }
+
+  throw new Error(`Can't send a ${value.constructor?.name ?? 'object'} to a worker`);
+}
+
+/**
+ * Inverse of packValue
+ */
+export function unpackValue(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value;
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) return value;
+  if (Array.isArray(value)) return value.map(unpackValue);
+
+  if (isPacked(value)) {
+    const data = value.data;
+    switch (value.$packed) {
+      case 'Vector3':
+        return new THREE.Vector3().fromArray(data);
+      case 'Vector2':
+        return new THREE.Vector2().fromArray(data);
+      case 'Color':
+        return new THREE.Color().fromArray(data);
+      case 'Vector3[]':
+        return Array.from(
+          { length: data.length / 3 },
+          (_, i) => new THREE.Vector3(data[i * 3], data[i * 3 + 1], data[i * 3 + 2])
+        );
+      case 'Vector2[]':
+        return Array.from(
+          { length: data.length / 2 },
+          (_, i) => new THREE.Vector2(data[i * 2], data[i * 2 + 1])
+        );
+      case 'number[]':
+        return Array.from(data);
+    }
+  }
+
+  if (isPackedTree(value)) {
+    const tree = new DataTree();
+    for (const branch of value.$tree) {
+      tree.append(branch.path, ...(unpackValue(branch.items) as unknown[]));
+    }
+    return tree;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, unpackValue(item)]));
+}
+
+function packed($packed: PackedKind, data: number[] | Float64Array): PackedValue {
+  return { $packed, data };
+}
+
+function isPacked(value: object): value is PackedValue {
+  return '$packed' in value && 'data' in value;
+}
+
+function isPackedTree(value: object): value is PackedTree {
+  return '$tree' in value;
+}
+
+function flatten(
+  vectors: (THREE.Vector2 | THREE.Vector3)[],
+  size: number,
+  transfer: Transferable[]
+): Float64Array {
+  const data = new Float64Array(vectors.length * size);
+  vectors.forEach((vector, i) => {
+    data[i * size] = vector.x;
+    data[i * size + 1] = vector.y;
+    if (vector instanceof THREE.Vector3) data[i * size + 2] = vector.z;
+  });
+  transfer.push(data.buffer);
+  return data;
+}
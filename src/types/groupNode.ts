@@ -0,0 +1,24 @@
+import type { SerializedGraph } from '@/core/types';
+
+/**
+ * Group node definition structure for storage and registration.
+ * A group type is a saved subgraph that can be reused like any other node.
+ */
+export interface GroupNodeDefinition {
+  type: string; // Unique type name (e.g., "Group_Scatter")
+  label: string; // Display name
+  category: string;
+  icon?: string;
+  description?: string;
+  subgraph: SerializedGraph; // Contents, including the Group Input/Output nodes
+  createdAt: number; // Timestamp
+  updatedAt: number; // Timestamp
+}
+
+/**
+ * Storage format for group node types in localStorage
+ */
+export interface GroupNodeStorage {
+  version: string;
+  nodes: GroupNodeDefinition[];
+}
@@ -1,7 +1,9 @@
 import * as THREE from 'three';
+import type { SerializedGraph, SerializedNode } from '@/core/types';
 
 // Re-export custom node types
 export * from './customNode';
+export * from './groupNode';
 
 // Port types for the node system
 export enum PortType {
@@ -11,17 +13,41 @@ export enum PortType {
   Vector3 = 'vector3',
   Color = 'color',
   Matrix4 = 'matrix4',
+  Quaternion = 'quaternion',
+  Euler = 'euler',
+  Curve = 'curve',
   Texture = 'texture',
   Geometry = 'geometry',
+  BufferAttribute = 'bufferattribute',
   Material = 'material',
   Object3D = 'object3d',
   Scene = 'scene',
   Camera = 'camera',
   Light = 'light',
   Point2D = 'point2d',
+  PhysicsWorld = 'physicsworld',
   Any = 'any',
 }
 
+// A list of values of a port type, e.g. 'vector3[]' (see listOf)
+export type ListPortType = `${PortType}[]`;
+
+// Type of a port: single values of a PortType, or lists of them
+export type PortDataType = PortType | ListPortType;
+
+export function listOf(type: PortType): ListPortType {
+  return `${type}[]`;
+}
+
+export function isListType(type: PortDataType): type is ListPortType {
+  return type.endsWith('[]');
+}
+
+// The type of the items of a list type (single-value types are returned as is)
+export function elementType(type: PortDataType): PortType {
+  return (isListType(type) ? type.slice(0, -2) : type) as PortType;
+}
+
 // 2D Point type
 export interface Point2D {
   x: number;
@@ -71,6 +97,25 @@ export interface NodeMetadata {
   description?: string;
   icon?: string;
   sourceFile?: string; // Path to the source file for displaying full code
+  hidden?: boolean; // Hide from the add-node menu (e.g. nodes created by other editor actions)
+  workerSafe?: boolean; // Pure data in and out, no DOM or live Three.js objects; may run in a worker
+  memoize?: boolean; // Results depend only on inputs and properties; may be reused (default: workerSafe)
+  version?: number; // Version of the saved node data (default 1), raised with each migration
+  migrations?: NodeMigration[]; // Upgrades of saved nodes from older versions, one per version
+}
+
+/**
+ * Upgrade of a saved node by one version (see core/migrations). Renames are applied
+ * first, then migrate() for anything else, e.g. splitting the node in two.
+ */
+export interface NodeMigration {
+  from?: number; // Version upgraded from, to from + 1 (not used for legacy types)
+  type?: string; // New node type, for renamed types or replacements of removed ones
+  inputs?: Record<string, string>; // Renamed input ports, old name to new
+  outputs?: Record<string, string>; // Renamed output ports, old name to new
+  properties?: Record<string, string>; // Renamed properties, old name to new
+  // May change the node and the rest of the graph, e.g. add nodes and rewire edges
+  migrate?: (node: SerializedNode, graph: SerializedGraph) => void;
 }
 
 // Scene output structure
@@ -82,7 +127,7 @@ export interface SceneOutput {
 // Port definition schema
 export interface PortDefinition {
   name: string;
-  type: PortType;
+  type: PortDataType;
   defaultValue?: PortValue;
   required?: boolean;
 }
@@ -1,5 +1,6 @@
 import { Graph } from '@/core/Graph';
 import { Node } from '@/core/Node';
+import { MoveNodesCommand, captureNodePositions } from '@/core/commands';
 
 export interface AutoLayoutConfig {
   horizontalSpacing: number;
@@ -30,6 +31,13 @@ export class AutoLayoutManager {
     };
   }
 
+  /**
+   * Switch to another graph (e.g. when entering a group)
+   */
+  setGraph(graph: Graph): void {
+    this.graph = graph;
+  }
+
   /**
    * Update layout configuration
    */
@@ -63,13 +71,8 @@ export class AutoLayoutManager {
       return;
     }
 
-    // Store original positions if we're constraining an axis
-    const originalPositions = new Map<string, { x: number; y: number }>();
-    if (!applyHorizontal || !applyVertical) {
-      for (const node of nodes) {
-        originalPositions.set(node.id, { ...node.position });
-      }
-    }
+    // Store original positions for undo and for constrained axes
+    const originalPositions = captureNodePositions(nodes);
 
     // Step 1: Calculate node layers based on topological ordering
     const layers = this.calculateNodeLayers(nodes);
@@ -92,8 +95,19 @@ export class AutoLayoutManager {
       }
     }
 
-    // Trigger graph update to redraw
-    this.graph.triggerChange();
+    // Record the whole layout as a single undo step
+    const command = new MoveNodesCommand(
+      this.graph,
+      originalPositions,
+      captureNodePositions(nodes),
+      'Auto layout'
+    );
+    if (command.hasChanges()) {
+      this.graph.history.record(command);
+    }
+
+    // Only the layout changed, so nothing needs evaluating
+    this.graph.emit({ type: 'positionChanged', nodes });
   }
 
   /**
@@ -376,10 +390,21 @@ export class AutoLayoutManager {
       }
 
       // Trigger redraw
-      this.graph.triggerChange();
-
-      // Continue animation if not complete
-      if (progress < 1) requestAnimationFrame(animate);
+      this.graph.emit({ type: 'positionChanged', nodes });
+
+      // Continue animation if not complete, record the final layout once done
+      if (progress < 1) {
+        requestAnimationFrame(animate);
+      } else {
+        this.graph.history.record(
+          new MoveNodesCommand(
+            this.graph,
+            originalPositions,
+            captureNodePositions(nodes),
+            'Auto layout'
+          )
+        );
+      }
     };
 
     requestAnimationFrame(animate);
@@ -2,6 +2,10 @@ import { Graph } from '@/core/Graph';
 import { Node } from '@/core/Node';
 import { SelectionManager } from './SelectionManager';
 import { NodeRegistry } from '@/three/NodeRegistry';
+import { GroupNode } from '@/three/nodes/group/GroupNode';
+import { serializeGraph } from '@/core/serializer';
+import { deserializeGraph } from '@/core/deserializer';
+import { SerializedGraph } from '@/core/types';
 
 interface ClipboardData {
   nodes: Array<{
@@ -10,6 +14,7 @@ interface ClipboardData {
     label: string;
     position: { x: number; y: number };
     inputValues: Record<string, unknown>;
+    subgraph?: SerializedGraph; // Contents of group nodes
   }>;
   edges: Array<{
     sourceNodeId: string;
@@ -35,6 +40,13 @@ export class ClipboardManager {
     private registry: NodeRegistry
   ) {}
 
+  /**
+   * Switch to another graph (e.g. when entering a group)
+   */
+  setGraph(graph: Graph): void {
+    this.graph = graph;
+  }
+
   /**
    * Copy selected nodes and their internal connections to clipboard
    */
@@ -73,10 +85,12 @@ export class ClipboardManager {
 
       nodes.push({
         id: nodeId,
-        type: node.constructor.name,
+        // Group types are registered at runtime, so their classes have no usable name
+        type: node instanceof GroupNode ? node.type : node.constructor.name,
         label: node.label,
         position: { ...node.position },
         inputValues,
+        subgraph: node instanceof GroupNode ? serializeGraph(node.subgraph) : undefined,
       });
     }
 
@@ -111,9 +125,11 @@ export class ClipboardManager {
   cut(): void {
     this.copy();
     const selectedIds = Array.from(this.selectionManager.getSelectedNodes());
-    for (const nodeId of selectedIds) {
-      this.graph.removeNode(nodeId);
-    }
+    this.graph.history.group(`Cut ${selectedIds.length} node(s)`, () => {
+      for (const nodeId of selectedIds) {
+        this.graph.removeNode(nodeId);
+      }
+    });
     this.selectionManager.clearSelection();
     console.log(`Cut ${selectedIds.length} node(s)`);
   }
@@ -122,11 +138,19 @@ export class ClipboardManager {
    * Paste clipboard contents at mouse position or with offset
    */
   paste(mousePos?: { x: number; y: number }): void {
-    if (!this.clipboard || this.clipboard.nodes.length === 0) {
+    const clipboard = this.clipboard;
+    if (!clipboard || clipboard.nodes.length === 0) {
       console.log('Nothing to paste');
       return;
     }
 
+    // The whole paste (nodes and edges) is a single undo step
+    this.graph.history.group(`Paste ${clipboard.nodes.length} node(s)`, () =>
+      this.pasteClipboard(clipboard, mousePos)
+    );
+  }
+
+  private pasteClipboard(clipboard: ClipboardData, mousePos?: { x: number; y: number }): void {
     // Map old IDs to new IDs
     const idMap = new Map<string, string>();
     const newNodes: Node[] = [];
@@ -137,8 +161,8 @@ export class ClipboardManager {
 
     if (mousePos) {
       // Paste at mouse position (center the pasted nodes around mouse)
-      const centerX = (this.clipboard.bounds.minX + this.clipboard.bounds.maxX) / 2;
-      const centerY = (this.clipboard.bounds.minY + this.clipboard.bounds.maxY) / 2;
+      const centerX = (clipboard.bounds.minX + clipboard.bounds.maxX) / 2;
+      const centerY = (clipboard.bounds.minY + clipboard.bounds.maxY) / 2;
       offsetX = mousePos.x - centerX;
       offsetY = mousePos.y - centerY;
     } else {
@@ -148,7 +172,7 @@ export class ClipboardManager {
     }
 
     // Create new nodes
-    for (const nodeData of this.clipboard.nodes) {
+    for (const nodeData of clipboard.nodes) {
       const newId = `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       const newNode = this.registry.createNode(nodeData.type, newId);
 
@@ -159,6 +183,11 @@ export class ClipboardManager {
 
       idMap.set(nodeData.id, newId);
 
+      // Pasted groups get their own copy of the subgraph
+      if (nodeData.subgraph && newNode instanceof GroupNode) {
+        newNode.setSubgraph(deserializeGraph(nodeData.subgraph, this.registry));
+      }
+
       newNode.label = nodeData.label;
       newNode.position = {
         x: nodeData.position.x + offsetX,
@@ -178,7 +207,7 @@ export class ClipboardManager {
     }
 
     // Recreate edges with new IDs
-    for (const edgeData of this.clipboard.edges) {
+    for (const edgeData of clipboard.edges) {
       const newTargetId = idMap.get(edgeData.targetNodeId);
       if (!newTargetId) continue;
 
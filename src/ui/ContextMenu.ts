@@ -136,7 +136,7 @@ export class ContextMenu {
     if (this.pane) this.pane.dispose();
 
     // Get all node types grouped by category
-    const allTypes = this.registry.getAllTypes();
+    const allTypes = this.registry.getAllTypes().filter((metadata) => !metadata.hidden);
     console.log(`Context menu: Found ${allTypes.length} node types`);
     const categories = new Map<string, NodeMetadata[]>();
 
@@ -1,6 +1,6 @@
 import { Node } from '@/core/Node';
 import { CustomNodeDefinition, AIGenerationRequest } from '@/types/customNode';
-import { PortType, PortDefinition } from '@/types';
+import { PortType, PortDataType, PortDefinition, listOf } from '@/types';
 import { PropertyConfig, PropertyType } from '@/core/types';
 import { CustomNodeManager } from '@/three/CustomNodeManager';
 import { AIAssistant } from '@/utils/AIAssistant';
@@ -337,7 +337,7 @@ export class CustomNodeEditor {
       portItem.appendChild(nameInput);
 
       const typeSelect = document.createElement('select');
-      const types = Object.values(PortType);
+      const types = [...Object.values(PortType), ...Object.values(PortType).map(listOf)];
       types.forEach((type) => {
         const option = document.createElement('option');
         option.value = type;
@@ -346,7 +346,7 @@ export class CustomNodeEditor {
         typeSelect.appendChild(option);
       });
       typeSelect.addEventListener('change', () => {
-        port.type = typeSelect.value as PortType;
+        port.type = typeSelect.value as PortDataType;
         this.onPortChanged();
       });
       portItem.appendChild(typeSelect);
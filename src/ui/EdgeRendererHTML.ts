@@ -117,6 +117,9 @@ export class EdgeRendererHTML {
 
     // Check if target port has multiple connections (array connection)
     const isArrayConnection = edge.target.hasMultipleConnections();
+    let className = isArrayConnection ? 'edge edge-array' : 'edge';
+    // Edges between ports of different types convert their values (see core/conversions)
+    if (edge.conversion) className += ' edge-converted';
 
     // Calculate bounding box for this edge
     const bbox = this.calculateBoundingBox(sourcePos.x, sourcePos.y, targetPos.x, targetPos.y);
@@ -135,7 +138,7 @@ export class EdgeRendererHTML {
       const path = d3
         .select(svg)
         .append('path')
-        .attr('class', isArrayConnection ? 'edge edge-array' : 'edge')
+        .attr('class', className)
         .node() as SVGPathElement;
 
       edgeSVG = { svg, path };
@@ -143,7 +146,7 @@ export class EdgeRendererHTML {
       this.container.appendChild(svg);
     } else {
       // Update path class based on connection type
-      edgeSVG.path.setAttribute('class', isArrayConnection ? 'edge edge-array' : 'edge');
+      edgeSVG.path.setAttribute('class', className);
     }
 
     // Update SVG position and size (only dynamic values as inline styles)
@@ -1,6 +1,9 @@
 import { Graph } from '@/core/Graph';
 import { Evaluator } from '@/core/Evaluator';
 import { Port } from '@/core/Port';
+import type { Transport } from '@/core/Transport';
+import { memoCache } from '@/core/MemoCache';
+import { TypeConversion } from '@/core/conversions';
 import { Viewport } from '../Viewport';
 import { NodeRenderer } from '../NodeRenderer';
 import { EdgeRendererHTML } from '../EdgeRendererHTML';
@@ -9,16 +12,26 @@ import { SelectionManager } from '../SelectionManager';
 import { ContextMenu } from '../ContextMenu';
 import { ClipboardManager } from '../ClipboardManager';
 import { PropertiesPanel } from '../PropertiesPanel';
+import { ParametersPanel } from '../ParametersPanel';
+import { KeyframeEditor } from '../KeyframeEditor';
 import { SaveLoadManager } from '../SaveLoadManager';
 import { NodeRegistry } from '@/three/NodeRegistry';
 import { CustomNodeManager } from '@/three/CustomNodeManager';
+import { GroupNodeManager } from '@/three/GroupNodeManager';
+import { GroupNode } from '@/three/nodes/group/GroupNode';
+import { ForEachNode } from '@/three/nodes/group/ForEachNode';
+import { SolverNode } from '@/three/nodes/group/SolverNode';
+import { WorkerSubgraphRunner } from '@/three/worker/WorkerSubgraphRunner';
+import { GroupManager } from '../GroupManager';
 import { AutoLayoutManager } from '../AutoLayoutManager';
 import { Pane } from 'tweakpane';
 import { LiveViewport } from '../LiveViewport';
 import './GraphEditor.css';
 
 export class GraphEditor {
-  private graph: Graph;
+  private graph: Graph; // Graph currently shown (the root graph or an open group's subgraph)
+  private rootGraph: Graph;
+  private groupStack: GroupNode[] = []; // Open groups, outermost first
   private evaluator: Evaluator;
   private viewport: Viewport;
   private nodeRenderer: NodeRenderer;
@@ -29,9 +42,13 @@ export class GraphEditor {
   private clipboardManager: ClipboardManager;
   private propertiesPanel: PropertiesPanel;
   private saveLoadManager: SaveLoadManager;
+  private parametersPanel: ParametersPanel;
+  private keyframeEditor: KeyframeEditor | null = null;
   private registry: NodeRegistry;
   private customNodeManager: CustomNodeManager;
   private autoLayoutManager: AutoLayoutManager;
+  private groupManager: GroupManager;
+  private groupNodeManager: GroupNodeManager;
   private autoLayoutPane: Pane | null = null;
   private autoLayoutPaneContainer: HTMLElement | null = null;
   private liveViewport: LiveViewport | null = null; // Reference to LiveViewport for camera fit operations
@@ -44,6 +61,13 @@ export class GraphEditor {
   private infoOverlay: HTMLElement;
   private fullscreenButton: HTMLButtonElement | null = null;
   private collapseButton: HTMLButtonElement | null = null;
+  private undoButton: HTMLButtonElement | null = null;
+  private redoButton: HTMLButtonElement | null = null;
+  private historyPanel: HTMLElement | null = null;
+  private unsubscribeHistory: (() => void) | null = null;
+  private breadcrumb: HTMLElement;
+  private profilerEnabled: boolean = false;
+  private profilerButton: HTMLButtonElement | null = null;
   private animationId: number | null = null;
 
   constructor(graph: Graph, registry: NodeRegistry, appContainer: HTMLElement) {
@@ -55,8 +79,19 @@ export class GraphEditor {
     appContainer.appendChild(this.container);
     this.appContainer = appContainer;
     this.graph = graph;
+    this.rootGraph = graph;
     this.registry = registry;
     this.evaluator = new Evaluator(graph);
+    // Slow pure-data subgraphs are evaluated in a worker to keep the editor responsive
+    this.evaluator.setSubgraphRunner(
+      new WorkerSubgraphRunner(
+        registry,
+        () =>
+          new Worker(new URL('../../three/worker/evaluation.worker.ts', import.meta.url), {
+            type: 'module',
+          })
+      )
+    );
     this.viewport = new Viewport();
     this.selectionManager = new SelectionManager(graph);
 
@@ -93,9 +128,21 @@ export class GraphEditor {
     // Initialize save/load manager
     this.saveLoadManager = new SaveLoadManager(graph, registry);
 
+    // Graph parameters of the root graph, edited in their own panel
+    this.parametersPanel = new ParametersPanel(graph);
+
+    // Initialize group system (collapsing selections, saving groups as node types)
+    this.groupManager = new GroupManager(graph, this.selectionManager, registry);
+    this.groupNodeManager = new GroupNodeManager(registry);
+
     // Create toolbar with all controls
     this.toolbar = this.createToolbar();
     this.infoOverlay = this.createInfoOverlay();
+    this.breadcrumb = this.createBreadcrumb();
+
+    // Keep undo/redo buttons and history list in sync with the command history
+    this.unsubscribeHistory = this.graph.history.onChange(() => this.updateHistoryControls());
+    this.updateHistoryControls();
 
     // Initialize properties panel
     this.propertiesPanel = new PropertiesPanel(this.appContainer);
@@ -143,14 +190,29 @@ export class GraphEditor {
       this.clipboardManager
     );
 
-    // Listen to graph changes
+    // Double-click a group node to edit its subgraph
+    this.interactionManager.onGroupOpenCallback((node) => {
+      if (node instanceof GroupNode) {
+        this.openGroup(node);
+      }
+    });
+
+    // Lossy or ambiguous type conversions can go through a visible converter node instead
+    this.interactionManager.onConverterCallback((source, target, conversion, keepExisting) =>
+      this.connectWithConverter(source, target, conversion, keepExisting)
+    );
+
+    // Re-evaluate after edits (edits inside open groups propagate up to the root graph).
+    // Moving nodes only needs the render loop.
     this.graph.onChange(() => {
+      this.closeDetachedGroups();
       this.evaluator.evaluate();
       this.render();
-      // Update data flow in properties panel
-      this.propertiesPanel.updateDataFlow();
     });
 
+    // Update data flow in properties panel, also when async results land
+    this.graph.on(['evaluated', 'nodeRemoved'], () => this.propertiesPanel.updateDataFlow());
+
     // Set up keyboard shortcuts
     window.addEventListener('keydown', (e) => {
       // Only handle if not typing in an input
@@ -184,6 +246,13 @@ export class GraphEditor {
         e.preventDefault();
         this.saveLoadManager.showSaveDialog();
       }
+
+      // Group selected nodes (Ctrl/Cmd+G)
+      if ((e.ctrlKey || e.metaKey) && (e.key === 'g' || e.key === 'G')) {
+        if (this.container.classList.contains('hidden')) return;
+        e.preventDefault();
+        this.groupManager.collapseSelection();
+      }
     });
 
     // Initial render
@@ -471,7 +540,7 @@ export class GraphEditor {
     separator3.className = 'toolbar-separator';
     toolbar.appendChild(separator3);
 
-    // Group 2: File operations (Save, Load)
+    // Group 2: File operations (Save, Load, Export, Import)
     const fileOpsGroup = document.createElement('div');
     fileOpsGroup.className = 'toolbar-button-group';
 
@@ -495,8 +564,69 @@ export class GraphEditor {
     });
     fileOpsGroup.appendChild(loadButton);
 
+    // Export button
+    const exportButton = document.createElement('button');
+    exportButton.className = 'toolbar-button';
+    exportButton.title = 'Export graph to file';
+    exportButton.innerHTML = '<i class="ph ph-export"></i>';
+    exportButton.addEventListener('click', () => {
+      this.saveLoadManager.exportToFile().catch((error) => {
+        console.error('Failed to export graph:', error);
+        alert(`Failed to export graph: ${error instanceof Error ? error.message : error}`);
+      });
+    });
+    fileOpsGroup.appendChild(exportButton);
+
+    // Import button
+    const importButton = document.createElement('button');
+    importButton.className = 'toolbar-button';
+    importButton.title = 'Import graph from file';
+    importButton.innerHTML = '<i class="ph ph-download-simple"></i>';
+    importButton.addEventListener('click', () => {
+      this.saveLoadManager.importFromFile();
+    });
+    fileOpsGroup.appendChild(importButton);
+
     toolbar.appendChild(fileOpsGroup);
 
+    // Separator
+    const separator5 = document.createElement('div');
+    separator5.className = 'toolbar-separator';
+    toolbar.appendChild(separator5);
+
+    // Group: History (Undo, Redo, History list)
+    const historyGroup = document.createElement('div');
+    historyGroup.className = 'toolbar-button-group';
+
+    this.undoButton = document.createElement('button');
+    this.undoButton.className = 'toolbar-button';
+    this.undoButton.title = 'Undo (Ctrl/Cmd+Z)';
+    this.undoButton.innerHTML = '<i class="ph ph-arrow-counter-clockwise"></i>';
+    this.undoButton.addEventListener('click', () => {
+      this.graph.history.undo();
+    });
+    historyGroup.appendChild(this.undoButton);
+
+    this.redoButton = document.createElement('button');
+    this.redoButton.className = 'toolbar-button';
+    this.redoButton.title = 'Redo (Ctrl/Cmd+Shift+Z)';
+    this.redoButton.innerHTML = '<i class="ph ph-arrow-clockwise"></i>';
+    this.redoButton.addEventListener('click', () => {
+      this.graph.history.redo();
+    });
+    historyGroup.appendChild(this.redoButton);
+
+    const historyButton = document.createElement('button');
+    historyButton.className = 'toolbar-button';
+    historyButton.title = 'Edit history';
+    historyButton.innerHTML = '<i class="ph ph-clock-counter-clockwise"></i>';
+    historyButton.addEventListener('click', () => {
+      this.toggleHistoryPanel(historyButton);
+    });
+    historyGroup.appendChild(historyButton);
+
+    toolbar.appendChild(historyGroup);
+
     // Separator
     const separator2 = document.createElement('div');
     separator2.className = 'toolbar-separator';
@@ -507,6 +637,16 @@ export class GraphEditor {
     previewSection.className = 'toolbar-section preview-controls';
     toolbar.appendChild(previewSection);
 
+    // Separator
+    const timelineSeparator = document.createElement('div');
+    timelineSeparator.className = 'toolbar-separator';
+    toolbar.appendChild(timelineSeparator);
+
+    // Timeline controls section (populated by Workflow)
+    const timelineSection = document.createElement('div');
+    timelineSection.className = 'toolbar-section timeline-controls';
+    toolbar.appendChild(timelineSection);
+
     // Separator
     const separator4 = document.createElement('div');
     separator4.className = 'toolbar-separator';
@@ -541,6 +681,76 @@ export class GraphEditor {
     });
     editorGroup.appendChild(autoLayoutButton);
 
+    // Group selection button
+    const groupButton = document.createElement('button');
+    groupButton.className = 'toolbar-button';
+    groupButton.title = 'Group selected nodes (Ctrl/Cmd+G)';
+    groupButton.innerHTML = '<i class="ph ph-package"></i>';
+    groupButton.addEventListener('click', () => {
+      this.groupManager.collapseSelection();
+    });
+    editorGroup.appendChild(groupButton);
+
+    // Loop blocks, collapsed from the selection like groups
+    const forEachButton = document.createElement('button');
+    forEachButton.className = 'toolbar-button';
+    forEachButton.title = 'Collapse selected nodes into a For Each block';
+    forEachButton.innerHTML = '<i class="ph ph-repeat"></i>';
+    forEachButton.addEventListener('click', () => {
+      this.groupManager.collapseSelection(ForEachNode);
+    });
+    editorGroup.appendChild(forEachButton);
+
+    const solverButton = document.createElement('button');
+    solverButton.className = 'toolbar-button';
+    solverButton.title =
+      'Collapse selected nodes into a Solver block (outputs feed back to inputs)';
+    solverButton.innerHTML = '<i class="ph ph-arrows-clockwise"></i>';
+    solverButton.addEventListener('click', () => {
+      this.groupManager.collapseSelection(SolverNode);
+    });
+    editorGroup.appendChild(solverButton);
+
+    // Parameters button (graph-level values read by Parameter nodes)
+    const parametersButton = document.createElement('button');
+    parametersButton.className = 'toolbar-button';
+    parametersButton.title = 'Graph parameters';
+    parametersButton.innerHTML = '<i class="ph ph-sliders-horizontal"></i>';
+    parametersButton.addEventListener('click', () => {
+      this.parametersPanel.toggle(parametersButton);
+    });
+    editorGroup.appendChild(parametersButton);
+
+    // Profiler button (heat map + timings table)
+    this.profilerButton = document.createElement('button');
+    this.profilerButton.className = 'toolbar-button';
+    this.profilerButton.title = 'Toggle profiler';
+    this.profilerButton.innerHTML = '<i class="ph ph-gauge"></i>';
+    this.profilerButton.addEventListener('click', () => {
+      this.setProfilerEnabled(!this.profilerEnabled);
+    });
+    editorGroup.appendChild(this.profilerButton);
+
+    // Freeze button (locks the outputs of the selected nodes)
+    const freezeButton = document.createElement('button');
+    freezeButton.className = 'toolbar-button';
+    freezeButton.title = 'Freeze/unfreeze selected nodes';
+    freezeButton.innerHTML = '<i class="ph ph-snowflake"></i>';
+    freezeButton.addEventListener('click', () => {
+      this.toggleFreezeSelection();
+    });
+    editorGroup.appendChild(freezeButton);
+
+    // Clear caches button (drops reusable results of slow nodes)
+    const clearCachesButton = document.createElement('button');
+    clearCachesButton.className = 'toolbar-button';
+    clearCachesButton.title = 'Clear caches';
+    clearCachesButton.innerHTML = '<i class="ph ph-broom"></i>';
+    clearCachesButton.addEventListener('click', () => {
+      memoCache.clear();
+    });
+    editorGroup.appendChild(clearCachesButton);
+
     toolbar.appendChild(editorGroup);
 
     // Properties button (outside group so it stays visible when collapsed)
@@ -579,11 +789,16 @@ export class GraphEditor {
     controls.push(
       '<p>Space/Right-click - Context menu</p>',
       '<p>Ctrl/Cmd+S - Save graph</p>',
+      '<p>Ctrl/Cmd+Z - Undo</p>',
+      '<p>Ctrl/Cmd+Shift+Z - Redo</p>',
       '<p>Ctrl/Cmd+C - Copy selected nodes</p>',
       '<p>Ctrl/Cmd+X - Cut selected nodes</p>',
       '<p>Ctrl/Cmd+V - Paste nodes</p>',
       '<p>Ctrl/Cmd+A - Select all</p>',
+      '<p>Ctrl/Cmd+G - Group selected nodes</p>',
+      '<p>Double-click group - Edit group contents</p>',
       '<p>V - Toggle node visibility (Preview All mode)</p>',
+      '<p>B - Bypass selected nodes</p>',
       '<p>Delete - Remove selected nodes</p>'
     );
 
@@ -592,6 +807,132 @@ export class GraphEditor {
     return overlay;
   }
 
+  // Shows the path of open groups, with a button to save the current group as a node type
+  private createBreadcrumb(): HTMLElement {
+    const breadcrumb = document.createElement('div');
+    breadcrumb.className = 'group-breadcrumb';
+    this.container.appendChild(breadcrumb);
+    return breadcrumb;
+  }
+
+  private updateBreadcrumb(): void {
+    this.breadcrumb.innerHTML = '';
+    this.breadcrumb.classList.toggle('visible', this.groupStack.length > 0);
+    if (this.groupStack.length === 0) return;
+
+    const labels = ['Graph', ...this.groupStack.map((group) => group.label)];
+    labels.forEach((label, depth) => {
+      if (depth > 0) {
+        const separator = document.createElement('i');
+        separator.className = 'ph ph-caret-right';
+        this.breadcrumb.appendChild(separator);
+      }
+
+      const item = document.createElement('button');
+      item.className = 'group-breadcrumb-item';
+      item.textContent = label;
+      item.disabled = depth === this.groupStack.length; // Current level
+      item.addEventListener('click', () => this.closeGroups(depth));
+      this.breadcrumb.appendChild(item);
+    });
+
+    const saveButton = document.createElement('button');
+    saveButton.className = 'group-breadcrumb-save';
+    saveButton.title = 'Save this group as a reusable node type';
+    saveButton.innerHTML = '<i class="ph ph-floppy-disk"></i> Save as node';
+    saveButton.addEventListener('click', () => this.saveOpenGroupAsType());
+    this.breadcrumb.appendChild(saveButton);
+  }
+
+  private saveOpenGroupAsType(): void {
+    const group = this.groupStack[this.groupStack.length - 1];
+    if (!group) return;
+
+    const label = prompt('Name for the new node type:', group.label)?.trim();
+    if (!label) return;
+
+    const result = this.groupNodeManager.saveAsType(group, label);
+    if (result.success) {
+      this.saveLoadManager.showNotification(
+        result.message ?? `Saved node type "${label}"`,
+        'success'
+      );
+      this.updateBreadcrumb();
+    } else {
+      alert(`Failed to save group: ${result.error}`);
+    }
+  }
+
+  /**
+   * Open a group node's subgraph for editing
+   */
+  openGroup(group: GroupNode): void {
+    this.groupStack.push(group);
+    this.showGraph(group.subgraph);
+  }
+
+  /**
+   * Close open groups until `depth` remain open (0 returns to the root graph)
+   */
+  closeGroups(depth: number = 0): void {
+    if (depth >= this.groupStack.length) return;
+    this.groupStack.length = depth;
+    const group = this.groupStack[depth - 1];
+    this.showGraph(group ? group.subgraph : this.rootGraph);
+  }
+
+  /**
+   * Show evaluation timings: a cost heat map on the nodes and a table in the properties panel
+   */
+  setProfilerEnabled(enabled: boolean): void {
+    this.profilerEnabled = enabled;
+    this.profilerButton?.classList.toggle('active', enabled);
+    this.nodeRenderer.setHeatmapEnabled(enabled);
+    this.propertiesPanel.setProfiledGraph(enabled ? this.graph : null);
+    if (enabled) {
+      this.propertiesPanel.show();
+    }
+    this.render();
+  }
+
+  // Point all editing tools at another graph
+  private showGraph(graph: Graph): void {
+    this.graph = graph;
+    this.selectionManager.setGraph(graph);
+    this.clipboardManager.setGraph(graph);
+    this.interactionManager.setGraph(graph);
+    this.nodeRenderer.setGraph(graph);
+    this.autoLayoutManager.setGraph(graph);
+    this.groupManager.setGraph(graph);
+    if (this.profilerEnabled) {
+      this.propertiesPanel.setProfiledGraph(graph);
+    }
+
+    // Each graph has its own undo history
+    this.unsubscribeHistory?.();
+    this.unsubscribeHistory = graph.history.onChange(() => this.updateHistoryControls());
+    this.updateHistoryControls();
+    this.updateBreadcrumb();
+  }
+
+  // Close groups that are no longer part of the graph (deleted, undone, another graph loaded)
+  private closeDetachedGroups(): void {
+    let parent = this.rootGraph;
+    for (let depth = 0; depth < this.groupStack.length; depth++) {
+      const group = this.groupStack[depth];
+      if (group.graph !== parent) {
+        this.closeGroups(depth);
+        return;
+      }
+      parent = group.subgraph;
+    }
+
+    // A redone collapse gives the group a new subgraph
+    if (parent !== this.graph) {
+      this.showGraph(parent);
+    }
+  }
+
   getToolbar(): HTMLElement {
     return this.toolbar;
   }
@@ -612,6 +953,14 @@ export class GraphEditor {
     this.liveViewport = liveViewport;
   }
 
+  // Evaluate with the transport's clock in the context, and keyframe at its time
+  setTransport(transport: Transport): void {
+    this.evaluator.setTransport(transport);
+    this.keyframeEditor?.dispose();
+    this.keyframeEditor = new KeyframeEditor(transport);
+    this.propertiesPanel.setKeyframeEditor(this.keyframeEditor);
+  }
+
   private findPort(portId: string): Port | null {
     for (const node of this.graph.nodes.values()) {
       for (const port of node.inputs.values()) {
@@ -624,6 +973,63 @@ export class GraphEditor {
     return null;
   }
 
+  /**
+   * Offer to insert the conversion's converter node between two ports, connecting
+   * them directly (with the implicit cast) if the user declines
+   */
+  private connectWithConverter(
+    source: Port,
+    target: Port,
+    conversion: TypeConversion,
+    keepExisting: boolean
+  ): void {
+    const converter = conversion.converterNode
+      ? this.registry.createNode(conversion.converterNode)
+      : null;
+    const converterInput =
+      converter && Array.from(converter.inputs.values()).find((port) => port.type === source.type);
+    const converterOutput =
+      converter && Array.from(converter.outputs.values()).find((port) => port.type === target.type);
+
+    const label = converter ? this.registry.getMetadata(converter.type)?.label : undefined;
+    const insert =
+      converterInput &&
+      converterOutput &&
+      confirm(
+        `Converting ${source.type} to ${target.type} is ambiguous (${conversion.label}).\n\n` +
+          `Insert a "${label ?? converter.type}" node to choose how? Cancel connects directly.`
+      );
+    if (!insert) {
+      this.graph.connect(source, target, keepExisting);
+      return;
+    }
+
+    // Halfway between the two nodes
+    converter.position = {
+      x: (source.node.position.x + target.node.position.x) / 2,
+      y: (source.node.position.y + target.node.position.y) / 2,
+    };
+    this.graph.history.group('Insert Converter', () => {
+      this.graph.addNode(converter);
+      this.graph.connect(source, converterInput);
+      this.graph.connect(converterOutput, target, keepExisting);
+    });
+  }
+
+  /**
+   * Freeze the selected nodes, or unfreeze them if all are frozen already
+   */
+  private toggleFreezeSelection(): void {
+    const nodes = this.selectionManager.getSelectedNodeObjects();
+    if (nodes.length === 0) return;
+
+    const freeze = nodes.some((node) => !node.frozen);
+    this.graph.history.group(freeze ? 'Freeze' : 'Unfreeze', () => {
+      nodes.forEach((node) => node.setFrozen(freeze));
+    });
+    this.graph.triggerChange();
+  }
+
   private addNodeAtScreenPosition(nodeType: string, screenX: number, screenY: number): void {
     // Convert screen coordinates to world coordinates
     const worldPos = this.viewport.screenToWorld(screenX, screenY);
@@ -643,6 +1049,47 @@ export class GraphEditor {
     }
   }
 
+  private toggleHistoryPanel(button: HTMLElement): void {
+    if (this.historyPanel) {
+      this.historyPanel.remove();
+      this.historyPanel = null;
+      return;
+    }
+
+    const rect = button.getBoundingClientRect();
+    this.historyPanel = document.createElement('div');
+    this.historyPanel.className = 'history-panel';
+    this.historyPanel.style.left = `${rect.left}px`;
+    this.historyPanel.style.bottom = `${window.innerHeight - rect.top + 10}px`;
+    document.body.appendChild(this.historyPanel);
+
+    this.updateHistoryControls();
+  }
+
+  private updateHistoryControls(): void {
+    const history = this.graph.history;
+    if (this.undoButton) this.undoButton.disabled = !history.canUndo();
+    if (this.redoButton) this.redoButton.disabled = !history.canRedo();
+
+    if (!this.historyPanel) return;
+
+    const cursor = history.getCursor();
+    this.historyPanel.innerHTML = '';
+
+    // The initial state is always the first entry, so everything can be undone from the list
+    const entries = [{ index: -1, label: 'Initial state' }, ...history.getEntries()];
+    for (const entry of entries.reverse()) {
+      const target = entry.index + 1; // Number of applied commands after jumping here
+      const item = document.createElement('div');
+      item.className = 'history-item';
+      item.textContent = entry.label;
+      if (target === cursor) item.classList.add('current');
+      if (target > cursor) item.classList.add('undone');
+      item.addEventListener('click', () => history.jumpTo(target));
+      this.historyPanel.appendChild(item);
+    }
+  }
+
   private toggleAutoLayoutPane(button: HTMLElement): void {
     // If pane exists, toggle visibility
     if (this.autoLayoutPane && this.autoLayoutPaneContainer) {
@@ -761,6 +1208,15 @@ export class GraphEditor {
       this.autoLayoutPaneContainer.parentElement.removeChild(this.autoLayoutPaneContainer);
       this.autoLayoutPaneContainer = null;
     }
+
+    // Cleanup history panel
+    if (this.historyPanel) {
+      this.historyPanel.remove();
+      this.historyPanel = null;
+    }
+
+    this.parametersPanel.dispose();
+    this.keyframeEditor?.dispose();
   }
 
   show(): void {
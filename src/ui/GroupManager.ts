@@ -0,0 +1,202 @@
+import { Graph } from '@/core/Graph';
+import { Node } from '@/core/Node';
+import { Port } from '@/core/Port';
+import { disposeRemovedNode } from '@/core/commands';
+import type { Command } from '@/core/commands';
+import { SelectionManager } from './SelectionManager';
+import { NodeRegistry } from '@/three/NodeRegistry';
+import { GroupNode } from '@/three/nodes/group/GroupNode';
+import { GroupInputNode } from '@/three/nodes/group/GroupInputNode';
+import { GroupOutputNode } from '@/three/nodes/group/GroupOutputNode';
+
+type Connection = { source: Port; target: Port };
+
+// Horizontal gap between the grouped nodes and the Group Input/Output nodes
+const BOUNDARY_OFFSET = 300;
+
+/**
+ * Collapses selected nodes into a group node.
+ *
+ * The selected nodes move into the group's subgraph. Connections crossing the
+ * selection boundary become ports on the group, wired through its Group Input
+ * and Group Output nodes.
+ */
+export class GroupManager {
+  constructor(
+    private graph: Graph,
+    private selectionManager: SelectionManager,
+    private registry: NodeRegistry
+  ) {}
+
+  /**
+   * Switch to another graph (e.g. when entering a group)
+   */
+  setGraph(graph: Graph): void {
+    this.graph = graph;
+  }
+
+  /**
+   * Collapse the selected nodes into a new group node, or a block that evaluates
+   * its subgraph in its own way (e.g. For Each, Solver)
+   */
+  collapseSelection(constructor: new (id: string) => GroupNode = GroupNode): GroupNode | null {
+    const nodes = this.selectionManager.getSelectedNodeObjects();
+    if (nodes.length === 0) {
+      console.log('Nothing to group');
+      return null;
+    }
+
+    const ids = new Set(nodes.map((node) => node.id));
+    const connections: Connection[] = [];
+    for (const edge of this.graph.edges.values()) {
+      if (ids.has(edge.source.node.id) || ids.has(edge.target.node.id)) {
+        connections.push({ source: edge.source, target: edge.target });
+      }
+    }
+
+    const group = this.registry.insertNode(constructor);
+    const command = new CollapseGroupCommand(this.graph, group, nodes, connections);
+    this.graph.history.suspend(() => command.execute());
+    this.graph.history.record(command);
+
+    this.selectionManager.selectNode(group.id);
+    console.log(`Grouped ${nodes.length} node(s) into ${group.label}`);
+    return group;
+  }
+}
+
+class CollapseGroupCommand implements Command {
+  readonly label: string;
+
+  /**
+   * @param connections - All edges touching the grouped nodes before collapsing
+   */
+  constructor(
+    private graph: Graph,
+    private group: GroupNode,
+    private nodes: Node[],
+    private connections: Connection[]
+  ) {
+    this.label = `Group ${nodes.length} node(s)`;
+  }
+
+  execute(): void {
+    const ids = new Set(this.nodes.map((node) => node.id));
+    const internal: Connection[] = [];
+    const incoming = new Map<Port, Port[]>(); // outside source -> inside targets
+    const outgoing = new Map<Port, Port[]>(); // inside source -> outside targets
+
+    for (const connection of this.connections) {
+      const sourceInside = ids.has(connection.source.node.id);
+      const targetInside = ids.has(connection.target.node.id);
+      if (sourceInside && targetInside) {
+        internal.push(connection);
+      } else if (targetInside) {
+        incoming.set(connection.source, [
+          ...(incoming.get(connection.source) ?? []),
+          connection.target,
+        ]);
+      } else {
+        outgoing.set(connection.source, [
+          ...(outgoing.get(connection.source) ?? []),
+          connection.target,
+        ]);
+      }
+    }
+
+    // Place the group at the center of the grouped nodes, boundary nodes on either side
+    const xs = this.nodes.map((node) => node.position.x);
+    const ys = this.nodes.map((node) => node.position.y);
+    const centerY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+    this.group.position = {
+      x: xs.reduce((sum, x) => sum + x, 0) / xs.length,
+      y: centerY,
+    };
+
+    const inputNode = new GroupInputNode('group_input');
+    inputNode.position = { x: Math.min(...xs) - BOUNDARY_OFFSET, y: centerY };
+    const outputNode = new GroupOutputNode('group_output');
+    outputNode.position = { x: Math.max(...xs) + BOUNDARY_OFFSET, y: centerY };
+
+    // Expose one group port per outside source (inputs) and inside source (outputs)
+    const inputNames = new Map<Port, string>();
+    for (const [source, targets] of incoming) {
+      const name = uniqueName(targets[0].name, inputNames);
+      const value = targets[0].value;
+      inputNode.addPort({
+        name,
+        type: source.type,
+        defaultValue: typeof value === 'object' ? undefined : value,
+      });
+      inputNames.set(source, name);
+    }
+    const outputNames = new Map<Port, string>();
+    for (const source of outgoing.keys()) {
+      const name = uniqueName(source.name, outputNames);
+      outputNode.addPort({ name, type: source.type });
+      outputNames.set(source, name);
+    }
+
+    // Move the nodes into the subgraph (removing doesn't dispose them, so they keep their state)
+    const subgraph = new Graph();
+    subgraph.addNode(inputNode);
+    subgraph.addNode(outputNode);
+    for (const node of this.nodes) {
+      this.graph.removeNode(node.id);
+      node.markDirty();
+      subgraph.addNode(node);
+    }
+
+    for (const { source, target } of internal) {
+      subgraph.connect(source, target, true);
+    }
+    for (const [source, targets] of incoming) {
+      const port = inputNode.outputs.get(inputNames.get(source)!)!;
+      targets.forEach((target) => subgraph.connect(port, target, true));
+    }
+    for (const [source, name] of outputNames) {
+      subgraph.connect(source, outputNode.inputs.get(name)!);
+    }
+    subgraph.history.clear();
+
+    // Wire the group into the parent graph
+    this.group.setSubgraph(subgraph);
+    this.graph.addNode(this.group);
+    for (const [source, name] of inputNames) {
+      this.graph.connect(source, this.group.inputs.get(name)!);
+    }
+    for (const [source, targets] of outgoing) {
+      const port = this.group.outputs.get(outputNames.get(source)!)!;
+      targets.forEach((target) => this.graph.connect(port, target, true));
+    }
+  }
+
+  undo(): void {
+    // Move the nodes back out, then restore their original connections
+    for (const node of this.nodes) {
+      this.group.subgraph.removeNode(node.id);
+      node.markDirty();
+      this.graph.addNode(node);
+    }
+    this.graph.removeNode(this.group.id);
+
+    for (const { source, target } of this.connections) {
+      this.graph.connect(source, target, true);
+    }
+  }
+
+  // Undone, so the group was removed and can't be redone anymore
+  discard(undone: boolean): void {
+    if (undone) disposeRemovedNode(this.group);
+  }
+}
+
+// Port name that isn't taken yet ("position", "position_2", ...)
+function uniqueName(base: string, taken: Map<Port, string>): string {
+  const names = new Set(taken.values());
+  let name = base;
+  for (let i = 2; names.has(name); i++) {
+    name = `${base}_${i}`;
+  }
+  return name;
+}
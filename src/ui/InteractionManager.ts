@@ -2,6 +2,8 @@ import { Graph } from '@/core/Graph';
 import { Node } from '@/core/Node';
 import { Port } from '@/core/Port';
 import { Edge } from '@/core/Edge';
+import { MoveNodesCommand, NodePositions, captureNodePositions } from '@/core/commands';
+import { TypeConversion } from '@/core/conversions';
 import { Viewport } from './Viewport';
 import { NodeRenderer } from './NodeRenderer';
 import { SelectionManager } from './SelectionManager';
@@ -9,10 +11,23 @@ import { ContextMenu } from './ContextMenu';
 import { ClipboardManager } from './ClipboardManager';
 import { isTouchDevice } from '@/utils/deviceDetection';
 
+export type ConverterCallback = (
+  source: Port,
+  target: Port,
+  conversion: TypeConversion,
+  keepExisting: boolean
+) => void;
+
 export type DragState =
   | { type: 'none' }
   | { type: 'pan'; startX: number; startY: number }
-  | { type: 'nodes'; referenceNode: Node; offsetX: number; offsetY: number }
+  | {
+      type: 'nodes';
+      referenceNode: Node;
+      offsetX: number;
+      offsetY: number;
+      startPositions: NodePositions;
+    }
   | {
       type: 'connection';
       port: Port;
@@ -40,6 +55,8 @@ export class InteractionManager {
   private selectionManager: SelectionManager;
   private contextMenu: ContextMenu;
   private clipboardManager: ClipboardManager;
+  private groupOpenCallback: ((node: Node) => void) | null = null;
+  private converterCallback: ConverterCallback | null = null;
 
   private dragState: DragState = { type: 'none' };
   private currentMousePos: { x: number; y: number } | null = null;
@@ -64,6 +81,7 @@ export class InteractionManager {
   // Bound event handlers for document-level events during drag
   private boundOnPointerMove: ((e: PointerEvent) => void) | null = null;
   private boundOnPointerUp: ((e: PointerEvent) => void) | null = null;
+  private boundOnPointerCancel: (() => void) | null = null;
 
   constructor(
     graph: Graph,
@@ -90,6 +108,7 @@ export class InteractionManager {
     // Bind handlers that will be attached/detached during drag operations
     this.boundOnPointerMove = this.onPointerMove.bind(this);
     this.boundOnPointerUp = this.onPointerUp.bind(this);
+    this.boundOnPointerCancel = this.onPointerCancel.bind(this);
 
     this.setupEventListeners();
     this.createMarqueeElement();
@@ -157,9 +176,10 @@ export class InteractionManager {
     document.body.classList.add('dragging');
 
     // Also attach to document as backup
-    if (this.boundOnPointerMove && this.boundOnPointerUp) {
+    if (this.boundOnPointerMove && this.boundOnPointerUp && this.boundOnPointerCancel) {
       document.addEventListener('pointermove', this.boundOnPointerMove);
       document.addEventListener('pointerup', this.boundOnPointerUp);
+      document.addEventListener('pointercancel', this.boundOnPointerCancel);
     }
   }
 
@@ -178,9 +198,10 @@ export class InteractionManager {
     document.body.classList.remove('dragging');
 
     // Remove document listeners
-    if (this.boundOnPointerMove && this.boundOnPointerUp) {
+    if (this.boundOnPointerMove && this.boundOnPointerUp && this.boundOnPointerCancel) {
       document.removeEventListener('pointermove', this.boundOnPointerMove);
       document.removeEventListener('pointerup', this.boundOnPointerUp);
+      document.removeEventListener('pointercancel', this.boundOnPointerCancel);
     }
   }
 
@@ -225,6 +246,9 @@ export class InteractionManager {
               // Input port - check if it has a connection
               const existingEdge = this.graph.getEdgeToPort(port);
               if (existingEdge) {
+                // Disconnect and reconnect form a single undo step (closed in endDrag)
+                this.graph.history.beginGroup('Reconnect');
+
                 // Remove the connection to this input
                 this.graph.removeEdge(existingEdge.id);
                 removedEdge = existingEdge;
@@ -287,6 +311,7 @@ export class InteractionManager {
               referenceNode: node,
               offsetX: worldPos.x - node.position.x,
               offsetY: worldPos.y - node.position.y,
+              startPositions: this.captureSelectedPositions(),
             };
             this.attachDocumentDragListeners(e.pointerId);
           }
@@ -368,6 +393,27 @@ export class InteractionManager {
   }
 
   private onPointerUp(e: PointerEvent): void {
+    try {
+      this.completeDrag(e);
+    } finally {
+      this.endDrag();
+    }
+  }
+
+  // The browser took over the pointer (e.g. to scroll): keep what the drag did so far
+  private onPointerCancel(): void {
+    try {
+      if (this.dragState.type === 'nodes') {
+        this.commitNodeMove();
+      } else if (this.dragState.type === 'marquee') {
+        this.hideMarquee();
+      }
+    } finally {
+      this.endDrag();
+    }
+  }
+
+  private completeDrag(e: PointerEvent): void {
     if (this.dragState.type === 'connection') {
       // With pointer capture, e.target is the captured element (SVG), not the element under cursor
       // Use elementFromPoint to find the actual element under the cursor
@@ -387,8 +433,15 @@ export class InteractionManager {
 
                 // Make sure we're connecting output to input
                 if (!sourcePort.isInput && inputPort.isInput) {
-                  // Use current shift state from event, not cached state from drag start
-                  this.graph.connect(sourcePort, inputPort, e.shiftKey);
+                  const conversion = sourcePort.getConversion(inputPort);
+                  if (conversion?.lossy && conversion.converterNode && this.converterCallback) {
+                    // Let the editor offer a converter node instead of the implicit cast.
+                    // It runs synchronously, so the insertion joins an open Reconnect group.
+                    this.converterCallback(sourcePort, inputPort, conversion, e.shiftKey);
+                  } else {
+                    // Use current shift state from event, not cached state from drag start
+                    this.graph.connect(sourcePort, inputPort, e.shiftKey);
+                  }
                 }
               } catch (err) {
                 console.error('Failed to create connection:', err);
@@ -397,6 +450,8 @@ export class InteractionManager {
           }
         }
       }
+    } else if (this.dragState.type === 'nodes') {
+      this.commitNodeMove();
     } else if (this.dragState.type === 'marquee') {
       this.hideMarquee();
     } else if (this.dragState.type === 'pan' && e.button === 2 && this.rightClickStartPos) {
@@ -419,6 +474,12 @@ export class InteractionManager {
         }
       }
     }
+  }
+
+  private endDrag(): void {
+    if (this.dragState.type === 'connection' && this.dragState.removedEdge) {
+      this.graph.history.endGroup();
+    }
 
     // Detach document listeners when drag ends
     this.detachDocumentDragListeners();
@@ -465,6 +526,13 @@ export class InteractionManager {
     if (!isNode && !isPort) {
       // Open context menu at double-click position
       this.contextMenu.show(e.clientX, e.clientY);
+    } else if (isNode && !isPort) {
+      // Open group nodes for editing
+      const nodeId = (isNode as HTMLElement).dataset.nodeId;
+      const node = nodeId ? this.graph.getNode(nodeId) : undefined;
+      if (node && 'subgraph' in node && this.groupOpenCallback) {
+        this.groupOpenCallback(node);
+      }
     }
   }
 
@@ -486,7 +554,21 @@ export class InteractionManager {
 
     // Check for modifier + key combinations first
     if (e.ctrlKey || e.metaKey) {
-      if (e.key === 'c' || e.key === 'C') {
+      if (e.key === 'z' || e.key === 'Z') {
+        // Undo / Redo (Shift) - the LiveViewport handles these in viewport mode
+        if (this.isEditorHidden()) return;
+        e.preventDefault();
+        if (e.shiftKey) {
+          this.graph.history.redo();
+        } else {
+          this.graph.history.undo();
+        }
+      } else if (e.key === 'y' || e.key === 'Y') {
+        // Redo
+        if (this.isEditorHidden()) return;
+        e.preventDefault();
+        this.graph.history.redo();
+      } else if (e.key === 'c' || e.key === 'C') {
         // Copy
         e.preventDefault();
         this.clipboardManager.copy();
@@ -526,6 +608,18 @@ export class InteractionManager {
         e.preventDefault();
         this.selectionManager.deleteSelectedNodes();
       }
+    } else if (e.key === 'b' || e.key === 'B') {
+      // Bypass selected nodes, or restore them if all are bypassed
+      if (this.isEditorHidden()) return;
+      const nodes = this.selectionManager.getSelectedNodeObjects();
+      if (nodes.length > 0) {
+        e.preventDefault();
+        const bypass = nodes.some((node) => !node.bypassed);
+        this.graph.history.group(bypass ? 'Bypass' : 'Unbypass', () => {
+          nodes.forEach((node) => node.setBypassed(bypass));
+        });
+        this.graph.triggerChange();
+      }
     }
   }
 
@@ -582,6 +676,7 @@ export class InteractionManager {
                 referenceNode: node,
                 offsetX: worldPos.x - node.position.x,
                 offsetY: worldPos.y - node.position.y,
+                startPositions: this.captureSelectedPositions(),
               };
               return;
             }
@@ -604,7 +699,8 @@ export class InteractionManager {
       // Mark that this gesture has involved multiple fingers
       this.hadMultipleFingers = true;
 
-      // Cancel any existing drag
+      // Cancel any existing drag (keeping any distance already moved undoable)
+      this.commitNodeMove();
       this.dragState = { type: 'none' };
       this.touchMoved = true; // Prevent tap detection with 2 fingers
     }
@@ -720,6 +816,7 @@ export class InteractionManager {
 
     // If no more touches, reset state completely
     if (this.activeTouches.size === 0) {
+      this.commitNodeMove();
       this.dragState = { type: 'none' };
       this.initialTouchDistance = null;
       this.initialZoomLevel = null;
@@ -755,6 +852,7 @@ export class InteractionManager {
                 referenceNode: node,
                 offsetX: worldPos.x - node.position.x,
                 offsetY: worldPos.y - node.position.y,
+                startPositions: this.captureSelectedPositions(),
               };
               this.initialTouchDistance = null;
               this.initialZoomLevel = null;
@@ -793,6 +891,56 @@ export class InteractionManager {
     return null;
   }
 
+  private isEditorHidden(): boolean {
+    return this.overlayLayer.classList.contains('hidden');
+  }
+
+  private captureSelectedPositions(): NodePositions {
+    return captureNodePositions(this.selectionManager.getSelectedNodeObjects());
+  }
+
+  // Record the finished node drag as a single undoable move
+  private commitNodeMove(): void {
+    if (this.dragState.type !== 'nodes') return;
+
+    const { startPositions } = this.dragState;
+    const nodes = Array.from(startPositions.keys())
+      .map((id) => this.graph.getNode(id))
+      .filter((node): node is Node => node !== undefined);
+    const command = new MoveNodesCommand(
+      this.graph,
+      startPositions,
+      captureNodePositions(nodes),
+      nodes.length === 1 ? `Move ${nodes[0].label}` : `Move ${nodes.length} nodes`
+    );
+    if (command.hasChanges()) {
+      this.graph.history.record(command);
+    }
+  }
+
+  /**
+   * Switch to another graph (e.g. when entering a group)
+   */
+  setGraph(graph: Graph): void {
+    this.graph = graph;
+  }
+
+  /**
+   * Set callback for double-clicking a group node (one with a subgraph)
+   */
+  onGroupOpenCallback(callback: (node: Node) => void): void {
+    this.groupOpenCallback = callback;
+  }
+
+  /**
+   * Set callback for connections that need a lossy or ambiguous conversion
+   * (see TypeConversion.converterNode); it decides how to connect the ports, synchronously
+   * so the edits join the reconnect's undo step
+   */
+  onConverterCallback(callback: ConverterCallback): void {
+    this.converterCallback = callback;
+  }
+
   // Public methods for GraphEditor to access drag state
   getDragState(): DragState {
     return this.dragState;
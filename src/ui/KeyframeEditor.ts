@@ -0,0 +1,564 @@
+import * as d3 from 'd3';
+import * as THREE from 'three';
+import type { Node } from '@/core/Node';
+import type { Transport } from '@/core/Transport';
+import { GRAPH_EDIT_EVENTS } from '@/core/Graph';
+import type { PropertyType } from '@/core/types';
+import {
+  BezierHandles,
+  EASING_OPTIONS,
+  Easing,
+  KeyframeTarget,
+  KeyframeTrack,
+  KeyframeValue,
+  KeyframeValueType,
+  createKeyframeTrack,
+  easingHandles,
+  findKeyframe,
+  formatKeyframeValue,
+  keyframeChannels,
+  keyframeValueType,
+  parseKeyframeValue,
+  portKeyframeType,
+  sampleTrack,
+  withKeyframe,
+  withKeyframeChanges,
+  withoutKeyframe,
+} from '@/core/keyframes';
+import './KeyframeEditor.css';
+
+const PLOT_WIDTH = 380;
+const PLOT_HEIGHT = 180;
+const PLOT_MARGIN = { top: 10, right: 12, bottom: 22, left: 40 };
+const EASING_SIZE = 110;
+const EASING_MARGIN = 10;
+const CURVE_SAMPLES = 200;
+
+// Colors of the plotted channels (see keyframeChannels)
+const CHANNEL_COLORS: Record<KeyframeValueType, string[]> = {
+  number: ['#f59e0b'],
+  boolean: ['#f59e0b'],
+  vector3: ['#ef4444', '#22c55e', '#3b82f6'],
+  color: ['#ef4444', '#22c55e', '#3b82f6'],
+};
+
+const KEYFRAMED_PROPERTY_TYPES: PropertyType[] = ['number', 'boolean', 'color'];
+
+// Starting values of inputs without one
+const DEFAULT_VALUES: Record<KeyframeValueType, () => KeyframeValue> = {
+  number: () => 0,
+  boolean: () => false,
+  vector3: () => new THREE.Vector3(),
+  color: () => new THREE.Color(1, 1, 1),
+};
+
+// A keyframe plotted on one of its channels
+interface KeyPoint {
+  index: number;
+  channel: number;
+  time: number;
+  value: number;
+}
+
+/**
+ * Keyframes node properties and inputs at the transport's time, from a right-click
+ * menu, and edits them in a curve editor: keyframes are dragged in time (and in
+ * value, for numbers), and the segment after the selected keyframe is eased with a
+ * preset or shaped with Bézier handles.
+ */
+export class KeyframeEditor {
+  private transport: Transport;
+  private menu: HTMLElement;
+  private panel: HTMLElement;
+  private title: HTMLElement;
+  private plot: SVGSVGElement;
+  private easingPlot: SVGSVGElement;
+  private timeInput: HTMLInputElement;
+  private valueInput: HTMLInputElement;
+  private easingSelect: HTMLSelectElement;
+
+  // Property or input being edited
+  private node: Node | null = null;
+  private target: KeyframeTarget = 'property';
+  private name = '';
+  private selected = -1; // Index of the selected keyframe
+  private dragging = false; // Scales stay fixed while dragging
+  private x = d3.scaleLinear();
+  private y = d3.scaleLinear();
+  private unsubscribeGraph: (() => void) | null = null;
+  private unsubscribeTransport: () => void;
+
+  constructor(transport: Transport) {
+    this.transport = transport;
+
+    this.menu = document.createElement('div');
+    this.menu.className = 'keyframe-menu';
+    this.menu.style.display = 'none';
+    document.body.appendChild(this.menu);
+    document.addEventListener('pointerdown', (e) => {
+      if (!this.menu.contains(e.target as globalThis.Node)) this.hideMenu();
+    });
+
+    this.panel = document.createElement('div');
+    this.panel.className = 'keyframe-editor';
+    this.panel.style.display = 'none';
+
+    const header = document.createElement('div');
+    header.className = 'keyframe-editor-header';
+    this.title = document.createElement('span');
+    header.appendChild(this.title);
+    const closeButton = document.createElement('button');
+    closeButton.className = 'toolbar-button';
+    closeButton.title = 'Close';
+    closeButton.innerHTML = '<i class="ph ph-x"></i>';
+    closeButton.addEventListener('click', () => this.close());
+    header.appendChild(closeButton);
+    this.panel.appendChild(header);
+
+    this.plot = d3
+      .create('svg')
+      .attr('class', 'keyframe-plot')
+      .attr('width', PLOT_WIDTH)
+      .attr('height', PLOT_HEIGHT)
+      .node() as SVGSVGElement;
+    this.panel.appendChild(this.plot);
+    this.setupPlot();
+
+    const controls = document.createElement('div');
+    controls.className = 'keyframe-controls';
+    this.panel.appendChild(controls);
+
+    this.timeInput = this.createInput(controls, 'Time', 'number');
+    this.timeInput.step = '0.01';
+    this.timeInput.addEventListener('change', () => {
+      const time = Number(this.timeInput.value);
+      if (!Number.isNaN(time)) this.changeSelected({ time });
+    });
+
+    this.valueInput = this.createInput(controls, 'Value', 'text');
+    this.valueInput.addEventListener('change', () => {
+      const track = this.getTrack();
+      const key = track?.keys[this.selected];
+      if (!track || !key) return;
+      const value = parseKeyframeValue(track.type, this.valueInput.value.trim(), key.value);
+      this.valueInput.classList.toggle('invalid', value === undefined);
+      if (value !== undefined) this.changeSelected({ value });
+    });
+
+    this.easingSelect = document.createElement('select');
+    this.easingSelect.title = 'Easing to the next keyframe';
+    for (const [label, easing] of Object.entries(EASING_OPTIONS)) {
+      this.easingSelect.add(new Option(label, easing));
+    }
+    this.easingSelect.addEventListener('change', () => {
+      const key = this.getTrack()?.keys[this.selected];
+      if (!key) return;
+      const easing = this.easingSelect.value as Easing;
+      // Bézier handles start from the shape of the previous easing
+      this.changeSelected({
+        easing,
+        handles: easing === 'bezier' ? easingHandles(key) : undefined,
+      });
+    });
+    controls.appendChild(this.easingSelect);
+
+    const deleteButton = document.createElement('button');
+    deleteButton.className = 'toolbar-button';
+    deleteButton.title = 'Delete keyframe';
+    deleteButton.innerHTML = '<i class="ph ph-trash"></i>';
+    deleteButton.addEventListener('click', () => this.deleteSelected());
+    controls.appendChild(deleteButton);
+
+    this.easingPlot = d3
+      .create('svg')
+      .attr('class', 'keyframe-easing')
+      .attr('width', EASING_SIZE + EASING_MARGIN * 2)
+      .attr('height', EASING_SIZE + EASING_MARGIN * 2)
+      .node() as SVGSVGElement;
+    this.panel.appendChild(this.easingPlot);
+    this.setupEasingPlot();
+
+    document.body.appendChild(this.panel);
+
+    // Move the playhead as the transport plays
+    this.unsubscribeTransport = transport.onChange(() => this.render());
+  }
+
+  /**
+   * How the property or input can be keyframed, or undefined if it can't
+   * (connected inputs take their values from the edge)
+   */
+  keyframeType(node: Node, target: KeyframeTarget, name: string): KeyframeValueType | undefined {
+    if (target === 'property') {
+      const property = node.properties.get(name);
+      if (!property || !KEYFRAMED_PROPERTY_TYPES.includes(property.type)) return undefined;
+      return keyframeValueType(property.value);
+    }
+    const port = node.inputs.get(name);
+    return port && port.connections.length === 0 ? portKeyframeType(port.type) : undefined;
+  }
+
+  /**
+   * Menu to add or remove a keyframe at the current time, or edit the curve
+   */
+  showMenu(node: Node, target: KeyframeTarget, name: string, x: number, y: number): void {
+    if (!this.keyframeType(node, target, name)) return;
+
+    const time = this.transport.time;
+    const track = node.getKeyframeTrack(target, name);
+    const index = track ? findKeyframe(track, time) : -1;
+
+    this.menu.innerHTML = '';
+    const addItem = (label: string, action: () => void) => {
+      const item = document.createElement('div');
+      item.className = 'keyframe-menu-item';
+      item.textContent = label;
+      item.addEventListener('click', () => {
+        this.hideMenu();
+        action();
+      });
+      this.menu.appendChild(item);
+    };
+
+    addItem(`${index >= 0 ? 'Update' : 'Add'} Keyframe at ${time.toFixed(2)}s`, () =>
+      this.setKeyframe(node, target, name)
+    );
+    if (track && index >= 0) {
+      addItem('Remove Keyframe', () =>
+        this.setTrack(node, target, name, withoutKeyframe(track, index))
+      );
+    }
+    if (track) {
+      addItem('Edit Curve…', () => this.open(node, target, name));
+      addItem('Clear Keyframes', () => this.setTrack(node, target, name, null));
+    }
+
+    this.menu.style.left = `${x}px`;
+    this.menu.style.top = `${y}px`;
+    this.menu.style.display = 'block';
+  }
+
+  /**
+   * Keyframe the current value (or the given one) at the current time
+   */
+  setKeyframe(node: Node, target: KeyframeTarget, name: string, value?: KeyframeValue): void {
+    const type = this.keyframeType(node, target, name);
+    if (!type) return;
+
+    const current =
+      target === 'property' ? node.properties.get(name)?.value : node.inputs.get(name)?.value;
+    const track = node.getKeyframeTrack(target, name) ?? createKeyframeTrack(target, name, type);
+    const keyValue =
+      value ?? (keyframeValueType(current) === type ? current : DEFAULT_VALUES[type]());
+    this.setTrack(node, target, name, withKeyframe(track, this.transport.time, keyValue));
+  }
+
+  /**
+   * Open the curve editor on the keyframes of a property or input
+   */
+  open(node: Node, target: KeyframeTarget, name: string): void {
+    this.unsubscribeGraph?.();
+    this.node = node;
+    this.target = target;
+    this.name = name;
+
+    const track = this.getTrack();
+    this.selected = track ? Math.max(0, findKeyframe(track, this.transport.time)) : -1;
+    this.title.textContent = `${node.label} · ${name}`;
+    this.panel.style.display = 'block';
+
+    // Follow edits, undo and evaluation results
+    this.unsubscribeGraph =
+      node.graph?.on([...GRAPH_EDIT_EVENTS, 'evaluated'], () => this.render()) ?? null;
+    this.render();
+  }
+
+  close(): void {
+    this.unsubscribeGraph?.();
+    this.unsubscribeGraph = null;
+    this.node = null;
+    this.panel.style.display = 'none';
+  }
+
+  dispose(): void {
+    this.close();
+    this.unsubscribeTransport();
+    this.menu.remove();
+    this.panel.remove();
+  }
+
+  private hideMenu(): void {
+    this.menu.style.display = 'none';
+  }
+
+  private createInput(parent: HTMLElement, label: string, type: string): HTMLInputElement {
+    const element = document.createElement('label');
+    element.textContent = label;
+    const input = document.createElement('input');
+    input.type = type;
+    element.appendChild(input);
+    parent.appendChild(element);
+    return input;
+  }
+
+  private getTrack(): KeyframeTrack | undefined {
+    return this.node?.getKeyframeTrack(this.target, this.name);
+  }
+
+  private setTrack(
+    node: Node,
+    target: KeyframeTarget,
+    name: string,
+    track: KeyframeTrack | null
+  ): void {
+    node.setKeyframeTrack(target, name, track);
+    node.markDownstreamDirty();
+    node.graph?.triggerChange();
+  }
+
+  private changeSelected(changes: Parameters<typeof withKeyframeChanges>[2]): void {
+    const track = this.getTrack();
+    if (!this.node || !track || !track.keys[this.selected]) return;
+
+    const changed = withKeyframeChanges(track, this.selected, changes);
+    // Moving a keyframe in time can change its place in the track
+    const time = changes.time ?? track.keys[this.selected].time;
+    this.selected = changed.keys.findIndex((key) => key.time === time);
+    this.setTrack(this.node, this.target, this.name, changed);
+  }
+
+  private deleteSelected(): void {
+    const track = this.getTrack();
+    if (!this.node || !track || !track.keys[this.selected]) return;
+
+    const remaining = withoutKeyframe(track, this.selected);
+    this.selected = Math.min(this.selected, remaining.keys.length - 1);
+    this.setTrack(this.node, this.target, this.name, remaining);
+    if (remaining.keys.length === 0) this.close();
+  }
+
+  // Static parts of the curve plot; render() fills them in
+  private setupPlot(): void {
+    const svg = d3.select(this.plot);
+
+    // Clicking the background moves the playhead there
+    svg
+      .append('rect')
+      .attr('class', 'keyframe-plot-background')
+      .attr('x', PLOT_MARGIN.left)
+      .attr('y', PLOT_MARGIN.top)
+      .attr('width', PLOT_WIDTH - PLOT_MARGIN.left - PLOT_MARGIN.right)
+      .attr('height', PLOT_HEIGHT - PLOT_MARGIN.top - PLOT_MARGIN.bottom)
+      .on('click', (event: MouseEvent) => {
+        this.transport.seek(this.x.invert(d3.pointer(event, this.plot)[0]));
+      });
+
+    svg
+      .append('g')
+      .attr('class', 'keyframe-axis x-axis')
+      .attr('transform', `translate(0, ${PLOT_HEIGHT - PLOT_MARGIN.bottom})`);
+    svg
+      .append('g')
+      .attr('class', 'keyframe-axis y-axis')
+      .attr('transform', `translate(${PLOT_MARGIN.left}, 0)`);
+    svg.append('g').attr('class', 'keyframe-curves');
+    svg.append('line').attr('class', 'keyframe-playhead');
+    svg.append('g').attr('class', 'keyframe-points');
+  }
+
+  private setupEasingPlot(): void {
+    const svg = d3.select(this.easingPlot);
+    svg.append('rect').attr('class', 'keyframe-easing-frame');
+    svg.append('g').attr('class', 'keyframe-easing-handles');
+    svg.append('path').attr('class', 'keyframe-easing-curve');
+    svg.append('g').attr('class', 'keyframe-easing-points');
+  }
+
+  private render(): void {
+    const node = this.node;
+    if (!node || this.panel.style.display === 'none') return;
+
+    const track = this.getTrack();
+    if (!track) {
+      this.close();
+      return;
+    }
+    this.selected = Math.min(Math.max(this.selected, 0), track.keys.length - 1);
+
+    this.renderPlot(track);
+    this.renderControls(track);
+    this.renderEasing(track);
+  }
+
+  private renderPlot(track: KeyframeTrack): void {
+    const keys = track.keys;
+    const svg = d3.select(this.plot);
+
+    // Sample the curve over the transport range and keyframes
+    const start = Math.min(this.transport.start, keys[0].time);
+    const end = Math.max(this.transport.end, keys[keys.length - 1].time);
+    const samples: { time: number; channels: number[] }[] = [];
+    for (let i = 0; i <= CURVE_SAMPLES; i++) {
+      const time = start + ((end - start) * i) / CURVE_SAMPLES;
+      samples.push({ time, channels: keyframeChannels(sampleTrack(track, time)!) });
+    }
+
+    if (!this.dragging) {
+      this.x.domain([start, end]).range([PLOT_MARGIN.left, PLOT_WIDTH - PLOT_MARGIN.right]);
+      const values = samples.flatMap((sample) => sample.channels);
+      let [low, high] = [Math.min(...values), Math.max(...values)];
+      if (track.type === 'boolean') [low, high] = [0, 1];
+      const padding = high > low ? (high - low) * 0.1 : 1;
+      this.y
+        .domain([low - padding, high + padding])
+        .range([PLOT_HEIGHT - PLOT_MARGIN.bottom, PLOT_MARGIN.top]);
+    }
+    const { x, y } = this;
+
+    svg.select<SVGGElement>('.x-axis').call(d3.axisBottom(x).ticks(6));
+    svg.select<SVGGElement>('.y-axis').call(d3.axisLeft(y).ticks(4));
+
+    const colors = CHANNEL_COLORS[track.type];
+    const channelCount = samples[0].channels.length;
+    svg
+      .select('.keyframe-curves')
+      .selectAll('path')
+      .data(d3.range(channelCount))
+      .join('path')
+      .attr('stroke', (channel) => colors[channel])
+      .attr('d', (channel) =>
+        d3
+          .line<{ time: number; channels: number[] }>()
+          .x((sample) => x(sample.time))
+          .y((sample) => y(sample.channels[channel]))(samples)
+      );
+
+    svg
+      .select('.keyframe-playhead')
+      .attr('x1', x(this.transport.time))
+      .attr('x2', x(this.transport.time))
+      .attr('y1', PLOT_MARGIN.top)
+      .attr('y2', PLOT_HEIGHT - PLOT_MARGIN.bottom);
+
+    const points: KeyPoint[] = keys.flatMap((key, index) =>
+      keyframeChannels(key.value).map((value, channel) => ({
+        index,
+        channel,
+        time: key.time,
+        value,
+      }))
+    );
+    svg
+      .select('.keyframe-points')
+      .selectAll<SVGCircleElement, KeyPoint>('circle')
+      .data(points)
+      .join('circle')
+      .attr('r', 5)
+      .attr('cx', (point) => x(point.time))
+      .attr('cy', (point) => y(point.value))
+      .attr('fill', (point) => colors[point.channel])
+      .classed('selected', (point) => point.index === this.selected)
+      .call(this.keyframeDrag(track.type));
+  }
+
+  // Drag keyframes in time, and numbers in value too
+  private keyframeDrag(
+    type: KeyframeValueType
+  ): d3.DragBehavior<SVGCircleElement, KeyPoint, KeyPoint | d3.SubjectPosition> {
+    return d3
+      .drag<SVGCircleElement, KeyPoint>()
+      .container(() => this.plot)
+      .on('start', (_event, point) => {
+        this.dragging = true;
+        this.selected = point.index;
+        this.render();
+      })
+      .on('drag', (event) => {
+        const time = Math.max(0, this.x.invert(event.x));
+        if (type === 'number') {
+          this.changeSelected({ time, value: this.y.invert(event.y) });
+        } else {
+          this.changeSelected({ time });
+        }
+      })
+      .on('end', () => {
+        this.dragging = false;
+        this.render();
+      });
+  }
+
+  private renderControls(track: KeyframeTrack): void {
+    const key = track.keys[this.selected];
+    if (document.activeElement !== this.timeInput) {
+      this.timeInput.value = String(Number(key.time.toFixed(3)));
+    }
+    if (document.activeElement !== this.valueInput) {
+      this.valueInput.value = formatKeyframeValue(key.value);
+      this.valueInput.classList.remove('invalid');
+    }
+    this.easingSelect.value = key.easing;
+  }
+
+  // The easing of the segment after the selected keyframe, with draggable handles
+  private renderEasing(track: KeyframeTrack): void {
+    const key = track.keys[this.selected];
+    const hasSegment = this.selected < track.keys.length - 1 && key.easing !== 'step';
+    this.easingPlot.style.display = hasSegment ? 'block' : 'none';
+    if (!hasSegment) return;
+
+    // Progress from -0.5 to 1.5, so handles can overshoot
+    const toX = (value: number) => EASING_MARGIN + value * EASING_SIZE;
+    const toY = (value: number) => EASING_MARGIN + ((1.5 - value) / 2) * EASING_SIZE;
+    const fromX = (px: number) => Math.min(1, Math.max(0, (px - EASING_MARGIN) / EASING_SIZE));
+    const fromY = (py: number) => 1.5 - ((py - EASING_MARGIN) / EASING_SIZE) * 2;
+
+    const [x1, y1, x2, y2] = easingHandles(key);
+    const svg = d3.select(this.easingPlot);
+    svg
+      .select('.keyframe-easing-frame')
+      .attr('x', toX(0))
+      .attr('y', toY(1))
+      .attr('width', EASING_SIZE)
+      .attr('height', toY(0) - toY(1));
+    svg
+      .select('.keyframe-easing-curve')
+      .attr(
+        'd',
+        `M${toX(0)},${toY(0)} C${toX(x1)},${toY(y1)} ${toX(x2)},${toY(y2)} ${toX(1)},${toY(1)}`
+      );
+    svg
+      .select('.keyframe-easing-handles')
+      .selectAll('line')
+      .data([
+        [0, 0, x1, y1],
+        [1, 1, x2, y2],
+      ])
+      .join('line')
+      .attr('x1', (d) => toX(d[0]))
+      .attr('y1', (d) => toY(d[1]))
+      .attr('x2', (d) => toX(d[2]))
+      .attr('y2', (d) => toY(d[3]));
+
+    svg
+      .select('.keyframe-easing-points')
+      .selectAll<SVGCircleElement, number>('circle')
+      .data([0, 1])
+      .join('circle')
+      .attr('r', 5)
+      .attr('cx', (handle) => toX(handle === 0 ? x1 : x2))
+      .attr('cy', (handle) => toY(handle === 0 ? y1 : y2))
+      .call(
+        d3
+          .drag<SVGCircleElement, number>()
+          .container(() => this.easingPlot)
+          .on('drag', (event, handle) => {
+            const current = this.getTrack()?.keys[this.selected];
+            if (!current) return;
+            const handles = [...easingHandles(current)] as BezierHandles;
+            handles[handle * 2] = fromX(event.x);
+            handles[handle * 2 + 1] = fromY(event.y);
+            this.changeSelected({ easing: 'bezier', handles });
+          })
+      );
+  }
+}
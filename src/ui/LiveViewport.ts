@@ -21,6 +21,8 @@ import { ViewModeManager } from './ViewModeManager';
 import { SelectionManager } from './SelectionManager';
 import { NodeRegistry } from '@/three/NodeRegistry';
 
+CameraControls.install({ THREE });
+
 export class LiveViewport {
   private container: HTMLElement;
   private renderer: THREE.WebGLRenderer;
@@ -107,7 +109,10 @@ export class LiveViewport {
         this.transformControls.detach();
 
         // Create or update transform nodes and get the transform node ID
-        const transformNodeId = this.ensureTransformNodes(originalObject);
+        // (all node and edge edits of one gizmo drag form a single undo step)
+        const transformNodeId = this.graph.history.group('Transform object', () =>
+          this.ensureTransformNodes(originalObject)
+        );
 
         // Store the transform node ID to track when scene updates
         if (transformNodeId) {
@@ -179,8 +184,8 @@ export class LiveViewport {
     // Setup event listeners
     this.setupEventListeners();
 
-    // Listen to graph changes
-    this.graph.onChange(() => this.updateScene());
+    // The scene output only changes with evaluation, or when its node is deleted
+    this.graph.on(['evaluated', 'nodeRemoved'], () => this.updateScene());
 
     // Start render loop
     this.startRenderLoop();
@@ -343,7 +348,15 @@ export class LiveViewport {
 
     // Check for modifier + key combinations
     if (event.ctrlKey || event.metaKey) {
-      if (event.key === 'c' || event.key === 'C') {
+      if (event.key === 'z' || event.key === 'Z') {
+        // Undo / Redo (Shift)
+        if (this.undoRedo(event.shiftKey ? 'redo' : 'undo')) event.preventDefault();
+        return;
+      } else if (event.key === 'y' || event.key === 'Y') {
+        // Redo
+        if (this.undoRedo('redo')) event.preventDefault();
+        return;
+      } else if (event.key === 'c' || event.key === 'C') {
         // Copy
         event.preventDefault();
         this.copySelectedObjects();
@@ -379,6 +392,31 @@ export class LiveViewport {
     }
   }
 
+  /**
+   * Undo or redo a graph edit from the viewport
+   * Returns false when not in viewport mode (the graph editor handles it there)
+   */
+  private undoRedo(action: 'undo' | 'redo'): boolean {
+    if (!this.viewModeManager || this.viewModeManager.getCurrentMode() !== 'viewport') {
+      return false;
+    }
+
+    // Selected objects may be replaced by the edit, so drop the selection first
+    this.transformControls.detach();
+    const gizmo = this.transformControls.getHelper();
+    if (this.currentScene && this.currentScene.children.includes(gizmo)) {
+      this.currentScene.remove(gizmo);
+    }
+    this.viewportSelectionManager.clearSelection();
+
+    if (action === 'undo') {
+      this.graph.history.undo();
+    } else {
+      this.graph.history.redo();
+    }
+    return true;
+  }
+
   private copySelectedObjects(): void {
     // Only allow copy in viewport mode to prevent double-pasting
     if (!this.viewModeManager || this.viewModeManager.getCurrentMode() !== 'viewport') {
@@ -455,9 +493,11 @@ export class LiveViewport {
     }
 
     // Delete only the directly selected nodes (not their dependencies)
-    for (const nodeId of nodeIds) {
-      this.graph.removeNode(nodeId);
-    }
+    this.graph.history.group(`Cut ${nodeIds.size} node(s)`, () => {
+      for (const nodeId of nodeIds) {
+        this.graph.removeNode(nodeId);
+      }
+    });
 
     // Clear viewport selection
     this.viewportSelectionManager.clearSelection();
@@ -505,12 +545,14 @@ export class LiveViewport {
     }
 
     // Remove the nodes from the graph (this will update the scene)
-    for (const nodeId of nodeIds) {
-      const node = this.graph.getNode(nodeId);
-      if (node) {
-        this.graph.removeNode(nodeId);
+    this.graph.history.group(`Delete ${nodeIds.size} node(s)`, () => {
+      for (const nodeId of nodeIds) {
+        const node = this.graph.getNode(nodeId);
+        if (node) {
+          this.graph.removeNode(nodeId);
+        }
       }
-    }
+    });
 
     // Detach transform controls
     this.transformControls.detach();
@@ -889,7 +931,7 @@ export class LiveViewport {
     this.previewManager.onChange(() => {
       // Don't call updateScene() here - it unnecessarily recreates the composer
       // when preview overlays change (which happens on every selection change)
-      // The scene is already updated via graph.onChange() callback
+      // The scene is already updated via the graph's 'evaluated' events
       this.updateControlsCamera();
     });
     // Immediately update controls camera after setting preview manager
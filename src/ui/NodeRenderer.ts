@@ -1,7 +1,7 @@
 import { Graph } from '@/core/Graph';
 import { Node } from '@/core/Node';
 import { Port } from '@/core/Port';
-import { PortType } from '@/types';
+import { PortType, elementType, isListType } from '@/types';
 import { TweakpaneNode } from '@/three/TweakpaneNode';
 import { NodeRegistry } from '@/three/NodeRegistry';
 import './NodeRenderer.css';
@@ -13,24 +13,33 @@ const PORT_COLORS: Record<PortType, string> = {
   [PortType.Vector3]: '#8b5cf6',
   [PortType.Color]: '#f59e0b',
   [PortType.Matrix4]: '#ec4899',
+  [PortType.Quaternion]: '#f472b6',
+  [PortType.Euler]: '#fb7185',
+  [PortType.Curve]: '#2dd4bf',
   [PortType.Texture]: '#06b6d4',
   [PortType.Geometry]: '#84cc16',
+  [PortType.BufferAttribute]: '#a3e635',
   [PortType.Material]: '#f97316',
   [PortType.Object3D]: '#14b8a6',
   [PortType.Scene]: '#6366f1',
   [PortType.Camera]: '#a855f7',
   [PortType.Light]: '#fbbf24',
   [PortType.Point2D]: '#d946ef',
+  [PortType.PhysicsWorld]: '#eab308',
   [PortType.Any]: '#6b7280',
 };
 
 export class NodeRenderer {
   private container: HTMLElement;
   private nodeElements: Map<string, HTMLElement> = new Map();
+  // Detached node elements of graphs not currently shown (see setGraph)
+  private elementsByGraph: WeakMap<Graph, Map<string, HTMLElement>> = new WeakMap();
   private graph: Graph;
   private registry: NodeRegistry;
   private previewManager: any = null; // Will be set later to avoid circular dependency
   private previewMode: string = 'none';
+  private heatmapEnabled: boolean = false; // Color nodes by evaluation cost (see Profiler)
+  private heatmapMaxMs: number = 0;
   private tooltipElement: HTMLElement | null = null;
   private currentMouseX: number = 0;
   private currentMouseY: number = 0;
@@ -48,6 +57,31 @@ export class NodeRenderer {
     this.createTooltipElement();
   }
 
+  /**
+   * Switch to another graph (e.g. when entering a group).
+   * Node elements are kept per graph, since node IDs are only unique within a graph.
+   */
+  setGraph(graph: Graph): void {
+    this.hideTooltip();
+    for (const element of this.nodeElements.values()) {
+      element.remove();
+    }
+    this.elementsByGraph.set(this.graph, this.nodeElements);
+
+    this.graph = graph;
+    this.nodeElements = this.elementsByGraph.get(graph) ?? new Map();
+    for (const element of this.nodeElements.values()) {
+      this.container.appendChild(element);
+    }
+  }
+
+  /**
+   * Toggle the profiler heat map. Takes effect on the next render.
+   */
+  setHeatmapEnabled(enabled: boolean): void {
+    this.heatmapEnabled = enabled;
+  }
+
   setPreviewManager(previewManager: any): void {
     this.previewManager = previewManager;
     // Listen to preview mode changes
@@ -77,6 +111,14 @@ export class NodeRenderer {
       }
     }
 
+    // Heat map colors are relative to the slowest node
+    if (this.heatmapEnabled) {
+      this.heatmapMaxMs = 0;
+      for (const id of currentNodeIds) {
+        this.heatmapMaxMs = Math.max(this.heatmapMaxMs, graph.profiler.get(id)?.lastMs ?? 0);
+      }
+    }
+
     // Create or update nodes
     for (const node of graph.nodes.values()) {
       let nodeElement = this.nodeElements.get(node.id);
@@ -220,6 +262,21 @@ export class NodeRenderer {
 
     // Add or update visibility icon (only in 'all' preview mode)
     this.updateVisibilityIcon(element, node);
+
+    // Show a spinner while an async evaluation is in flight
+    this.updatePendingIndicator(element, node);
+
+    // Show errors/warnings from the last evaluation
+    this.updateDiagnosticBadge(element, node);
+
+    // Dim nodes that pass their inputs through
+    element.classList.toggle('bypassed', node.bypassed);
+
+    // Mark nodes whose outputs are locked
+    this.updateFrozenBadge(element, node);
+
+    // Show evaluation cost when the profiler heat map is on
+    this.updateHeatmap(element, node);
   }
 
   private rebuildNodeLayout(
@@ -612,9 +669,17 @@ export class NodeRenderer {
     portCircle.classList.add('port');
     portCircle.dataset.portId = port.id;
     portCircle.dataset.portName = port.name;
+    portCircle.title = port.type;
+    if (isListType(port.type)) {
+      portCircle.classList.add('list-type');
+    }
+    if (side === 'input' && port.access !== 'item') {
+      portCircle.classList.add(`access-${port.access}`);
+      portCircle.title += port.access === 'list' ? ' (list access)' : ' (tree access)';
+    }
 
-    // Set dynamic color based on port type
-    const baseColor = PORT_COLORS[port.type] || '#6b7280';
+    // Set dynamic color based on port type (lists take the color of their items)
+    const baseColor = PORT_COLORS[elementType(port.type)] || '#6b7280';
     portCircle.style.backgroundColor = baseColor;
 
     if (isHovering) {
@@ -696,7 +761,7 @@ export class NodeRenderer {
       this.markDownstreamDirty(node);
 
       // Trigger graph evaluation
-      this.graph.triggerChange();
+      this.graph.emit({ type: 'propertyChanged', node });
     };
   }
 
@@ -799,8 +864,8 @@ export class NodeRenderer {
       // Find all edges connected to this output
       const edges = this.graph.getEdgesFromPort(outputPort);
       for (const edge of edges) {
-        // Mark the target node dirty
-        edge.target.node.markDirty();
+        // Mark the target node dirty; it re-evaluates if its inputs come out changed
+        edge.target.node.markUpstreamDirty();
         // Recursively mark downstream nodes
         this.markDownstreamDirty(edge.target.node);
       }
@@ -868,8 +933,8 @@ export class NodeRenderer {
         node.customWidth = newWidth;
         node.customHeight = newHeight;
 
-        // Update visually - trigger full re-render for proper port positioning
-        this.graph.triggerChange();
+        // Ports move with the size, which is layout like moving the node
+        this.graph.emit({ type: 'positionChanged', nodes: [node] });
       };
 
       const onPointerUp = (e: PointerEvent) => {
@@ -945,6 +1010,131 @@ export class NodeRenderer {
     }
   }
 
+  private updatePendingIndicator(element: HTMLElement, node: Node): void {
+    const indicatorClass = 'pending-indicator';
+    let indicator = element.querySelector(`.${indicatorClass}`) as HTMLElement;
+
+    element.classList.toggle('pending', node.isPending);
+
+    if (!node.isPending) {
+      indicator?.remove();
+      return;
+    }
+
+    if (!indicator) {
+      indicator = document.createElement('div');
+      indicator.classList.add(indicatorClass);
+      indicator.title = 'Evaluating...';
+
+      const iconElement = document.createElement('i');
+      iconElement.className = 'ph ph-spinner';
+      indicator.appendChild(iconElement);
+
+      const progressElement = document.createElement('span');
+      progressElement.classList.add('pending-progress');
+      indicator.appendChild(progressElement);
+
+      element.appendChild(indicator);
+    }
+
+    // Offloaded evaluations report how far along they are
+    const progressElement = indicator.querySelector('.pending-progress') as HTMLElement;
+    progressElement.textContent =
+      node.progress === null ? '' : `${Math.round(node.progress * 100)}%`;
+  }
+
+  private updateDiagnosticBadge(element: HTMLElement, node: Node): void {
+    const badgeClass = 'diagnostic-badge';
+    let badge = element.querySelector(`.${badgeClass}`) as HTMLElement;
+
+    const blocker = node.blockedBy ? this.graph.getNode(node.blockedBy) : undefined;
+    const severity = node.hasError
+      ? 'error'
+      : node.diagnostics.length > 0
+        ? 'warning'
+        : node.blockedBy
+          ? 'blocked'
+          : null;
+
+    element.classList.toggle('has-error', severity === 'error');
+    element.classList.toggle('has-warning', severity === 'warning');
+    element.classList.toggle('blocked', severity === 'blocked');
+
+    if (!severity) {
+      badge?.remove();
+      return;
+    }
+
+    if (!badge) {
+      badge = document.createElement('div');
+      badge.classList.add(badgeClass);
+      badge.appendChild(document.createElement('i'));
+      element.appendChild(badge);
+    }
+
+    const icons = { error: 'ph-warning-circle', warning: 'ph-warning', blocked: 'ph-prohibit' };
+    badge.className = `${badgeClass} ${severity}`;
+    badge.querySelector('i')!.className = `ph ${icons[severity]}`;
+    badge.title =
+      severity === 'blocked'
+        ? `Blocked by an error in ${blocker?.label ?? node.blockedBy}`
+        : node.diagnostics.map((diagnostic) => diagnostic.message).join('\n');
+  }
+
+  private updateFrozenBadge(element: HTMLElement, node: Node): void {
+    const badgeClass = 'frozen-badge';
+    let badge = element.querySelector(`.${badgeClass}`) as HTMLElement;
+
+    element.classList.toggle('frozen', node.frozen);
+
+    if (!node.frozen) {
+      badge?.remove();
+      return;
+    }
+
+    if (!badge) {
+      badge = document.createElement('div');
+      badge.classList.add(badgeClass);
+      const iconElement = document.createElement('i');
+      iconElement.className = 'ph ph-snowflake';
+      badge.appendChild(iconElement);
+      element.appendChild(badge);
+    }
+
+    // Frozen before it had results, it locks the ones of its next evaluation
+    badge.title = node.isFrozen
+      ? 'Frozen: outputs are locked until unfrozen'
+      : 'Frozen: outputs will be locked once evaluated';
+  }
+
+  private updateHeatmap(element: HTMLElement, node: Node): void {
+    const labelClass = 'heatmap-label';
+    let label = element.querySelector(`.${labelClass}`) as HTMLElement;
+
+    const profile = this.heatmapEnabled ? this.graph.profiler.get(node.id) : undefined;
+    element.classList.toggle('heatmap', profile !== undefined);
+
+    if (!profile) {
+      label?.remove();
+      element.style.removeProperty('--heat-color');
+      return;
+    }
+
+    // Green for cheap nodes through to red for the slowest one
+    const ratio = this.heatmapMaxMs > 0 ? profile.lastMs / this.heatmapMaxMs : 0;
+    element.style.setProperty('--heat-color', `hsl(${Math.round(120 * (1 - ratio))}, 80%, 50%)`);
+
+    if (!label) {
+      label = document.createElement('div');
+      label.classList.add(labelClass);
+      element.appendChild(label);
+    }
+
+    const averageMs = profile.totalMs / profile.calls;
+    label.textContent = `${profile.lastMs.toFixed(2)} ms`;
+    label.title = `${profile.calls} call(s), avg ${averageMs.toFixed(2)} ms, max ${profile.maxMs.toFixed(2)} ms`;
+  }
+
   private showTooltip(node: Node): void {
     // Clear any existing timeout
     if (this.tooltipTimeout !== null) {
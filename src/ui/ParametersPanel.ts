@@ -0,0 +1,184 @@
+import { Pane } from 'tweakpane';
+import * as THREE from 'three';
+import type { Graph } from '@/core/Graph';
+import {
+  GraphParameter,
+  ParameterType,
+  ParameterValue,
+  defaultParameterValue,
+} from '@/core/parameters';
+import './ParametersPanel.css';
+
+const PARAMETER_TYPES: ParameterType[] = [
+  'number',
+  'boolean',
+  'color',
+  'enum',
+  'vector3',
+  'string',
+];
+
+/**
+ * Floating panel with a control per graph parameter, for editing the values
+ * that drive a graph without touching its nodes. Parameters are added and
+ * removed here too, and the master seed of the random nodes is set here.
+ */
+export class ParametersPanel {
+  private graph: Graph;
+  private element: HTMLElement;
+  private pane: Pane | null = null;
+  // Values bound to the controls, copied from the parameters
+  private values: Record<string, { value: unknown }> = {};
+  private seed = { value: 0 };
+  // Parameter definitions the controls were built from, to rebuild them when they change
+  private layout = '';
+  private syncing = false; // Refreshing the controls, which emits change events
+
+  constructor(graph: Graph) {
+    this.graph = graph;
+
+    this.element = document.createElement('div');
+    this.element.className = 'parameters-panel';
+    this.element.style.display = 'none';
+    document.body.appendChild(this.element);
+
+    this.graph.on(['parameterChanged', 'seedChanged'], () => this.update());
+  }
+
+  /**
+   * Show the panel above the button, or hide it
+   */
+  toggle(anchor: HTMLElement): void {
+    if (this.element.style.display !== 'none') {
+      this.element.style.display = 'none';
+      return;
+    }
+
+    const rect = anchor.getBoundingClientRect();
+    this.element.style.left = `${rect.left}px`;
+    this.element.style.bottom = `${window.innerHeight - rect.top + 10}px`;
+    this.element.style.display = 'block';
+    this.layout = '';
+    this.update();
+  }
+
+  private update(): void {
+    if (this.element.style.display === 'none') return;
+
+    const parameters = this.graph.parameters;
+    const layout = JSON.stringify(parameters.map(({ value: _value, ...definition }) => definition));
+    if (layout !== this.layout) {
+      this.layout = layout;
+      this.build(parameters);
+      return;
+    }
+
+    // Values changed elsewhere (undo, Parameter nodes, URL)
+    for (const parameter of parameters) {
+      this.values[parameter.name].value = this.toControlValue(parameter.value);
+    }
+    this.seed.value = this.graph.seed;
+    this.syncing = true;
+    try {
+      this.pane?.refresh();
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private build(parameters: GraphParameter[]): void {
+    this.pane?.dispose();
+    this.pane = new Pane({ container: this.element, title: 'Parameters' });
+    this.values = {};
+
+    this.seed = { value: this.graph.seed };
+    this.pane.addBinding(this.seed, 'value', { label: 'Seed', step: 1 }).on('change', (ev) => {
+      if (this.syncing) return;
+      this.graph.setSeed(ev.value);
+    });
+
+    for (const parameter of parameters) {
+      const values = { value: this.toControlValue(parameter.value) };
+      this.values[parameter.name] = values;
+
+      const config: Record<string, unknown> = { label: parameter.label || parameter.name };
+      if (parameter.type === 'number') {
+        if (parameter.min !== undefined) config.min = parameter.min;
+        if (parameter.max !== undefined) config.max = parameter.max;
+        if (parameter.step !== undefined) config.step = parameter.step;
+      } else if (parameter.type === 'enum') {
+        config.options = parameter.options ?? {};
+      } else if (parameter.type === 'color') {
+        config.view = 'color';
+      }
+
+      this.pane.addBinding(values, 'value', config).on('change', (ev) => {
+        if (this.syncing) return;
+        this.graph.setParameterValue(parameter.name, this.fromControlValue(parameter, ev.value));
+      });
+    }
+
+    this.pane.addButton({ title: 'Add Parameter…' }).on('click', () => this.addParameter());
+    if (parameters.length > 0) {
+      this.pane.addButton({ title: 'Remove Parameter…' }).on('click', () => this.removeParameter());
+    }
+  }
+
+  private addParameter(): void {
+    const name = prompt('Parameter name:')?.trim();
+    if (!name) return;
+    if (this.graph.getParameter(name) && !confirm(`Replace parameter "${name}"?`)) return;
+
+    const type = prompt(`Type (${PARAMETER_TYPES.join(', ')}):`, 'number')?.trim() as ParameterType;
+    if (!PARAMETER_TYPES.includes(type)) return;
+
+    const parameter: GraphParameter = { name, type, value: defaultParameterValue(type) };
+
+    if (type === 'number') {
+      const range = prompt('Range (min, max):', '0, 1');
+      const [min, max] = (range ?? '').split(',').map(Number);
+      if (!Number.isNaN(min) && !Number.isNaN(max) && min < max) {
+        parameter.min = min;
+        parameter.max = max;
+        parameter.value = min;
+      }
+    } else if (type === 'enum') {
+      const choices = prompt('Options (comma-separated):', 'A, B, C');
+      const options = (choices ?? '')
+        .split(',')
+        .map((option) => option.trim())
+        .filter(Boolean);
+      if (options.length === 0) return;
+      parameter.options = Object.fromEntries(options.map((option) => [option, option]));
+      parameter.value = defaultParameterValue(type, parameter.options);
+    }
+
+    this.graph.addParameter(parameter);
+  }
+
+  private removeParameter(): void {
+    const names = this.graph.parameters.map((parameter) => parameter.name);
+    const name = prompt(`Remove which parameter? (${names.join(', ')})`)?.trim();
+    if (name && this.graph.getParameter(name)) {
+      this.graph.removeParameter(name);
+    }
+  }
+
+  // Tweakpane edits points in place, so vectors are bound as copies
+  private toControlValue(value: ParameterValue): unknown {
+    return value instanceof THREE.Vector3 ? { x: value.x, y: value.y, z: value.z } : value;
+  }
+
+  private fromControlValue(parameter: GraphParameter, value: unknown): ParameterValue {
+    if (parameter.type === 'vector3') {
+      const { x, y, z } = value as { x: number; y: number; z: number };
+      return new THREE.Vector3(x, y, z);
+    }
+    return value as ParameterValue;
+  }
+
+  dispose(): void {
+    this.pane?.dispose();
+    this.element.remove();
+  }
+}
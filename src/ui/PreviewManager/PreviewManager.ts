@@ -64,8 +64,8 @@ export class PreviewManager {
     // Load saved settings from local storage
     this.loadSettings();
 
-    // Listen to graph changes
-    this.graph.onChange(() => this.updatePreview());
+    // Rebuild the previews when outputs change or previewed nodes go away
+    this.graph.on(['evaluated', 'nodeRemoved'], () => this.updatePreview());
 
     // Listen to selection changes
     this.selectionManager.onChange(() => {
@@ -1,4 +1,7 @@
 import { Node } from '@/core/Node';
+import type { Graph } from '@/core/Graph';
+import type { NodeProfile } from '@/core/Profiler';
+import type { KeyframeTarget } from '@/core/keyframes';
 import { Pane } from 'tweakpane';
 import { ObjectInspector } from './ObjectInspector';
 import { CustomNodeDefinition, AIGenerationRequest } from '@/types/customNode';
@@ -9,6 +12,30 @@ import { AIAssistant } from '@/utils/AIAssistant';
 import { CodeMirrorEditor } from './CodeMirrorEditor';
 import { CustomNodeFieldsManager } from './CustomNodeFieldsManager';
 import { BaseThreeNode } from '@/three';
+import type { KeyframeEditor } from './KeyframeEditor';
+
+// activeNodeIndex of the Profiler tab, shown before the node tabs
+const PROFILER_TAB = -1;
+
+type ProfilerColumn =
+  | 'label'
+  | 'calls'
+  | 'lastMs'
+  | 'averageMs'
+  | 'maxMs'
+  | 'totalMs'
+  | 'lastEvaluatedAt';
+
+const PROFILER_COLUMNS: { key: ProfilerColumn; label: string }[] = [
+  { key: 'label', label: 'Node' },
+  { key: 'calls', label: 'Calls' },
+  { key: 'lastMs', label: 'Last' },
+  { key: 'averageMs', label: 'Avg' },
+  { key: 'maxMs', label: 'Max' },
+  { key: 'totalMs', label: 'Total' },
+  { key: 'lastEvaluatedAt', label: 'Run at' },
+];
+
 export class PropertiesPanel {
   private panel: HTMLElement;
   private tabsContainer: HTMLElement;
@@ -22,6 +49,16 @@ export class PropertiesPanel {
   private minWidth: number = 200;
   private isResizing: boolean = false;
 
+  // Profiler tab state
+  private profiledGraph: Graph | null = null;
+  private profilerSort: { column: ProfilerColumn; descending: boolean } = {
+    column: 'lastMs',
+    descending: true,
+  };
+
+  // Keyframes properties and inputs (right-click menu)
+  private keyframeEditor: KeyframeEditor | null = null;
+
   // Custom node editor state
   private customNodeManager?: CustomNodeManager;
   private codeEditor?: CodeMirrorEditor; // Unified code editor (readonly/editable)
@@ -158,6 +195,10 @@ export class PropertiesPanel {
     this.onCustomNodeCreated = callback;
   }
 
+  setKeyframeEditor(editor: KeyframeEditor): void {
+    this.keyframeEditor = editor;
+  }
+
   setSelectedNodes(nodes: Node[]): void {
     // Clean up existing property panes
     for (const pane of this.propertyPanes.values()) {
@@ -166,9 +207,28 @@ export class PropertiesPanel {
     this.propertyPanes.clear();
 
     this.selectedNodes = nodes;
-    this.activeNodeIndex = 0;
+    this.activeNodeIndex = nodes.length === 0 ? PROFILER_TAB : 0;
 
-    if (nodes.length === 0) {
+    if (nodes.length === 0 && !this.profiledGraph) {
+      this.renderEmpty();
+    } else {
+      this.renderTabs();
+      this.renderContent();
+    }
+  }
+
+  /**
+   * Show the Profiler tab for a graph's evaluation timings, or hide it (null)
+   */
+  setProfiledGraph(graph: Graph | null): void {
+    this.profiledGraph = graph;
+    if (graph) {
+      this.activeNodeIndex = PROFILER_TAB;
+    } else if (this.activeNodeIndex === PROFILER_TAB) {
+      this.activeNodeIndex = 0;
+    }
+
+    if (this.selectedNodes.length === 0 && !graph) {
       this.renderEmpty();
     } else {
       this.renderTabs();
@@ -184,6 +244,21 @@ export class PropertiesPanel {
   private renderTabs(): void {
     this.tabsContainer.innerHTML = '';
 
+    if (this.profiledGraph) {
+      const tab = document.createElement('div');
+      tab.className = 'properties-tab';
+      if (this.activeNodeIndex === PROFILER_TAB) {
+        tab.classList.add('active');
+      }
+      tab.innerHTML = '<i class="ph ph-gauge"></i> Profiler';
+      tab.addEventListener('click', async () => {
+        this.activeNodeIndex = PROFILER_TAB;
+        this.renderTabs();
+        await this.renderContent();
+      });
+      this.tabsContainer.appendChild(tab);
+    }
+
     for (let i = 0; i < this.selectedNodes.length; i++) {
       const node = this.selectedNodes[i];
       const tab = document.createElement('div');
@@ -234,13 +309,12 @@ export class PropertiesPanel {
   }
 
   private async renderContent(): Promise<void> {
-    if (this.selectedNodes.length === 0) {
+    const showProfiler = this.activeNodeIndex === PROFILER_TAB && this.profiledGraph;
+    if (this.selectedNodes.length === 0 && !showProfiler) {
       this.renderEmpty();
       return;
     }
 
-    const node = this.selectedNodes[this.activeNodeIndex];
-
     // Dispose the code editor before clearing the container
     if (this.codeEditor) {
       this.codeEditor.dispose();
@@ -249,6 +323,13 @@ export class PropertiesPanel {
 
     this.contentContainer.innerHTML = '';
 
+    if (showProfiler) {
+      this.contentContainer.appendChild(this.createProfilerSection(this.profiledGraph!));
+      return;
+    }
+
+    const node = this.selectedNodes[this.activeNodeIndex];
+
     // Branch based on node type
     if (this.isCustomNode(node)) {
       // Render custom node editor interface
@@ -267,6 +348,12 @@ export class PropertiesPanel {
     const sectionsContainer = document.createElement('div');
     sectionsContainer.className = 'properties-sections';
 
+    // Render diagnostics first so problems are easy to spot
+    const diagnosticsSection = this.createDiagnosticsSection(node);
+    if (diagnosticsSection) {
+      sectionsContainer.appendChild(diagnosticsSection);
+    }
+
     // Render properties section if node has properties
     if (node.properties.size > 0) {
       const propertiesSection = this.createPropertiesSection(node);
@@ -312,6 +399,12 @@ export class PropertiesPanel {
     const container = document.createElement('div');
     container.className = 'custom-node-editor';
 
+    // Errors from the node's own code are the first thing to fix
+    const diagnosticsSection = this.createDiagnosticsSection(node);
+    if (diagnosticsSection) {
+      container.appendChild(diagnosticsSection);
+    }
+
     // Add all editor sections (AI assistant at top to help with everything)
     container.appendChild(this.createCustomNodeAISection());
     container.appendChild(this.customNodeFieldsManager.createCustomNodeDefinitionSection());
@@ -410,16 +503,22 @@ export class PropertiesPanel {
         bindingConfig.options = property.options;
       } else if (property.type === 'color') {
         bindingConfig.view = 'color';
+      } else if (property.type === 'asset') {
+        // Hash of a stored file, set by the node's file picker
+        bindingConfig.readonly = true;
       }
 
       const binding = pane.addBinding(params, name, bindingConfig).on('change', (ev) => {
-        // Update property value but don't trigger graph evaluation
-        const prop = node.properties.get(name);
-        if (prop) {
-          prop.value = ev.value;
-          node.markDirty();
+        // Keyframed properties get a keyframe at the current time instead
+        if (node.getKeyframeTrack('property', name)) {
+          this.keyframeEditor?.setKeyframe(node, 'property', name, ev.value);
+          return;
         }
+
+        // Recorded for undo; a slider drag merges into a single step
+        node.setProperty(name, ev.value);
       });
+      this.addKeyframeMenu(binding.element, node, 'property', name);
 
       // Check if this property has a corresponding connected input port
       const inputPort = node.inputs.get(name);
@@ -453,6 +552,167 @@ export class PropertiesPanel {
     return section;
   }
 
+  // Right-click menu to keyframe a property or input, which is highlighted once keyframed
+  private addKeyframeMenu(
+    element: HTMLElement,
+    node: Node,
+    target: KeyframeTarget,
+    name: string
+  ): void {
+    const editor = this.keyframeEditor;
+    if (!editor?.keyframeType(node, target, name)) return;
+
+    element.classList.toggle('keyframed', node.getKeyframeTrack(target, name) !== undefined);
+    element.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+      editor.showMenu(node, target, name, e.clientX, e.clientY);
+    });
+  }
+
+  /**
+   * List the errors and warnings from the node's last evaluation
+   * Returns null if there is nothing to report
+   */
+  private createDiagnosticsSection(node: Node): HTMLElement | null {
+    if (node.diagnostics.length === 0 && !node.blockedBy) return null;
+
+    const section = document.createElement('div');
+    section.className = 'properties-section';
+
+    const header = document.createElement('h3');
+    header.className = 'properties-section-header';
+    header.textContent = 'Diagnostics';
+    section.appendChild(header);
+
+    const addItem = (severity: string, icon: string, message: string) => {
+      const item = document.createElement('div');
+      item.className = `diagnostic-item ${severity}`;
+      item.innerHTML = `<i class="ph ${icon}"></i>`;
+
+      const text = document.createElement('span');
+      text.textContent = message;
+      item.appendChild(text);
+
+      section.appendChild(item);
+    };
+
+    for (const diagnostic of node.diagnostics) {
+      const icon = diagnostic.severity === 'error' ? 'ph-warning-circle' : 'ph-warning';
+      addItem(diagnostic.severity, icon, diagnostic.message);
+    }
+
+    if (node.blockedBy) {
+      const blocker = node.graph?.getNode(node.blockedBy)?.label ?? node.blockedBy;
+      addItem('blocked', 'ph-prohibit', `Blocked by an error in ${blocker}`);
+    }
+
+    return section;
+  }
+
+  /**
+   * Table of per-node evaluation timings, sortable by clicking a column header
+   */
+  private createProfilerSection(graph: Graph): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'properties-section';
+
+    const header = document.createElement('h3');
+    header.className = 'properties-section-header';
+    header.textContent = 'Profiler';
+    section.appendChild(header);
+
+    const actions = document.createElement('div');
+    actions.className = 'profiler-actions';
+
+    const exportBtn = document.createElement('button');
+    exportBtn.textContent = 'Export JSON';
+    exportBtn.onclick = () => this.exportProfile(graph);
+    actions.appendChild(exportBtn);
+
+    const resetBtn = document.createElement('button');
+    resetBtn.textContent = 'Reset';
+    resetBtn.onclick = () => {
+      graph.profiler.reset();
+      this.renderContent();
+    };
+    actions.appendChild(resetBtn);
+
+    section.appendChild(actions);
+
+    // Only nodes still in the graph
+    const profiles = graph.profiler.getAll().filter((profile) => graph.nodes.has(profile.nodeId));
+    if (profiles.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'properties-empty';
+      empty.textContent = 'No evaluations recorded yet';
+      section.appendChild(empty);
+      return section;
+    }
+
+    const valueOf = (profile: NodeProfile, column: ProfilerColumn): string | number =>
+      column === 'averageMs' ? profile.totalMs / profile.calls : profile[column];
+
+    const { column, descending } = this.profilerSort;
+    profiles.sort((a, b) => {
+      const x = valueOf(a, column);
+      const y = valueOf(b, column);
+      const order = typeof x === 'string' ? x.localeCompare(String(y)) : x - (y as number);
+      return descending ? -order : order;
+    });
+
+    const table = document.createElement('table');
+    table.className = 'profiler-table';
+
+    const headRow = table.createTHead().insertRow();
+    for (const { key, label } of PROFILER_COLUMNS) {
+      const cell = document.createElement('th');
+      cell.textContent = label;
+      if (key === column) {
+        cell.classList.add('sorted');
+        cell.textContent += descending ? ' ▾' : ' ▴';
+      }
+      cell.addEventListener('click', () => {
+        // Clicking the sorted column flips the direction; numbers sort largest first
+        this.profilerSort =
+          key === column
+            ? { column, descending: !descending }
+            : { column: key, descending: key !== 'label' };
+        this.renderContent();
+      });
+      headRow.appendChild(cell);
+    }
+
+    const body = table.createTBody();
+    for (const profile of profiles) {
+      const row = body.insertRow();
+      row.title = `${profile.type} (${profile.nodeId})`;
+      for (const { key } of PROFILER_COLUMNS) {
+        const value = valueOf(profile, key);
+        let text = String(value);
+        if (key === 'lastEvaluatedAt') {
+          text = new Date(profile.lastEvaluatedAt).toLocaleTimeString();
+        } else if (key.endsWith('Ms')) {
+          text = (value as number).toFixed(2);
+        }
+        row.insertCell().textContent = text;
+      }
+    }
+
+    section.appendChild(table);
+    return section;
+  }
+
+  private exportProfile(graph: Graph): void {
+    const data = JSON.stringify(graph.profiler.toJSON(), null, 2);
+    const blob = new Blob([data], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `profile-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
   private createDataFlowSection(node: Node): HTMLElement {
     const section = document.createElement('div');
     section.className = 'properties-section';
@@ -472,6 +732,7 @@ export class PropertiesPanel {
       for (const [name, port] of node.inputs) {
         const item = document.createElement('div');
         item.className = 'data-flow-item';
+        this.addKeyframeMenu(item, node, 'input', name);
 
         const portName = document.createElement('span');
         portName.className = 'data-flow-port-name';
@@ -536,8 +797,8 @@ export class PropertiesPanel {
   }
 
   async updateDataFlow(): Promise<void> {
-    // Re-render the content to update data flow values
-    if (this.isVisible && this.selectedNodes.length > 0) {
+    // Re-render the content to update data flow values (and profiler timings)
+    if (this.isVisible && (this.selectedNodes.length > 0 || this.profiledGraph)) {
       await this.renderContent();
     }
   }
@@ -1,5 +1,7 @@
 import { Graph } from '@/core/Graph';
-import { serializeGraphToJSON } from '@/core/serializer';
+import { serializeGraph, serializeGraphToJSON } from '@/core/serializer';
+import { embedAssets, referencedAssets } from '@/core/assets';
+import { applyParameterOverrides } from '@/core/parameters';
 import { deserializeGraphFromJSON } from '@/core/deserializer';
 import { NodeRegistry } from '@/three/NodeRegistry';
 
@@ -81,9 +83,37 @@ export class SaveLoadManager {
     try {
       const newGraph = deserializeGraphFromJSON(savedGraph.data, this.registry);
 
+      this.replaceGraph(newGraph);
+
+      this.showNotification(`Loaded "${savedGraph.name}"`, 'success');
+
+      // Call the load callback if set
+      if (this.onLoadCallback) {
+        this.onLoadCallback(this.graph);
+      }
+    } catch (error) {
+      console.error('Failed to load graph:', error);
+      this.showNotification('Failed to load graph. Data might be corrupted.', 'error');
+    }
+  }
+
+  /**
+   * Take over the nodes, edges, parameters and seed of a loaded graph, then apply
+   * parameter values from the page URL (e.g. ?width=2)
+   */
+  private replaceGraph(newGraph: Graph): void {
+    // Views update once, for the loaded graph as a whole
+    this.graph.transaction(() => {
       // Clear the current graph
       this.graph.clear();
 
+      // Parameters first, so Parameter nodes find them
+      for (const parameter of newGraph.parameters) {
+        this.graph.addParameter(parameter);
+      }
+      applyParameterOverrides(this.graph, window.location.search);
+      this.graph.setSeed(newGraph.seed);
+
       // Add all nodes from the loaded graph
       for (const node of newGraph.nodes.values()) {
         this.graph.addNode(node);
@@ -91,19 +121,12 @@ export class SaveLoadManager {
 
       // Add all edges from the loaded graph
       for (const edge of newGraph.edges.values()) {
-        this.graph.edges.set(edge.id, edge);
+        this.graph.addEdge(edge);
       }
 
-      this.showNotification(`Loaded "${savedGraph.name}"`, 'success');
-
-      // Call the load callback if set
-      if (this.onLoadCallback) {
-        this.onLoadCallback(this.graph);
-      }
-    } catch (error) {
-      console.error('Failed to load graph:', error);
-      this.showNotification('Failed to load graph. Data might be corrupted.', 'error');
-    }
+      // A freshly loaded graph starts with an empty undo history
+      this.graph.history.clear();
+    });
   }
 
   /**
@@ -339,7 +362,7 @@ export class SaveLoadManager {
   /**
    * Show a temporary notification
    */
-  private showNotification(message: string, type: 'success' | 'error'): void {
+  showNotification(message: string, type: 'success' | 'error'): void {
     const notification = document.createElement('div');
     notification.className = `notification notification-${type}`;
     notification.textContent = message;
@@ -366,9 +389,21 @@ export class SaveLoadManager {
 
   /**
    * Export graph as JSON file
+   * Loaded files are stored in this browser only, so they can be inlined (as base64)
+   * for the graph to open elsewhere; without inlineAssets, the user is asked.
    */
-  exportToFile(): void {
-    const serializedData = serializeGraphToJSON(this.graph);
+  async exportToFile(inlineAssets?: boolean): Promise<void> {
+    let data = serializeGraph(this.graph);
+    // Ask before inlining, which reads and encodes every file
+    if (
+      referencedAssets(data).size > 0 &&
+      (inlineAssets ??
+        confirm('Include the loaded files in the exported graph? This makes the file larger.'))
+    ) {
+      data = await embedAssets(data);
+    }
+
+    const serializedData = JSON.stringify(data, null, 2);
     const blob = new Blob([serializedData], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -396,18 +431,7 @@ export class SaveLoadManager {
           const data = event.target?.result as string;
           const newGraph = deserializeGraphFromJSON(data, this.registry);
 
-          // Clear the current graph
-          this.graph.clear();
-
-          // Add all nodes from the loaded graph
-          for (const node of newGraph.nodes.values()) {
-            this.graph.addNode(node);
-          }
-
-          // Add all edges from the loaded graph
-          for (const edge of newGraph.edges.values()) {
-            this.graph.edges.set(edge.id, edge);
-          }
+          this.replaceGraph(newGraph);
 
           this.showNotification('Graph imported successfully', 'success');
 
@@ -10,6 +10,12 @@ export class SelectionManager {
     this.graph = graph;
   }
 
+  // Switch to another graph (e.g. when entering a group), clearing the selection
+  setGraph(graph: Graph): void {
+    this.graph = graph;
+    this.clearSelection();
+  }
+
   // Select a single node
   selectNode(nodeId: string, mode: 'replace' | 'add' | 'toggle' = 'replace'): void {
     if (mode === 'replace') {
@@ -79,13 +85,16 @@ export class SelectionManager {
 
   // Move all selected nodes by a delta
   moveSelectedNodes(dx: number, dy: number): void {
+    const moved: Node[] = [];
     for (const nodeId of this.selectedNodes) {
       const node = this.graph.getNode(nodeId);
       if (node) {
         node.position.x += dx;
         node.position.y += dy;
+        moved.push(node);
       }
     }
+    this.graph.emit({ type: 'positionChanged', nodes: moved });
   }
 
   // Set positions of all selected nodes (for drag operations)
@@ -114,9 +123,11 @@ export class SelectionManager {
   // Delete all selected nodes
   deleteSelectedNodes(): void {
     const nodesToDelete = Array.from(this.selectedNodes);
-    for (const nodeId of nodesToDelete) {
-      this.graph.removeNode(nodeId);
-    }
+    this.graph.history.group(`Delete ${nodesToDelete.length} node(s)`, () => {
+      for (const nodeId of nodesToDelete) {
+        this.graph.removeNode(nodeId);
+      }
+    });
     this.selectedNodes.clear();
     this.notifyChange();
   }
@@ -0,0 +1,137 @@
+import { Pane } from 'tweakpane';
+import type { Transport, TransportMode } from '@/core/Transport';
+import './TimelineBar.css';
+
+/**
+ * Transport controls in the toolbar: play/pause, stop, a scrubber over the loop
+ * range with the current time and frame, loop toggle, and a settings panel for
+ * the range, fps and playback mode.
+ */
+export class TimelineBar {
+  private transport: Transport;
+  private playButton: HTMLButtonElement | null = null;
+  private loopButton: HTMLButtonElement | null = null;
+  private scrubber: HTMLInputElement | null = null;
+  private readout: HTMLElement | null = null;
+  private settingsElement: HTMLElement | null = null;
+  private settingsPane: Pane | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(transport: Transport) {
+    this.transport = transport;
+  }
+
+  initializeUI(container: HTMLElement): void {
+    this.playButton = this.createButton(container, 'ph-play', 'Play/pause', () =>
+      this.transport.toggle()
+    );
+    this.createButton(container, 'ph-stop', 'Stop (back to start)', () => this.transport.stop());
+
+    this.scrubber = document.createElement('input');
+    this.scrubber.type = 'range';
+    this.scrubber.className = 'timeline-scrubber';
+    this.scrubber.title = 'Scrub';
+    this.scrubber.addEventListener('input', () => {
+      this.transport.seek(Number(this.scrubber!.value));
+    });
+    container.appendChild(this.scrubber);
+
+    this.readout = document.createElement('span');
+    this.readout.className = 'timeline-readout';
+    container.appendChild(this.readout);
+
+    this.loopButton = this.createButton(container, 'ph-infinity', 'Loop', () =>
+      this.transport.setLoop(!this.transport.loop)
+    );
+    const settingsButton = this.createButton(container, 'ph-gear-six', 'Timeline settings', () =>
+      this.toggleSettings(settingsButton)
+    );
+
+    this.unsubscribe = this.transport.onChange(() => this.update());
+    this.update();
+  }
+
+  private createButton(
+    container: HTMLElement,
+    icon: string,
+    title: string,
+    onClick: () => void
+  ): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.className = 'toolbar-button';
+    button.title = title;
+    button.innerHTML = `<i class="ph ${icon}"></i>`;
+    button.addEventListener('click', onClick);
+    container.appendChild(button);
+    return button;
+  }
+
+  private update(): void {
+    const { playing, loop, time, frame, start, end, fps } = this.transport;
+
+    if (this.playButton) {
+      this.playButton.innerHTML = `<i class="ph ${playing ? 'ph-pause' : 'ph-play'}"></i>`;
+    }
+    this.loopButton?.classList.toggle('active', loop);
+
+    if (this.scrubber) {
+      this.scrubber.min = String(start);
+      this.scrubber.max = String(end);
+      this.scrubber.step = String(1 / fps);
+      this.scrubber.value = String(time);
+    }
+    if (this.readout) {
+      this.readout.textContent = `${time.toFixed(2)}s · ${frame}`;
+    }
+  }
+
+  // Floating panel above the button with the range, fps and mode
+  private toggleSettings(anchor: HTMLElement): void {
+    if (this.settingsElement) {
+      this.closeSettings();
+      return;
+    }
+
+    const rect = anchor.getBoundingClientRect();
+    this.settingsElement = document.createElement('div');
+    this.settingsElement.className = 'timeline-settings';
+    this.settingsElement.style.left = `${rect.left}px`;
+    this.settingsElement.style.bottom = `${window.innerHeight - rect.top + 10}px`;
+    document.body.appendChild(this.settingsElement);
+
+    const settings = {
+      mode: this.transport.mode,
+      fps: this.transport.fps,
+      start: this.transport.start,
+      end: this.transport.end,
+    };
+    this.settingsPane = new Pane({ container: this.settingsElement, title: 'Timeline' });
+    this.settingsPane
+      .addBinding(settings, 'mode', {
+        label: 'Mode',
+        options: { Realtime: 'realtime', 'Fixed FPS': 'fixed' },
+      })
+      .on('change', (ev) => this.transport.setMode(ev.value as TransportMode));
+    this.settingsPane
+      .addBinding(settings, 'fps', { label: 'FPS', min: 1, max: 240, step: 1 })
+      .on('change', (ev) => this.transport.setFps(ev.value));
+    this.settingsPane
+      .addBinding(settings, 'start', { label: 'Start (s)', min: 0, step: 0.1 })
+      .on('change', () => this.transport.setRange(settings.start, settings.end));
+    this.settingsPane
+      .addBinding(settings, 'end', { label: 'End (s)', min: 0, step: 0.1 })
+      .on('change', () => this.transport.setRange(settings.start, settings.end));
+  }
+
+  private closeSettings(): void {
+    this.settingsPane?.dispose();
+    this.settingsPane = null;
+    this.settingsElement?.remove();
+    this.settingsElement = null;
+  }
+
+  dispose(): void {
+    this.unsubscribe?.();
+    this.closeSettings();
+  }
+}
@@ -9,7 +9,11 @@ export { SelectionManager } from './SelectionManager';
 export { ContextMenu } from './ContextMenu';
 export { PreviewManager } from './PreviewManager/PreviewManager';
 export { ClipboardManager } from './ClipboardManager';
+export { GroupManager } from './GroupManager';
 export { SaveLoadManager } from './SaveLoadManager';
+export { ParametersPanel } from './ParametersPanel';
+export { TimelineBar } from './TimelineBar';
+export { KeyframeEditor } from './KeyframeEditor';
 export { ObjectInspector } from './ObjectInspector';
 export { AutoLayoutManager } from './AutoLayoutManager';
 export { ViewportSelectionManager } from './ViewportSelectionManager';
@@ -0,0 +1,101 @@
+/**
+ * Evaluation benchmark
+ *
+ * Builds synthetic graphs of increasing size and times how long the Evaluator
+ * takes on them, to spot scaling problems in the engine
+ */
+
+import { Graph } from '@/core/Graph';
+import { Evaluator } from '@/core/Evaluator';
+import { Node } from '@/core/Node';
+import { NodeRegistry } from '@/three/NodeRegistry';
+
+export interface BenchmarkResult {
+  nodes: number;
+  edges: number;
+  firstMs: number; // First evaluation: everything dirty, order not cached yet
+  frameMs: number; // Everything dirty again, as when a Frame node drives the graph
+  idleMs: number; // Nothing dirty
+  perNodeUs: number; // frameMs per node, in microseconds
+}
+
+const DEFAULT_SIZES = [100, 250, 500, 1000, 2000];
+const DEFAULT_RUNS = 20;
+
+/**
+ * Time evaluation for graphs of each size.
+ * Each graph is a Number node feeding chains of Add nodes, four chains wide.
+ */
+export async function benchmarkEvaluation(
+  registry: NodeRegistry,
+  sizes: number[] = DEFAULT_SIZES,
+  runs: number = DEFAULT_RUNS
+): Promise<BenchmarkResult[]> {
+  const results: BenchmarkResult[] = [];
+
+  for (const size of sizes) {
+    const { graph, source } = buildGraph(registry, size);
+    const evaluator = new Evaluator(graph);
+
+    const firstMs = await time(() => evaluator.evaluate());
+
+    let frameMs = 0;
+    for (let i = 0; i < runs; i++) {
+      // A new value each run, since nodes whose inputs come out the same are skipped
+      source.inputs.get('value')!.value = i + 1;
+      source.markDownstreamDirty();
+      frameMs += await time(() => evaluator.evaluate());
+    }
+    frameMs /= runs;
+
+    let idleMs = 0;
+    for (let i = 0; i < runs; i++) {
+      idleMs += await time(() => evaluator.evaluate());
+    }
+    idleMs /= runs;
+
+    results.push({
+      nodes: graph.nodes.size,
+      edges: graph.edges.size,
+      firstMs: round(firstMs),
+      frameMs: round(frameMs),
+      idleMs: round(idleMs),
+      perNodeUs: round((frameMs * 1000) / graph.nodes.size),
+    });
+    graph.clear();
+  }
+
+  return results;
+}
+
+function buildGraph(registry: NodeRegistry, size: number): { graph: Graph; source: Node } {
+  const graph = new Graph();
+  const source = registry.createNode('NumberNode', 'bench_source')!;
+
+  // Benchmark graphs are throwaway, so don't fill up their undo history
+  graph.history.suspend(() => {
+    graph.addNode(source);
+    const chainHeads = [source, source, source, source];
+    for (let i = 1; i < size; i++) {
+      const node = registry.createNode('AddNode', `bench_${i}`)!;
+      graph.addNode(node);
+
+      const chain = i % chainHeads.length;
+      graph.connect(chainHeads[chain].outputs.get('result')!, node.inputs.get('a')!);
+      graph.connect(source.outputs.get('result')!, node.inputs.get('b')!);
+      chainHeads[chain] = node;
+    }
+  });
+
+  return { graph, source };
+}
+
+async function time(fn: () => Promise<void>): Promise<number> {
+  const start = performance.now();
+  await fn();
+  return performance.now() - start;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -13,6 +13,11 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  worker: {
+    // Module workers, so the evaluation worker can load nodes with dynamic imports (e.g. Rapier)
+    format: 'es',
+    plugins: () => [wasm(), topLevelAwait()],
+  },
   server: {
     port: 3000,
     host: true, // Allow access from local network (e.g., phone on same WiFi)
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Builds the headless CLI (src/headless/cli.ts) for Node.js
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  build: {
+    ssr: 'src/headless/cli.ts',
+    outDir: 'dist/headless',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'cli.js',
+      },
+    },
+  },
+});